@@ -0,0 +1,261 @@
+/**
+ * @fileoverview Consul KV 配置提供者模組
+ * 此模組從 Consul KV 讀取指定前綴下的配置，覆蓋環境變數預設值，
+ * 並透過阻塞查詢在配置變更時熱更新，讓 TTL、Redis DB 等設定無需重新部署即可生效
+ */
+// 匯入 Node.js 事件發射器
+import { EventEmitter } from 'events';
+// 匯入 Consul 工具
+import { ConsulHelper } from '../utils/consul.js';
+// 匯入驗證工具
+import { Validator } from '../utils/validation.js';
+import type { ValidationError, ValidationRule } from '../utils/validation.js';
+// 匯入訊息目錄
+import { MessageCatalog, type MessageCode } from '../utils/messages.js';
+import type { Logger } from '../patterns/LoggerDecorator.js';
+
+/**
+ * 配置提供者選項
+ * @template T 配置物件類型
+ */
+export interface ConsulConfigProviderOptions<T extends Record<string, any>> {
+  /** Consul 工具實例 */
+  consul: ConsulHelper;
+  /** KV 鍵前綴，例如 config/drone-service/ */
+  prefix: string;
+  /** 預設值，通常由環境變數組成；KV 中的值依預設值的型別轉換，未宣告在預設值中的鍵會被忽略 */
+  defaults: T;
+  /** 套用前的驗證規則，驗證失敗時保留目前配置 */
+  rules?: ValidationRule[];
+  /** 日誌，預設為 console */
+  logger?: Logger;
+}
+
+/**
+ * 配置變更事件
+ * @template T 配置物件類型
+ */
+export interface ConfigChangeEvent<T> {
+  /** 變更後的配置 */
+  config: T;
+  /** 變更前的配置 */
+  previous: T;
+  /** 值有改變的鍵 */
+  changedKeys: Array<keyof T>;
+}
+
+/**
+ * Consul KV 配置提供者
+ *
+ * 事件：
+ * - change：配置通過驗證並改變時觸發，參數為 ConfigChangeEvent
+ * - invalid：KV 內容未通過驗證時觸發，參數為 ValidationError[]；
+ *   無法轉換為預設值型別的值（例如 cacheTTL 為 'abc'）也視為驗證失敗
+ *
+ * @example
+ * ```typescript
+ * const provider = new ConsulConfigProvider({
+ *   consul: new ConsulHelper('aiot-consul', 8500),
+ *   prefix: 'config/drone-service/',
+ *   defaults: {
+ *     redisHost: process.env.REDIS_HOST || 'aiot-redis',
+ *     redisDb: parseInt(process.env.REDIS_DB || '0'),
+ *     cacheTTL: 3600,
+ *     enableTelemetryCache: true
+ *   },
+ *   rules: [{ field: 'redisHost', rules: [ValidationRules.required()] }]
+ * });
+ *
+ * await provider.start();
+ * provider.on('change', ({ config, changedKeys }) => { ... });
+ * const ttl = provider.get('cacheTTL');
+ * ```
+ */
+export class ConsulConfigProvider<T extends Record<string, any>> extends EventEmitter {
+  /** Consul 工具實例 */
+  private readonly consul: ConsulHelper;
+  /** KV 鍵前綴 */
+  private readonly prefix: string;
+  /** 預設配置 */
+  private readonly defaults: T;
+  /** 驗證規則 */
+  private readonly rules: ValidationRule[];
+  /** 日誌 */
+  private readonly logger: Logger;
+  /** 目前生效的配置 */
+  private config: T;
+  /** 監聽取消控制器 */
+  private watchController: AbortController | null = null;
+
+  constructor(options: ConsulConfigProviderOptions<T>) {
+    super();
+    this.consul = options.consul;
+    this.prefix = options.prefix;
+    this.defaults = { ...options.defaults };
+    this.rules = options.rules || [];
+    this.logger = options.logger || console;
+    this.config = { ...options.defaults };
+  }
+
+  /**
+   * 讀取初始配置並開始監聽變更
+   * Consul 無法連線時沿用預設值，監聽會在背景持續重試
+   * @returns {Promise<void>} 無返回值的 Promise
+   */
+  public async start(): Promise<void> {
+    // 檢查是否已經啟動
+    if (this.watchController) {
+      return;
+    }
+
+    try {
+      // 讀取初始配置
+      this.apply(await this.consul.getKeyValues(this.prefix));
+    } catch (error) {
+      this.logger.error(`Failed to load config from Consul prefix ${this.prefix}, using defaults:`, error);
+    }
+
+    // 開始背景監聽
+    this.watchController = new AbortController();
+    this.consul.watchKeyPrefix(
+      this.prefix,
+      (values) => this.apply(values),
+      { signal: this.watchController.signal }
+    ).catch((error) => {
+      this.logger.error(`Config watch for ${this.prefix} stopped:`, error);
+    });
+  }
+
+  /**
+   * 停止監聽配置變更
+   */
+  public stop(): void {
+    if (this.watchController) {
+      this.watchController.abort();
+      this.watchController = null;
+    }
+  }
+
+  /**
+   * 取得目前配置的快照
+   * @returns {T} 配置物件
+   */
+  public getConfig(): T {
+    return { ...this.config };
+  }
+
+  /**
+   * 取得單一配置值
+   * @param key 配置鍵
+   * @returns 配置值
+   */
+  public get<K extends keyof T>(key: K): T[K] {
+    return this.config[key];
+  }
+
+  /**
+   * 將 KV 鍵值合併到預設值上，驗證通過後套用
+   * @param values 去除前綴後的 KV 鍵值
+   */
+  private apply(values: Record<string, string>): void {
+    // 每次都從預設值開始合併，讓刪除的鍵回到預設值
+    const next: Record<string, any> = { ...this.defaults };
+    const typeErrors: ValidationError[] = [];
+    const ignoredKeys: string[] = [];
+    for (const [key, raw] of Object.entries(values)) {
+      // 只接受預設值中宣告的鍵，避免未定型別的值混入配置
+      if (!Object.prototype.hasOwnProperty.call(this.defaults, key)) {
+        ignoredKeys.push(key);
+        continue;
+      }
+
+      next[key] = coerceValue(raw, this.defaults[key]);
+      const typeError = checkType(key, next[key], this.defaults[key]);
+      if (typeError) {
+        typeErrors.push(typeError);
+      }
+    }
+
+    if (ignoredKeys.length > 0) {
+      this.logger.info(`Ignoring undeclared config keys under ${this.prefix}: ${ignoredKeys.join(', ')}`);
+    }
+
+    // 驗證新配置，失敗時保留目前配置
+    const errors: ValidationError[] = [...typeErrors, ...Validator.validateObject(next, this.rules)];
+    if (Validator.hasValidationErrors(errors)) {
+      this.logger.error(`Invalid config under ${this.prefix}:`, Validator.formatValidationErrors(errors));
+      this.emit('invalid', errors);
+      return;
+    }
+
+    // 找出有改變的鍵
+    const previous = this.config;
+    const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+    const changedKeys = Array.from(keys).filter(
+      (key) => JSON.stringify(previous[key]) !== JSON.stringify(next[key])
+    ) as Array<keyof T>;
+
+    if (changedKeys.length === 0) {
+      return;
+    }
+
+    this.config = next as T;
+    const event: ConfigChangeEvent<T> = { config: this.getConfig(), previous, changedKeys };
+    this.emit('change', event);
+  }
+}
+
+/**
+ * 依預設值的型別轉換 KV 字串值
+ * 無法轉換時保留原始字串，交由 checkType 回報；其他型別嘗試以 JSON 解析，失敗則保留字串
+ * @param raw KV 中的字串值
+ * @param defaultValue 對應的預設值
+ * @returns 轉換後的值
+ */
+function coerceValue(raw: string, defaultValue: unknown): any {
+  switch (typeof defaultValue) {
+    case 'string':
+      return raw;
+    case 'number': {
+      const num = Number(raw);
+      return raw.trim() === '' || isNaN(num) ? raw : num;
+    }
+    case 'boolean': {
+      const normalized = raw.trim().toLowerCase();
+      if (normalized === 'true' || normalized === '1') return true;
+      if (normalized === 'false' || normalized === '0') return false;
+      return raw;
+    }
+    default:
+      try {
+        return JSON.parse(raw);
+      } catch {
+        return raw;
+      }
+  }
+}
+
+/** 依預設值檢查型別的原始型別 */
+const PRIMITIVE_TYPES = new Set(['string', 'number', 'boolean']);
+
+/**
+ * 檢查轉換後的值是否符合預設值的型別
+ * 預設值為 null 或 undefined 時不檢查
+ * @param key 配置鍵
+ * @param value 轉換後的值
+ * @param defaultValue 對應的預設值
+ * @returns 型別不符時的驗證錯誤，否則為 null
+ */
+function checkType(key: string, value: unknown, defaultValue: unknown): ValidationError | null {
+  let code: MessageCode | null = null;
+
+  if (Array.isArray(defaultValue)) {
+    code = Array.isArray(value) ? null : 'validation.array';
+  } else if (defaultValue !== null && typeof defaultValue === 'object') {
+    code = value !== null && typeof value === 'object' && !Array.isArray(value) ? null : 'validation.object';
+  } else if (PRIMITIVE_TYPES.has(typeof defaultValue) && typeof value !== typeof defaultValue) {
+    code = `validation.${typeof defaultValue}` as MessageCode;
+  }
+
+  return code ? { field: key, message: MessageCatalog.translate(code), code } : null;
+}
@@ -2,17 +2,20 @@
  * @fileoverview Redis 快取資料庫配置模組
  * 此模組提供 Redis 連接管理和客戶端實例的單例模式實現
  * 用於會話管理、快取資料和臨時資料存儲
+ *
+ * 連線實際由 services/redis/RedisConnectionManager 的連線註冊表管理，
+ * 此模組保留原有 API 作為預設連線的包裝，確保不論從哪個路徑匯入都取得同一個客戶端
  */
 
-// 匯入 Redis 客戶端建立函式
-import { createClient } from 'redis';
+// 匯入 Redis 連線註冊表
+import { redisConnectionManager, DEFAULT_REDIS_CONNECTION } from '../services/redis/RedisConnectionManager.js';
 // 匯入 Redis 客戶端類型定義
 import type { RedisClientType } from 'redis';
 
 /**
  * Redis 連線配置類別
  * 使用單例模式管理 Redis 連接，確保整個應用程式只有一個 Redis 連接實例
- * 
+ *
  * 主要功能：
  * - 會話管理 (Session Management)
  * - 快取資料 (Cache)
@@ -22,10 +25,6 @@ import type { RedisClientType } from 'redis';
 class RedisConfig {
   /** 單例實例靜態屬性 */
   private static instance: RedisConfig;
-  /** Redis 客戶端實例，初始為 null */
-  private client: RedisClientType | null = null;
-  /** 連接狀態標記，初始為 false */
-  private isConnected: boolean = false;
 
   /** 私有建構函式，防止外部直接實例化 */
   private constructor() {}
@@ -47,69 +46,11 @@ class RedisConfig {
 
   /**
    * 建立 Redis 連線
-   * 使用環境變數配置連接參數，設定事件監聽器
+   * 使用環境變數配置連接參數，委派給連線註冊表的預設連線
    * @returns {Promise<void>} 無返回值的 Promise
    */
   public async connect(): Promise<void> {
-    try {
-      // 檢查是否已經連接，如果已連接則直接返回
-      if (this.isConnected && this.client) {
-        return;
-      }
-
-      // 建立 Redis 客戶端實例，配置連接參數
-      this.client = createClient({
-        // 設定 Socket 連接配置
-        socket: {
-          // 從環境變數獲取主機位址，docker 環境下使用容器名稱
-          host: process.env.REDIS_HOST || 'aiot-redis',
-          // 從環境變數獲取埠號並轉換為整數，預設為 6379
-          port: parseInt(process.env.REDIS_PORT || '6379'),
-        },
-        // 從環境變數獲取密碼，如果沒有則為 undefined
-        password: process.env.REDIS_PASSWORD || undefined,
-        // 從環境變數獲取資料庫編號並轉換為整數，預設為 0
-        database: parseInt(process.env.REDIS_DB || '0'),
-      });
-
-      // 設置錯誤事件監聽器
-      this.client.on('error', (err) => {
-        // 記錄錯誤訊息到控制台
-        console.error('Redis Client Error:', err);
-        // 設定連接狀態為 false
-        this.isConnected = false;
-      });
-
-      // 設置連接成功事件監聽器
-      this.client.on('connect', () => {
-        // 記錄連接成功訊息
-        console.log('Redis Client Connected');
-        // 設定連接狀態為 true
-        this.isConnected = true;
-      });
-
-      // 設置準備就緒事件監聽器
-      this.client.on('ready', () => {
-        // 記錄準備就緒訊息
-        console.log('Redis Client Ready');
-      });
-
-      // 設置連接結束事件監聽器
-      this.client.on('end', () => {
-        // 記錄連接結束訊息
-        console.log('Redis Client Connection Ended');
-        // 設定連接狀態為 false
-        this.isConnected = false;
-      });
-
-      // 實際建立連接到 Redis 伺服器
-      await this.client.connect();
-    } catch (error) {
-      // 記錄連接失敗錯誤
-      console.error('Failed to connect to Redis:', error);
-      // 重新拋出錯誤給調用者
-      throw error;
-    }
+    await redisConnectionManager.connect(DEFAULT_REDIS_CONNECTION);
   }
 
   /**
@@ -119,13 +60,7 @@ class RedisConfig {
    * @throws {Error} 當客戶端未連接時拋出錯誤
    */
   public getClient(): RedisClientType {
-    // 檢查客戶端是否存在且已連接
-    if (!this.client || !this.isConnected) {
-      // 如果未連接，拋出錯誤提示需要先連接
-      throw new Error('Redis client is not connected. Please call connect() first.');
-    }
-    // 返回客戶端實例
-    return this.client;
+    return redisConnectionManager.getClient(DEFAULT_REDIS_CONNECTION);
   }
 
   /**
@@ -134,17 +69,7 @@ class RedisConfig {
    * @returns {Promise<void>} 無返回值的 Promise
    */
   public async disconnect(): Promise<void> {
-    // 檢查客戶端是否存在且已連接
-    if (this.client && this.isConnected) {
-      // 優雅地關閉連接
-      await this.client.quit();
-      // 清空客戶端實例
-      this.client = null;
-      // 設定連接狀態為 false
-      this.isConnected = false;
-      // 記錄斷開連接訊息
-      console.log('Redis Client Disconnected');
-    }
+    await redisConnectionManager.disconnect(DEFAULT_REDIS_CONNECTION);
   }
 
   /**
@@ -153,8 +78,7 @@ class RedisConfig {
    * @returns {boolean} 連接狀態，true 表示已連接，false 表示未連接
    */
   public isClientConnected(): boolean {
-    // 檢查連接狀態和客戶端實例是否都存在
-    return this.isConnected && this.client !== null;
+    return redisConnectionManager.isClientConnected(DEFAULT_REDIS_CONNECTION);
   }
 }
 
@@ -169,4 +93,4 @@ export const redisConfig = RedisConfig.getInstance();
 export const getRedisClient = (): RedisClientType => {
   // 通過 redisConfig 單例取得客戶端實例
   return redisConfig.getClient();
-};
\ No newline at end of file
+};
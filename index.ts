@@ -3,24 +3,106 @@
 
 // ===== Redis 相關服務 =====
 export { 
-    BaseRedisService
+    BaseRedisService,
+    type CacheLoadOptions,
+    type CacheStats,
+    type CacheTierStats
 } from './services/redis/BaseRedisService.js';
 
+export {
+    LocalLruCache,
+    type LocalCacheOptions
+} from './services/redis/LocalLruCache.js';
+
+export {
+    RedisLock,
+    RedisLockError,
+    RedisLockTimeoutError,
+    RedisLockUnavailableError,
+    RedisLockLostError,
+    type RedisLockOptions,
+    type RedisLockConfig,
+    type RedisLockHandle
+} from './services/redis/RedisLock.js';
+
+export {
+    SlidingWindowRateLimiter,
+    TokenBucketRateLimiter,
+    type RateLimiter,
+    type RateLimitResult,
+    type RedisRateLimiterBaseOptions,
+    type SlidingWindowOptions,
+    type TokenBucketOptions
+} from './services/redis/RedisRateLimiter.js';
+
+export {
+    RedisEventBus,
+    EventValidationError,
+    defineEventTopic,
+    type EventTopic,
+    type StreamEvent,
+    type EventHandler,
+    type RedisEventBusConfig,
+    type EventSubscribeOptions,
+    type EventSubscription
+} from './services/redis/RedisEventBus.js';
+
+export {
+    RedisJobQueue,
+    type JobState,
+    type JobBackoffOptions,
+    type JobOptions,
+    type RepeatOptions,
+    type RepeatableJob,
+    type JobInfo,
+    type Job,
+    type JobHandler,
+    type RedisJobQueueConfig,
+    type JobWorkerOptions,
+    type JobWorker
+} from './services/redis/RedisJobQueue.js';
+
+export {
+    CacheInvalidationBus,
+    type CacheInvalidationMessage
+} from './services/redis/CacheInvalidationBus.js';
+
 export { 
     redisConnectionManager, 
     getRedisClient, 
-    initializeRedis 
+    initializeRedis,
+    DEFAULT_REDIS_CONNECTION,
+    createReconnectStrategy,
+    type RedisConnectionConfig,
+    type RedisConnectionMode,
+    type RedisReconnectOptions,
+    type RedisConnectionState,
+    type RedisConnectionStateEvent
 } from './services/redis/RedisConnectionManager.js';
 
+export {
+    RedisSentinelConnector,
+    type RedisNodeAddress,
+    type RedisSentinelConnectorOptions
+} from './services/redis/RedisSentinelConnector.js';
+
 // ===== 服務類別 =====
 // JwtBlacklistService 已移除 - JWT 黑名單功能統一由 Gateway 層處理
 
 // ===== 設計模式 =====
 export { loggerDecorator } from './patterns/LoggerDecorator.js';
+export { CircuitBreaker, type CircuitState, type CircuitBreakerOptions } from './patterns/CircuitBreaker.js';
 
 // ===== 配置檔案 (Redis) =====
 export { redisConfig } from './configs/RedisConfig.js';
 
+// ===== 配置檔案 (Consul KV) =====
+export {
+    ConsulConfigProvider,
+    type ConsulConfigProviderOptions,
+    type ConfigChangeEvent
+} from './configs/ConsulConfigProvider.js';
+
 // ===== 工具函式 =====
 export { ResResult } from './utils/ResResult.js';
 export { ReqResult } from './utils/ReqResult.js';
@@ -33,8 +115,16 @@ export * from './types/ApiResponseTypes.js';
 
 // 常用工具函數 (保留現有的)
 export * from './utils/consul.js';
+export * from './utils/consulRegistration.js';
 export * from './utils/grpc.js';
+export * from './utils/grpcInterceptors.js';
+export * from './utils/grpcServer.js';
+export * from './utils/grpcLoadBalancer.js';
+export * from './utils/rateLimit.js';
+export * from './utils/cron.js';
+export * from './utils/messages.js';
 export * from './utils/validation.js';
+export * from './utils/requestValidation.js';
 
 /**
  * 套件版本資訊
@@ -0,0 +1,110 @@
+/**
+ * 簡單的斷路器（Circuit Breaker）
+ *
+ * 連續失敗達到門檻後進入 open 狀態，在冷卻時間內直接拒絕呼叫，
+ * 冷卻結束後進入 half-open 狀態，只放行一個試探呼叫：
+ * 成功則恢復 closed，失敗則重新 open。
+ * 試探呼叫在 trialTimeoutMs 內未回報結果（例如 Promise 永遠不結束）時視為失敗，
+ * 避免斷路器永遠停在 half-open。
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** 連續失敗幾次後開啟斷路器，預設 5 */
+  failureThreshold?: number;
+  /** 開啟後多久允許試探呼叫（毫秒），預設 30000 */
+  resetTimeoutMs?: number;
+  /** 試探呼叫多久未回報結果視為失敗（毫秒），預設與 resetTimeoutMs 相同 */
+  trialTimeoutMs?: number;
+  /** 狀態改變時的回呼 */
+  onStateChange?: (state: CircuitState) => void;
+}
+
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+  private readonly trialTimeoutMs: number;
+  private readonly onStateChange?: (state: CircuitState) => void;
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private trialStartedAt = 0;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30000;
+    this.trialTimeoutMs = options.trialTimeoutMs ?? this.resetTimeoutMs;
+    this.onStateChange = options.onStateChange;
+  }
+
+  /**
+   * 是否允許執行呼叫
+   * open 狀態冷卻結束後轉為 half-open，並只放行一個試探呼叫
+   */
+  canExecute(): boolean {
+    if (this.state === 'half-open' && this.trialInFlight && Date.now() - this.trialStartedAt >= this.trialTimeoutMs) {
+      // 試探呼叫逾時，視為失敗並重新冷卻
+      this.recordFailure();
+    }
+
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.resetTimeoutMs) {
+      this.transition('half-open');
+    }
+
+    if (this.state === 'half-open') {
+      if (this.trialInFlight) return false;
+      this.trialInFlight = true;
+      this.trialStartedAt = Date.now();
+      return true;
+    }
+
+    return this.state === 'closed';
+  }
+
+  /**
+   * 記錄一次成功呼叫
+   */
+  recordSuccess(): void {
+    this.failures = 0;
+    this.trialInFlight = false;
+    if (this.state !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  /**
+   * 記錄一次失敗呼叫
+   */
+  recordFailure(): void {
+    this.failures++;
+    this.trialInFlight = false;
+    if (this.state === 'half-open' || this.failures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+      if (this.state !== 'open') {
+        this.transition('open');
+      }
+    }
+  }
+
+  /**
+   * 重設為 closed 狀態，例如確認下游已恢復時
+   */
+  reset(): void {
+    this.failures = 0;
+    this.trialInFlight = false;
+    if (this.state !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  private transition(state: CircuitState): void {
+    this.state = state;
+    this.onStateChange?.(state);
+  }
+}
@@ -8,7 +8,12 @@
  * - 自動 Redis 連線管理和錯誤處理
  * - 統一的日誌記錄
  * - 可配置的快取 TTL
- * - 優雅降級支援（Redis 不可用時自動降級）
+ * - 優雅降級支援（Redis 不可用時自動降級，恢復後自動切回）
+ * - 斷路器保護，連續失敗時暫停對 Redis 的呼叫
+ * - Cache-aside 載入（getOrLoad），具備防止快取擊穿的合併載入與分散式鎖
+ * - 選用的本地 LRU 快取層，透過 Redis pub/sub 在各實例間同步失效
+ * - 標籤式快取失效，取代 KEYS 模式掃描
+ * - 分散式鎖（withLock）
  * 
  * @module BaseRedisService
  * @author AIOT Team
@@ -16,9 +21,19 @@
  * @version 1.0.0
  */
 
+import { randomUUID } from 'crypto';
 import { injectable } from 'inversify';
 import type { RedisClientType } from 'redis';
-import { getRedisClient } from '../../configs/RedisConfig';
+import { redisConnectionManager, DEFAULT_REDIS_CONNECTION } from './RedisConnectionManager.js';
+import type { RedisConnectionStateEvent } from './RedisConnectionManager.js';
+import { LocalLruCache } from './LocalLruCache.js';
+import type { LocalCacheOptions } from './LocalLruCache.js';
+import { CacheInvalidationBus } from './CacheInvalidationBus.js';
+import { RedisLock } from './RedisLock.js';
+import type { RedisLockHandle, RedisLockOptions } from './RedisLock.js';
+import type { CacheInvalidationMessage } from './CacheInvalidationBus.js';
+import { CircuitBreaker } from '../../patterns/CircuitBreaker.js';
+import type { CircuitBreakerOptions } from '../../patterns/CircuitBreaker.js';
 
 /**
  * Redis 連線配置選項
@@ -32,8 +47,121 @@ export interface RedisConnectionOptions {
     enableDebugLogs?: boolean;
     /** Logger 實例 */
     logger?: any;
+    /** 使用的具名連線，預設為 default */
+    connectionName?: string;
+    /** 是否依連線狀態事件自動切換降級模式，預設 true */
+    autoRecover?: boolean;
+    /** 斷路器選項，連續失敗達門檻後暫停呼叫 Redis */
+    circuitBreaker?: CircuitBreakerOptions;
+    /** 本地 LRU 快取選項，提供時啟用 Redis 前的本地快取層 */
+    localCache?: LocalCacheOptions;
 }
 
+/**
+ * 各層快取的命中統計
+ */
+export interface CacheTierStats {
+    hits: number;
+    misses: number;
+}
+
+/**
+ * getOrLoad 的快取命中統計
+ */
+export interface CacheStats {
+    /** 本地 LRU 快取，未啟用時為 null */
+    local: CacheTierStats | null;
+    /** Redis 快取 */
+    redis: CacheTierStats;
+}
+
+/**
+ * getOrLoad 快取選項
+ */
+export interface CacheLoadOptions {
+    /** 快取 TTL（秒），預設使用 defaultTTL */
+    ttl?: number;
+    /** 查無資料（loader 回傳 null/undefined）時的快取 TTL（秒），0 表示不快取，預設 60 */
+    negativeTtl?: number;
+    /** 跨實例載入鎖的存活時間（毫秒），預設 5000 */
+    lockTtlMs?: number;
+    /** 未取得載入鎖時，等待其他實例寫入快取的最長時間（毫秒），預設同 lockTtlMs */
+    lockWaitMs?: number;
+    /** 提前刷新係數（XFetch 演算法的 beta），越大越早刷新，0 表示停用，預設 1 */
+    earlyRefreshBeta?: number;
+    /** 快取標籤，可透過 invalidateTags 一次清除帶有相同標籤的快取 */
+    tags?: string[];
+}
+
+/**
+ * 快取中儲存的值與載入資訊
+ */
+interface CacheEnvelope<T> {
+    /** 快取值，查無資料時為 null */
+    v: T | null;
+    /** 載入耗時（毫秒），用於計算提前刷新機率 */
+    d: number;
+    /** 過期時間（epoch 毫秒） */
+    e: number;
+}
+
+/** 等待其他實例載入時輪詢快取的間隔（毫秒） */
+const CACHE_WAIT_POLL_MS = 50;
+
+/** 僅在鎖仍屬於自己時才刪除的 Lua 腳本 */
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+    return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/** 標籤集合鍵值前綴 */
+const TAG_KEY_PREFIX = 'cache:tag:';
+
+/**
+ * 寫入快取並登記標籤的 Lua 腳本
+ *
+ * 標籤集合為 sorted set，成員為快取鍵值、分數為過期時間，
+ * 寫入時順便移除已過期的成員，並將集合存活時間延長到至少與此快取相同
+ * KEYS[1] 快取鍵值，KEYS[2..n] 標籤集合；ARGV[1] 值，ARGV[2] TTL（毫秒），ARGV[3] 目前時間（毫秒）
+ */
+const SET_WITH_TAGS_SCRIPT = `
+local ttl = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+redis.call('SET', KEYS[1], ARGV[1], 'PX', ttl)
+for i = 2, #KEYS do
+    redis.call('ZREMRANGEBYSCORE', KEYS[i], '-inf', now)
+    redis.call('ZADD', KEYS[i], now + ttl, KEYS[1])
+    if redis.call('PTTL', KEYS[i]) < ttl then
+        redis.call('PEXPIRE', KEYS[i], ttl)
+    end
+end
+return 1
+`;
+
+/**
+ * 清除標籤下所有快取的 Lua 腳本
+ *
+ * 只刪除尚未過期的成員，並刪除標籤集合本身
+ * KEYS[1..n] 標籤集合；ARGV[1] 目前時間（毫秒）；回傳被刪除的快取鍵值
+ */
+const INVALIDATE_TAGS_SCRIPT = `
+local deleted = {}
+for i = 1, #KEYS do
+    local members = redis.call('ZRANGEBYSCORE', KEYS[i], '(' .. ARGV[1], '+inf')
+    for j = 1, #members, 500 do
+        local batch = {unpack(members, j, math.min(j + 499, #members))}
+        redis.call('DEL', unpack(batch))
+        for _, key in ipairs(batch) do
+            table.insert(deleted, key)
+        end
+    end
+    redis.call('DEL', KEYS[i])
+end
+return deleted
+`;
+
 /**
  * Redis 基礎服務抽象類別
  * 
@@ -61,6 +189,10 @@ export interface RedisConnectionOptions {
  *       await redis.setEx(`user:${user.id}`, this.defaultTTL, JSON.stringify(user));
  *     }
  *   }
+ *
+ *   async getUser(id: number): Promise<User | null> {
+ *     return this.getOrLoad(this.createCacheKey('user:', id), () => userRepository.findById(id));
+ *   }
  * }
  * ```
  */
@@ -84,6 +216,42 @@ export abstract class BaseRedisService {
     /** Logger 實例 */
     protected readonly logger: any;
 
+    /** 使用的具名連線 */
+    protected readonly connectionName: string;
+
+    /** Redis 操作斷路器 */
+    protected readonly circuitBreaker: CircuitBreaker;
+
+    /** 取消監聽連線狀態的函式 */
+    private unwatchConnection: (() => void) | null = null;
+
+    /** 進行中的載入，同一鍵值的並行請求共用同一個 Promise */
+    private readonly inflightLoads: Map<string, Promise<unknown>> = new Map();
+
+    /**
+     * 進行中的背景提前刷新
+     * 與 inflightLoads 分開：背景刷新未取得鎖時回傳 null，若讓未命中的請求併入會被誤判為查無資料
+     */
+    private readonly backgroundRefreshes: Set<string> = new Set();
+
+    /** 本地 LRU 快取，未啟用時為 null */
+    protected readonly localCache: LocalLruCache | null = null;
+
+    /** 快取失效通知匯流排，未啟用本地快取時為 null */
+    private readonly invalidationBus: CacheInvalidationBus | null = null;
+
+    /** 取消訂閱失效通知的函式 */
+    private unsubscribeInvalidation: (() => void) | null = null;
+
+    /** 分散式鎖，第一次使用時建立 */
+    private redisLock: RedisLock | null = null;
+
+    /** 快取命中統計 */
+    private readonly cacheStats: { local: CacheTierStats; redis: CacheTierStats } = {
+        local: { hits: 0, misses: 0 },
+        redis: { hits: 0, misses: 0 }
+    };
+
     /**
      * 建構函式
      * 
@@ -96,8 +264,52 @@ export abstract class BaseRedisService {
         this.defaultTTL = options.defaultTTL || 3600; // 預設 1 小時
         this.enableDebugLogs = options.enableDebugLogs ?? false;
         this.logger = options.logger || console; // 預設使用 console
+        this.connectionName = options.connectionName || DEFAULT_REDIS_CONNECTION;
+        this.circuitBreaker = new CircuitBreaker({
+            ...options.circuitBreaker,
+            onStateChange: (state) => {
+                this.logger.warn(`${this.serviceName}: Redis circuit breaker is ${state}`);
+                options.circuitBreaker?.onStateChange?.(state);
+            }
+        });
         
         this.initializeRedisConnection();
+
+        // 本地快取層：各實例透過失效通知移除彼此的舊資料
+        if (options.localCache) {
+            this.localCache = new LocalLruCache(options.localCache);
+            this.invalidationBus = CacheInvalidationBus.get(
+                this.connectionName,
+                options.localCache.channel ?? 'cache:invalidate'
+            );
+            this.unsubscribeInvalidation = this.invalidationBus.subscribe(
+                (message) => this.applyInvalidation(message)
+            );
+        }
+
+        // 監聽連線狀態，Redis 中斷時進入降級模式，恢復時自動切回
+        if (options.autoRecover !== false) {
+            this.unwatchConnection = redisConnectionManager.watchConnection(
+                this.connectionName,
+                (event) => this.handleConnectionStateChange(event)
+            );
+        }
+    }
+
+    /**
+     * 處理連線狀態變更
+     * 
+     * @param event 連線狀態事件
+     * @protected
+     */
+    protected handleConnectionStateChange(event: RedisConnectionStateEvent): void {
+        if (event.state === 'connected') {
+            this.initializeRedisConnection();
+            this.circuitBreaker.reset();
+        } else if (this.isRedisAvailable) {
+            this.isRedisAvailable = false;
+            this.logger.warn(`Redis connection lost for ${this.serviceName}, falling back to database operations only`);
+        }
     }
 
     /**
@@ -109,8 +321,8 @@ export abstract class BaseRedisService {
      */
     private initializeRedisConnection(): void {
         try {
-            // 直接使用統一的 Redis 配置
-            this.redisClient = getRedisClient();
+            // 從連線註冊表取得共用的客戶端
+            this.redisClient = redisConnectionManager.getClient(this.connectionName);
             this.isRedisAvailable = true;
             
             this.logger.info(`Redis client initialized successfully for ${this.serviceName}`);
@@ -175,8 +387,16 @@ export abstract class BaseRedisService {
             return fallbackValue;
         }
 
+        if (!this.circuitBreaker.canExecute()) {
+            if (this.enableDebugLogs) {
+                this.logger.debug(`${this.serviceName}: Redis circuit open for ${operationName}, using fallback`);
+            }
+            return fallbackValue;
+        }
+
         try {
             const result = await operation(redis);
+            this.circuitBreaker.recordSuccess();
             
             if (this.enableDebugLogs) {
                 this.logger.debug(`${this.serviceName}: ${operationName} completed successfully`);
@@ -184,6 +404,7 @@ export abstract class BaseRedisService {
             
             return result;
         } catch (error) {
+            this.circuitBreaker.recordFailure();
             this.logger.warn(`${this.serviceName}: ${operationName} failed:`, error);
             return fallbackValue;
         }
@@ -196,13 +417,18 @@ export abstract class BaseRedisService {
      * 
      * @param operation Redis 寫入操作函式
      * @param operationName 操作名稱，用於日誌
+     * @param invalidateKeys 寫入成功後需從各實例本地快取移除的鍵值
      * @returns 操作是否成功
      * @protected
      */
     protected async safeRedisWrite(
         operation: (redis: RedisClientType) => Promise<void>,
-        operationName: string
+        operationName: string,
+        invalidateKeys: string[] = []
     ): Promise<boolean> {
+        // 無論 Redis 是否可用，本地舊資料都應移除
+        invalidateKeys.forEach((key) => this.localCache?.delete(key));
+
         const redis = this.getRedisClient();
         if (!redis) {
             if (this.enableDebugLogs) {
@@ -211,8 +437,20 @@ export abstract class BaseRedisService {
             return false;
         }
 
+        if (!this.circuitBreaker.canExecute()) {
+            if (this.enableDebugLogs) {
+                this.logger.debug(`${this.serviceName}: Redis circuit open for ${operationName}, skipping cache write`);
+            }
+            return false;
+        }
+
         try {
             await operation(redis);
+            this.circuitBreaker.recordSuccess();
+
+            if (invalidateKeys.length > 0) {
+                await this.publishInvalidation({ keys: invalidateKeys });
+            }
             
             if (this.enableDebugLogs) {
                 this.logger.debug(`${this.serviceName}: ${operationName} write completed successfully`);
@@ -220,11 +458,448 @@ export abstract class BaseRedisService {
             
             return true;
         } catch (error) {
+            this.circuitBreaker.recordFailure();
             this.logger.warn(`${this.serviceName}: ${operationName} write failed:`, error);
             return false;
         }
     }
 
+    /**
+     * 讀取快取，未命中時透過 loader 載入並寫回（cache-aside）
+     * 
+     * - 值以 JSON 序列化儲存（Date 等型別會變成字串）
+     * - 同一程序內同一鍵值的並行請求只會呼叫一次 loader
+     * - 跨實例以 Redis 鎖確保同一時間只有一個實例載入，其他實例等待快取寫入
+     * - loader 回傳 null/undefined 時以 negativeTtl 快取查無結果
+     * - 依 XFetch 演算法在過期前機率性地於背景提前刷新，避免熱點鍵值同時過期
+     * - Redis 不可用時直接呼叫 loader；loader 拋出的錯誤會傳遞給呼叫端且不會被快取
+     * 
+     * @param key 快取鍵值
+     * @param loader 從資料來源載入的函式
+     * @param options 快取選項
+     * @returns 快取或載入的值，查無資料時為 null
+     * @protected
+     */
+    protected async getOrLoad<T>(
+        key: string,
+        loader: () => Promise<T | null | undefined>,
+        options: CacheLoadOptions = {}
+    ): Promise<T | null> {
+        if (this.localCache) {
+            const local = this.localCache.get(key);
+            if (local.found) {
+                this.cacheStats.local.hits++;
+                return local.value as T | null;
+            }
+            this.cacheStats.local.misses++;
+        }
+
+        const cached = await this.readCacheEnvelope<T>(key);
+
+        if (cached) {
+            this.cacheStats.redis.hits++;
+            this.rememberLocally(key, cached);
+
+            if (this.enableDebugLogs) {
+                this.logger.debug(`${this.serviceName}: cache hit for ${key}`);
+            }
+
+            if (!this.backgroundRefreshes.has(key) && this.shouldRefreshEarly(cached, options.earlyRefreshBeta ?? 1)) {
+                this.backgroundRefreshes.add(key);
+                this.loadWithLock(key, loader, options, true)
+                    .catch((error) => {
+                        this.logger.warn(`${this.serviceName}: early refresh of ${key} failed:`, error);
+                    })
+                    .finally(() => {
+                        this.backgroundRefreshes.delete(key);
+                    });
+            }
+
+            return cached.v;
+        }
+
+        this.cacheStats.redis.misses++;
+
+        if (this.enableDebugLogs) {
+            this.logger.debug(`${this.serviceName}: cache miss for ${key}`);
+        }
+
+        return this.coalesceLoad(key, () => this.loadWithLock(key, loader, options, false));
+    }
+
+    /**
+     * 合併同一鍵值的並行載入
+     * 
+     * @param key 快取鍵值
+     * @param load 載入函式
+     * @returns 載入結果
+     * @private
+     */
+    private coalesceLoad<T>(key: string, load: () => Promise<T>): Promise<T> {
+        const inflight = this.inflightLoads.get(key);
+        if (inflight) {
+            return inflight as Promise<T>;
+        }
+
+        const promise = load().finally(() => {
+            this.inflightLoads.delete(key);
+        });
+        this.inflightLoads.set(key, promise);
+        return promise;
+    }
+
+    /**
+     * 取得跨實例載入鎖後載入並寫回快取
+     * 
+     * 未取得鎖時：背景刷新直接放棄；一般載入則等待持鎖實例寫入快取，逾時後自行載入
+     * 
+     * @param key 快取鍵值
+     * @param loader 從資料來源載入的函式
+     * @param options 快取選項
+     * @param background 是否為背景提前刷新
+     * @returns 載入的值
+     * @private
+     */
+    private async loadWithLock<T>(
+        key: string,
+        loader: () => Promise<T | null | undefined>,
+        options: CacheLoadOptions,
+        background: boolean
+    ): Promise<T | null> {
+        const lockKey = `${key}:lock`;
+        const lockTtlMs = options.lockTtlMs ?? 5000;
+        const token = randomUUID();
+
+        // null 表示 Redis 不可用，直接載入
+        const acquired = await this.safeRedisOperation<boolean | null>(
+            async (redis) => (await redis.set(lockKey, token, { NX: true, PX: lockTtlMs })) === 'OK',
+            `acquireLoadLock(${key})`,
+            null
+        );
+
+        if (acquired === false) {
+            if (background) {
+                return null;
+            }
+
+            const cached = await this.waitForCache<T>(key, options.lockWaitMs ?? lockTtlMs);
+            if (cached) {
+                this.rememberLocally(key, cached);
+                return cached.v;
+            }
+            this.logger.warn(`${this.serviceName}: timed out waiting for ${key} to be loaded, loading directly`);
+        }
+
+        try {
+            return await this.loadAndStore(key, loader, options);
+        } finally {
+            if (acquired) {
+                await this.safeRedisWrite(async (redis) => {
+                    await redis.eval(RELEASE_LOCK_SCRIPT, { keys: [lockKey], arguments: [token] });
+                }, `releaseLoadLock(${key})`);
+            }
+        }
+    }
+
+    /**
+     * 呼叫 loader 並將結果寫入快取
+     * 
+     * @param key 快取鍵值
+     * @param loader 從資料來源載入的函式
+     * @param options 快取選項
+     * @returns 載入的值
+     * @private
+     */
+    private async loadAndStore<T>(
+        key: string,
+        loader: () => Promise<T | null | undefined>,
+        options: CacheLoadOptions
+    ): Promise<T | null> {
+        const startTime = Date.now();
+        const value = (await loader()) ?? null;
+        const duration = Date.now() - startTime;
+
+        const ttl = value === null ? (options.negativeTtl ?? 60) : (options.ttl ?? this.defaultTTL);
+        if (ttl > 0) {
+            const envelope: CacheEnvelope<T> = { v: value, d: duration, e: Date.now() + ttl * 1000 };
+            if (await this.writeEnvelope(key, envelope, ttl, options.tags ?? [], 'cacheStore')) {
+                this.rememberLocally(key, envelope);
+            }
+        }
+
+        return value;
+    }
+
+    /**
+     * 寫入快取內容；有標籤時以 Lua 腳本同時登記標籤，確保兩者一致
+     * 
+     * 注意：Cluster 模式下快取鍵值與標籤集合需位於同一個 hash slot（例如使用 {hash tag}）
+     * 
+     * @param key 快取鍵值
+     * @param envelope 快取內容
+     * @param ttl 快取 TTL（秒）
+     * @param tags 快取標籤
+     * @param operationName 操作名稱，用於日誌
+     * @returns 寫入是否成功
+     * @private
+     */
+    private writeEnvelope<T>(
+        key: string,
+        envelope: CacheEnvelope<T>,
+        ttl: number,
+        tags: string[],
+        operationName: string
+    ): Promise<boolean> {
+        const payload = JSON.stringify(envelope);
+
+        return this.safeRedisWrite(async (redis) => {
+            if (tags.length === 0) {
+                await redis.setEx(key, ttl, payload);
+                return;
+            }
+
+            await redis.eval(SET_WITH_TAGS_SCRIPT, {
+                keys: [key, ...tags.map((tag) => this.createTagKey(tag))],
+                arguments: [payload, String(ttl * 1000), String(Date.now())]
+            });
+        }, `${operationName}(${key})`, [key]);
+    }
+
+    /**
+     * 寫入快取（與 getOrLoad 相同的格式），並使各實例的本地快取失效
+     * 
+     * @param key 快取鍵值
+     * @param value 要快取的值
+     * @param ttl 快取 TTL（秒），預設使用 defaultTTL
+     * @param tags 快取標籤，可透過 invalidateTags 一次清除
+     * @returns 寫入是否成功
+     * @protected
+     */
+    protected async setCache<T>(key: string, value: T, ttl: number = this.defaultTTL, tags: string[] = []): Promise<boolean> {
+        const envelope: CacheEnvelope<T> = { v: value, d: 0, e: Date.now() + ttl * 1000 };
+        const stored = await this.writeEnvelope(key, envelope, ttl, tags, 'setCache');
+
+        if (stored) {
+            this.rememberLocally(key, envelope);
+        }
+        return stored;
+    }
+
+    /**
+     * 刪除快取，並使各實例的本地快取失效
+     * 
+     * @param keys 快取鍵值
+     * @returns 刪除是否成功
+     * @protected
+     */
+    protected async deleteCache(...keys: string[]): Promise<boolean> {
+        if (keys.length === 0) {
+            return true;
+        }
+
+        return this.safeRedisWrite(async (redis) => {
+            await redis.del(keys);
+        }, `deleteCache(${keys.join(', ')})`, keys);
+    }
+
+    /**
+     * 清除帶有指定標籤的所有快取，並使各實例的本地快取失效
+     * 
+     * @param tags 快取標籤，例如 drone:42、user:7
+     * @returns 刪除的快取數量
+     * @protected
+     */
+    protected async invalidateTags(...tags: string[]): Promise<number> {
+        if (tags.length === 0) {
+            return 0;
+        }
+
+        const deletedKeys = await this.safeRedisOperation(
+            async (redis) => (await redis.eval(INVALIDATE_TAGS_SCRIPT, {
+                keys: tags.map((tag) => this.createTagKey(tag)),
+                arguments: [String(Date.now())]
+            })) as string[],
+            `invalidateTags(${tags.join(', ')})`,
+            null
+        );
+
+        if (deletedKeys === null) {
+            return 0;
+        }
+
+        if (deletedKeys.length > 0) {
+            deletedKeys.forEach((key) => this.localCache?.delete(key));
+            await this.publishInvalidation({ keys: deletedKeys });
+        }
+        return deletedKeys.length;
+    }
+
+    /**
+     * 建立標籤集合鍵值
+     * 
+     * @param tag 快取標籤
+     * @returns 標籤集合鍵值
+     * @protected
+     */
+    protected createTagKey(tag: string): string {
+        return `${TAG_KEY_PREFIX}${tag}`;
+    }
+
+    /**
+     * 將快取內容存入本地快取，存活時間不超過 Redis 中的剩餘時間
+     * 
+     * @param key 快取鍵值
+     * @param envelope 快取內容
+     * @private
+     */
+    private rememberLocally(key: string, envelope: CacheEnvelope<unknown>): void {
+        this.localCache?.set(key, envelope.v, envelope.e - Date.now());
+    }
+
+    /**
+     * 發布快取失效訊息
+     * 
+     * 先使本程序內共用同一匯流排的服務失效，再透過 Redis 通知其他實例
+     * 
+     * @param message 失效訊息
+     * @private
+     */
+    private async publishInvalidation(message: CacheInvalidationMessage): Promise<void> {
+        const bus = this.invalidationBus;
+        if (!bus) {
+            return;
+        }
+
+        bus.notifyLocal(message);
+        await this.safeRedisWrite(
+            (redis) => bus.publish(redis, message),
+            `publishInvalidation(${bus.channel})`
+        );
+    }
+
+    /**
+     * 套用收到的失效訊息到本地快取
+     * 
+     * @param message 失效訊息
+     * @private
+     */
+    private applyInvalidation(message: CacheInvalidationMessage): void {
+        if (!this.localCache) {
+            return;
+        }
+
+        if (message.all) {
+            this.localCache.clear();
+            return;
+        }
+        message.keys?.forEach((key) => this.localCache?.delete(key));
+        if (message.pattern) {
+            this.localCache.deleteMatching(message.pattern);
+        }
+    }
+
+    /**
+     * 取得 getOrLoad 的各層快取命中統計
+     * 
+     * @returns 快取命中統計
+     * @public
+     */
+    public getCacheStats(): CacheStats {
+        return {
+            local: this.localCache ? { ...this.cacheStats.local } : null,
+            redis: { ...this.cacheStats.redis }
+        };
+    }
+
+    /**
+     * 等待其他實例將值寫入快取
+     * 
+     * @param key 快取鍵值
+     * @param timeoutMs 最長等待時間（毫秒）
+     * @returns 快取內容，逾時則為 null
+     * @private
+     */
+    private async waitForCache<T>(key: string, timeoutMs: number): Promise<CacheEnvelope<T> | null> {
+        const deadline = Date.now() + timeoutMs;
+
+        while (Date.now() < deadline) {
+            await new Promise((resolve) => setTimeout(resolve, CACHE_WAIT_POLL_MS));
+            const cached = await this.readCacheEnvelope<T>(key);
+            if (cached) {
+                return cached;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * 讀取並解析快取內容
+     * 
+     * @param key 快取鍵值
+     * @returns 快取內容，未命中、格式不符或 Redis 不可用時為 null
+     * @private
+     */
+    private async readCacheEnvelope<T>(key: string): Promise<CacheEnvelope<T> | null> {
+        const raw = await this.safeRedisOperation(
+            (redis) => redis.get(key),
+            `cacheRead(${key})`,
+            null
+        );
+        if (!raw) {
+            return null;
+        }
+
+        try {
+            const parsed = JSON.parse(raw);
+            if (parsed && typeof parsed === 'object' && 'v' in parsed && typeof parsed.e === 'number') {
+                return parsed as CacheEnvelope<T>;
+            }
+        } catch {
+            // 非 getOrLoad 寫入的值，視為未命中
+        }
+        return null;
+    }
+
+    /**
+     * 依 XFetch 演算法判斷是否提前刷新
+     * 
+     * 越接近過期、載入耗時越長，提前刷新的機率越高
+     * 
+     * @param envelope 快取內容
+     * @param beta 提前刷新係數
+     * @returns 是否應提前刷新
+     * @private
+     */
+    private shouldRefreshEarly(envelope: CacheEnvelope<unknown>, beta: number): boolean {
+        if (beta <= 0) {
+            return false;
+        }
+        return Date.now() - envelope.d * beta * Math.log(Math.random()) >= envelope.e;
+    }
+
+    /**
+     * 在持有分散式鎖的情況下執行函式
+     * 
+     * 使用與本服務相同的具名連線，行為詳見 RedisLock.withLock
+     * 
+     * @param name 鎖名稱
+     * @param fn 要執行的函式
+     * @param options 鎖選項
+     * @returns 函式的回傳值
+     * @protected
+     */
+    protected withLock<T>(
+        name: string,
+        fn: (lock: RedisLockHandle | null) => Promise<T>,
+        options: RedisLockOptions = {}
+    ): Promise<T> {
+        if (!this.redisLock) {
+            this.redisLock = new RedisLock({ connectionName: this.connectionName });
+        }
+        return this.redisLock.withLock(name, fn, options);
+    }
+
     /**
      * 建立快取鍵值
      * 
@@ -244,12 +919,15 @@ export abstract class BaseRedisService {
      * 
      * 根據模式刪除多個快取鍵值
      * 
+     * @deprecated KEYS 會掃描整個鍵值空間並阻塞 Redis，請改用帶標籤寫入（setCache / getOrLoad 的 tags）搭配 invalidateTags
      * @param pattern 快取鍵值模式（支援萬用字元）
      * @returns 刪除的鍵值數量
      * @protected
      */
     protected async clearCacheByPattern(pattern: string): Promise<number> {
-        return this.safeRedisOperation(
+        this.localCache?.deleteMatching(pattern);
+
+        const deleted = await this.safeRedisOperation(
             async (redis) => {
                 const keys = await redis.keys(pattern);
                 if (keys.length > 0) {
@@ -260,6 +938,9 @@ export abstract class BaseRedisService {
             `clearCacheByPattern(${pattern})`,
             0
         );
+
+        await this.publishInvalidation({ pattern });
+        return deleted;
     }
 
     /**
@@ -273,6 +954,9 @@ export abstract class BaseRedisService {
     public async reconnectRedis(): Promise<boolean> {
         try {
             this.initializeRedisConnection();
+            if (this.isRedisAvailable) {
+                this.circuitBreaker.reset();
+            }
             return this.isRedisAvailable;
         } catch (error) {
             this.logger.error(`${this.serviceName}: Redis reconnection failed:`, error);
@@ -280,6 +964,20 @@ export abstract class BaseRedisService {
         }
     }
 
+    /**
+     * 停止監聽連線狀態
+     * 
+     * 服務實例不再使用時呼叫，避免連線管理器持有其參考
+     * 
+     * @public
+     */
+    public dispose(): void {
+        this.unwatchConnection?.();
+        this.unwatchConnection = null;
+        this.unsubscribeInvalidation?.();
+        this.unsubscribeInvalidation = null;
+    }
+
     /**
      * 取得服務狀態資訊
      * 
@@ -290,6 +988,9 @@ export abstract class BaseRedisService {
         return {
             serviceName: this.serviceName,
             redisAvailable: this.isRedisAvailable,
+            connectionName: this.connectionName,
+            circuitState: this.circuitBreaker.getState(),
+            cacheStats: this.getCacheStats(),
             defaultTTL: this.defaultTTL,
             debugEnabled: this.enableDebugLogs
         };
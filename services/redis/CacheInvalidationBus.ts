@@ -0,0 +1,180 @@
+/**
+ * @fileoverview 快取失效通知匯流排
+ *
+ * 透過 Redis pub/sub 在各服務實例間廣播快取失效訊息，
+ * 讓每個實例移除本地 LRU 快取中的舊資料。
+ * 同一個具名連線與頻道只會建立一條訂閱連線，由所有服務共用。
+ *
+ * 連線中斷期間可能漏收訊息，因此連線中斷與恢復時都會通知訂閱者清空本地快取。
+ *
+ * @module CacheInvalidationBus
+ * @author AIOT Team
+ * @since 1.1.0
+ * @version 1.0.0
+ */
+
+import { randomUUID } from 'crypto';
+import type { RedisClientType } from 'redis';
+import { redisConnectionManager } from './RedisConnectionManager.js';
+
+/**
+ * 快取失效訊息
+ */
+export interface CacheInvalidationMessage {
+  /** 發送訊息的實例識別碼 */
+  source?: string;
+  /** 失效的快取鍵值 */
+  keys?: string[];
+  /** 失效的快取鍵值模式（Redis glob） */
+  pattern?: string;
+  /** 是否清空所有本地快取 */
+  all?: boolean;
+}
+
+/**
+ * 快取失效通知匯流排
+ *
+ * @class CacheInvalidationBus
+ * @since 1.1.0
+ */
+export class CacheInvalidationBus {
+  /** 依「連線名稱 + 頻道」共用的匯流排 */
+  private static readonly buses: Map<string, CacheInvalidationBus> = new Map();
+
+  /** 本實例識別碼，用於忽略自己發出的訊息（本程序內由 notifyLocal 直接分派） */
+  private readonly instanceId = randomUUID();
+
+  /** 訊息訂閱者 */
+  private readonly listeners: Set<(message: CacheInvalidationMessage) => void> = new Set();
+
+  /** 訂閱用的 Redis 連線 */
+  private subscriber: RedisClientType | null = null;
+
+  /** 進行中的訂閱，避免重複建立連線 */
+  private subscribing: Promise<void> | null = null;
+
+  /**
+   * 私有建構函式，請使用 CacheInvalidationBus.get
+   *
+   * @param connectionName 具名連線
+   * @param channel Redis 頻道
+   */
+  private constructor(private readonly connectionName: string, public readonly channel: string) {
+    redisConnectionManager.watchConnection(connectionName, (event) => {
+      // 中斷期間可能漏收失效訊息，清空本地快取以避免讀到舊資料
+      this.dispatch({ all: true });
+      if (event.state === 'connected') {
+        this.ensureSubscribed();
+      }
+    });
+  }
+
+  /**
+   * 取得指定連線與頻道的匯流排
+   *
+   * @param connectionName 具名連線
+   * @param channel Redis 頻道
+   * @returns 共用的匯流排實例
+   */
+  public static get(connectionName: string, channel: string): CacheInvalidationBus {
+    const id = `${connectionName}\u0000${channel}`;
+    let bus = CacheInvalidationBus.buses.get(id);
+    if (!bus) {
+      bus = new CacheInvalidationBus(connectionName, channel);
+      CacheInvalidationBus.buses.set(id, bus);
+    }
+    return bus;
+  }
+
+  /**
+   * 訂閱失效訊息
+   *
+   * @param listener 訊息處理函式
+   * @returns 取消訂閱的函式
+   */
+  public subscribe(listener: (message: CacheInvalidationMessage) => void): () => void {
+    this.listeners.add(listener);
+    this.ensureSubscribed();
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 將失效訊息分派給本程序內的所有訂閱者
+   *
+   * @param message 失效訊息
+   */
+  public notifyLocal(message: CacheInvalidationMessage): void {
+    this.dispatch(message);
+  }
+
+  /**
+   * 發布失效訊息給其他實例
+   *
+   * @param redis Redis 客戶端
+   * @param message 失效訊息
+   * @returns {Promise<void>} 無返回值的 Promise
+   */
+  public async publish(redis: RedisClientType, message: CacheInvalidationMessage): Promise<void> {
+    await redis.publish(this.channel, JSON.stringify({ ...message, source: this.instanceId }));
+  }
+
+  /**
+   * 確保已建立訂閱連線
+   * Redis 尚未連線時略過，待連線狀態變為 connected 後再訂閱
+   */
+  private ensureSubscribed(): void {
+    if (this.subscriber || this.subscribing || !redisConnectionManager.isClientConnected(this.connectionName)) {
+      return;
+    }
+
+    this.subscribing = (async () => {
+      const subscriber = redisConnectionManager.getClient(this.connectionName).duplicate();
+      subscriber.on('error', (err) => {
+        console.error(`Cache invalidation subscriber error [${this.connectionName}]:`, err);
+      });
+
+      try {
+        await subscriber.connect();
+        // 訂閱連線會自動重連並重新訂閱
+        await subscriber.subscribe(this.channel, (raw) => this.handleMessage(raw));
+        this.subscriber = subscriber;
+      } catch (error) {
+        console.warn(`Failed to subscribe cache invalidation channel ${this.channel} [${this.connectionName}]:`, error);
+        if (subscriber.isOpen) {
+          await subscriber.quit().catch(() => undefined);
+        }
+      }
+    })().finally(() => {
+      this.subscribing = null;
+    });
+  }
+
+  /**
+   * 處理收到的訊息
+   *
+   * @param raw 原始訊息
+   */
+  private handleMessage(raw: string): void {
+    try {
+      const message = JSON.parse(raw) as CacheInvalidationMessage;
+      if (message.source !== this.instanceId) {
+        this.dispatch(message);
+      }
+    } catch (error) {
+      console.warn(`Ignoring malformed cache invalidation message on ${this.channel}:`, raw);
+    }
+  }
+
+  /**
+   * 將訊息分派給所有訂閱者
+   *
+   * @param message 失效訊息
+   */
+  private dispatch(message: CacheInvalidationMessage): void {
+    for (const listener of this.listeners) {
+      listener(message);
+    }
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * @fileoverview 程序內 LRU 快取
+ *
+ * 作為 Redis 前的第一層快取，以項目數量與存活時間限制記憶體用量。
+ * 利用 Map 保留插入順序的特性，每次讀取時將項目移到最後，
+ * 超過容量時從最前面（最久未使用）開始淘汰。
+ *
+ * @module LocalLruCache
+ * @author AIOT Team
+ * @since 1.1.0
+ * @version 1.0.0
+ */
+
+/**
+ * 本地快取選項
+ */
+export interface LocalCacheOptions {
+  /** 最多保留的項目數，預設 1000 */
+  maxEntries?: number;
+  /** 項目存活時間（毫秒），預設 5000 */
+  ttlMs?: number;
+  /** 失效通知使用的 Redis 頻道，預設 cache:invalidate */
+  channel?: string;
+}
+
+/**
+ * 快取項目
+ */
+interface LocalCacheEntry<V> {
+  value: V;
+  expiresAt: number;
+}
+
+/**
+ * 程序內 LRU 快取
+ *
+ * @class LocalLruCache
+ * @since 1.1.0
+ */
+export class LocalLruCache<V = unknown> {
+  /** 快取項目，依最近使用順序排列 */
+  private readonly entries: Map<string, LocalCacheEntry<V>> = new Map();
+
+  /** 最多保留的項目數 */
+  private readonly maxEntries: number;
+
+  /** 預設存活時間（毫秒） */
+  private readonly ttlMs: number;
+
+  /**
+   * 建構函式
+   *
+   * @param options 本地快取選項
+   */
+  constructor(options: LocalCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+    this.ttlMs = options.ttlMs ?? 5000;
+  }
+
+  /**
+   * 讀取項目，過期項目視為不存在
+   *
+   * @param key 快取鍵值
+   * @returns 項目是否存在與其值
+   */
+  public get(key: string): { found: boolean; value?: V } {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return { found: false };
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return { found: false };
+    }
+
+    // 移到最後，標記為最近使用
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return { found: true, value: entry.value };
+  }
+
+  /**
+   * 寫入項目，超過容量時淘汰最久未使用的項目
+   *
+   * @param key 快取鍵值
+   * @param value 值
+   * @param ttlMs 存活時間（毫秒），不可超過預設存活時間
+   */
+  public set(key: string, value: V, ttlMs?: number): void {
+    const ttl = Math.min(ttlMs ?? this.ttlMs, this.ttlMs);
+    if (ttl <= 0) {
+      return;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttl });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * 刪除項目
+   *
+   * @param key 快取鍵值
+   */
+  public delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  /**
+   * 刪除符合 Redis glob 模式的項目
+   *
+   * @param pattern 快取鍵值模式（支援 *、?、[]、[^]）
+   * @returns 刪除的項目數
+   */
+  public deleteMatching(pattern: string): number {
+    const regex = globToRegExp(pattern);
+    let deleted = 0;
+
+    for (const key of Array.from(this.entries.keys())) {
+      if (regex.test(key)) {
+        this.entries.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  /**
+   * 清空所有項目
+   */
+  public clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * 目前項目數（包含尚未清除的過期項目）
+   */
+  public get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * 將 Redis glob 模式轉為正規表示式
+ * 字元集合的排除寫法與 Redis 相同為 [^...]，正規表示式語法一致因此直接沿用；
+ * Redis 不支援 [!...]，此處也不轉換
+ *
+ * @param pattern Redis glob 模式
+ * @returns 對應的正規表示式
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+    } else if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        const set = pattern.slice(i + 1, end).replace(/\\/g, '\\\\');
+        source += `[${set}]`;
+        i = end;
+      }
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${source}$`, 's');
+}
+
+/**
+ * 跳脫正規表示式特殊字元
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -1,43 +1,173 @@
 /**
  * @fileoverview Redis 連線管理服務
- * 
+ *
  * 提供統一的 Redis 連線初始化邏輯，供所有微服務使用。
- * 實現單例模式，確保整個應用程式只有一個 Redis 連接實例。
- * 
+ * 實現單例模式的連線註冊表，以名稱管理多個 Redis 連線（不同主機或資料庫），
+ * `configs/RedisConfig` 與 `BaseRedisService` 皆共用此註冊表中的客戶端。
+ *
  * 功能特點：
  * - 統一的 Redis 連線配置和管理
- * - 自動錯誤處理和重連機制
+ * - 具名連線，支援多個主機／資料庫
+ * - 支援單機、Sentinel（master 探索與故障轉移）與 Cluster 模式
+ * - 明確配置選項優先，其次為環境變數
+ * - 自動錯誤處理和重連機制（可配置的指數退避加隨機抖動）
+ * - 連線狀態事件，供服務在 Redis 中斷／恢復時自動切換
  * - 標準化的日誌記錄
- * - 環境變數配置支援
- * 
+ *
  * @module RedisConnectionManager
  * @author AIOT Team
  * @since 1.0.0
- * @version 1.0.0
+ * @version 1.4.0
  */
 
-import { createClient } from 'redis';
-import type { RedisClientType } from 'redis';
+import { EventEmitter } from 'events';
+import { createClient, createCluster } from 'redis';
+import type { RedisClientType, RedisClusterType } from 'redis';
+import { RedisSentinelConnector, RedisNodeAddress } from './RedisSentinelConnector.js';
+
+/** 預設連線名稱 */
+export const DEFAULT_REDIS_CONNECTION = 'default';
+
+/**
+ * Redis 連線模式
+ * - standalone：單一節點
+ * - sentinel：透過 Sentinel 探索 master，故障轉移後自動切換
+ * - cluster：Redis Cluster，依 slot 路由指令；客戶端 API 與單機不同，需以 getClusterClient() 取得，
+ *   BaseRedisService 等依賴單機客戶端（duplicate、KEYS、多鍵指令）的服務不支援此模式
+ */
+export type RedisConnectionMode = 'standalone' | 'sentinel' | 'cluster';
+
+/**
+ * 重連策略選項
+ * 第 n 次重試等待 min(initialDelayMs * multiplier^n, maxDelayMs)，再依 jitter 隨機縮減
+ */
+export interface RedisReconnectOptions {
+  /** 第一次重試前的等待時間（毫秒），預設 100 */
+  initialDelayMs?: number;
+  /** 重試等待時間上限（毫秒），預設 30000 */
+  maxDelayMs?: number;
+  /** 每次重試等待時間的倍數，預設 2 */
+  multiplier?: number;
+  /** 隨機抖動比例（0-1），預設 0.5，即實際等待時間介於 50%-100% */
+  jitter?: number;
+  /** 最多重試次數，超過後放棄並關閉客戶端，預設不限 */
+  maxRetries?: number;
+}
+
+/** Redis 連線狀態 */
+export type RedisConnectionState = 'connected' | 'disconnected';
+
+/**
+ * 連線狀態變更事件，由 redisConnectionManager 以 'stateChange' 事件發出
+ */
+export interface RedisConnectionStateEvent {
+  /** 連線名稱 */
+  name: string;
+  /** 新的連線狀態 */
+  state: RedisConnectionState;
+  /** 造成斷線的錯誤 */
+  error?: unknown;
+}
+
+/**
+ * Redis 連線配置選項
+ * 未指定的欄位會從環境變數讀取
+ */
+export interface RedisConnectionConfig {
+  /** 主機位址，預設讀取 REDIS_HOST */
+  host?: string;
+  /** 埠號，預設讀取 REDIS_PORT */
+  port?: number;
+  /** 使用者名稱（ACL），預設讀取 REDIS_USERNAME */
+  username?: string;
+  /** 密碼，預設讀取 REDIS_PASSWORD */
+  password?: string;
+  /** 資料庫編號，預設讀取 REDIS_DB（Cluster 模式僅支援 0） */
+  database?: number;
+  /** 連線模式，預設讀取 REDIS_MODE，未設定時為 standalone */
+  mode?: RedisConnectionMode;
+  /** Sentinel 節點，預設讀取 REDIS_SENTINELS（格式 host1:26379,host2:26379） */
+  sentinels?: RedisNodeAddress[];
+  /** Sentinel 監控的 master 名稱，預設讀取 REDIS_SENTINEL_NAME，未設定時為 mymaster */
+  sentinelName?: string;
+  /** Sentinel 密碼，預設讀取 REDIS_SENTINEL_PASSWORD */
+  sentinelPassword?: string;
+  /** Cluster 起始節點，預設讀取 REDIS_CLUSTER_NODES（格式 host1:6379,host2:6379） */
+  clusterNodes?: RedisNodeAddress[];
+  /** 重連策略 */
+  reconnect?: RedisReconnectOptions;
+}
+
+/**
+ * 註冊表中的單一連線
+ */
+interface ManagedConnection {
+  /** 連線配置 */
+  config: RedisConnectionConfig;
+  /** Redis 客戶端實例，尚未連線或 Cluster 模式時為 null；Sentinel 模式下為跟隨 master 的代理 */
+  client: RedisClientType | null;
+  /** Cluster 客戶端實例，僅 Cluster 模式使用 */
+  cluster: RedisClusterType | null;
+  /** Cluster 斷線後確認恢復的 PING，同一時間只有一個 */
+  clusterProbe: Promise<void> | null;
+  /** Sentinel 連線器，僅 Sentinel 模式使用 */
+  sentinel: RedisSentinelConnector | null;
+  /** 連接狀態標記 */
+  isConnected: boolean;
+  /** 進行中的連線 Promise，避免重複連線 */
+  connecting: Promise<void> | null;
+}
 
 /**
  * Redis 連線管理器
- * 
+ *
  * 提供統一的 Redis 連線管理和客戶端實例的單例模式實現
  * 用於會話管理、快取資料和臨時資料存儲
- * 
+ * 連線狀態改變時發出 'stateChange' 事件（RedisConnectionStateEvent）
+ *
  * @class RedisConnectionManager
  * @since 1.0.0
+ *
+ * @example
+ * ```typescript
+ * // 預設連線（讀取 REDIS_HOST / REDIS_PORT / REDIS_DB）
+ * await redisConnectionManager.connect();
+ *
+ * // 具名連線：明確配置優先，其餘讀取 REDIS_TELEMETRY_* 再退回 REDIS_*
+ * redisConnectionManager.configure('telemetry', { database: 2 });
+ * await redisConnectionManager.connect('telemetry');
+ * const telemetryRedis = redisConnectionManager.getClient('telemetry');
+ *
+ * // Sentinel 模式：故障轉移後 getClient() 取得的客戶端仍可繼續使用
+ * await redisConnectionManager.connect('session', {
+ *   mode: 'sentinel',
+ *   sentinels: [{ host: 'sentinel-1', port: 26379 }, { host: 'sentinel-2', port: 26379 }],
+ *   sentinelName: 'mymaster'
+ * });
+ *
+ * // Cluster 模式：指令依 slot 路由，需使用 getClusterClient()
+ * await redisConnectionManager.connect('telemetry', { mode: 'cluster', clusterNodes: [{ host: 'redis-1', port: 6379 }] });
+ * const cluster = redisConnectionManager.getClusterClient('telemetry');
+ *
+ * // 監聽連線狀態
+ * const unwatch = redisConnectionManager.watchConnection('default', (event) => {
+ *   console.log(`Redis ${event.name} is ${event.state}`);
+ * });
+ * ```
  */
-class RedisConnectionManager {
+class RedisConnectionManager extends EventEmitter {
   /** 單例實例靜態屬性 */
   private static instance: RedisConnectionManager;
-  /** Redis 客戶端實例，初始為 null */
-  private client: RedisClientType | null = null;
-  /** 連接狀態標記，初始為 false */
-  private isConnected: boolean = false;
+
+  /** 具名連線註冊表 */
+  private connections: Map<string, ManagedConnection> = new Map();
 
   /** 私有建構函式，防止外部直接實例化 */
-  private constructor() {}
+  private constructor() {
+    super();
+    // 每個繼承 BaseRedisService 的服務都會監聽狀態事件
+    this.setMaxListeners(0);
+  }
 
   /**
    * 取得 RedisConnectionManager 單例實例
@@ -54,143 +184,553 @@ class RedisConnectionManager {
     return RedisConnectionManager.instance;
   }
 
+  /**
+   * 設定具名連線的配置
+   * 需在 connect 之前呼叫；已連線時會在下次重新連線後生效
+   * @param {string} name 連線名稱
+   * @param {RedisConnectionConfig} config 連線配置
+   * @returns {RedisConnectionManager} 管理器本身，便於串接
+   */
+  public configure(name: string, config: RedisConnectionConfig): this {
+    // 取得或建立連線項目並合併配置
+    const connection = this.getConnection(name);
+    connection.config = { ...connection.config, ...config };
+    return this;
+  }
+
   /**
    * 建立 Redis 連線
-   * 使用環境變數配置連接參數，設定事件監聽器
+   * 使用明確配置或環境變數配置連接參數，設定事件監聽器
+   * @param {string} [name='default'] 連線名稱
+   * @param {RedisConnectionConfig} [config] 連線配置，會與已設定的配置合併
    * @returns {Promise<void>} 無返回值的 Promise
    */
-  public async connect(): Promise<void> {
+  public async connect(name: string = DEFAULT_REDIS_CONNECTION, config?: RedisConnectionConfig): Promise<void> {
+    if (config) {
+      this.configure(name, config);
+    }
+
+    const connection = this.getConnection(name);
+
+    // 檢查是否已經連接，如果已連接則直接返回
+    if (connection.isConnected && connection.client) {
+      return;
+    }
+
+    // 正在連線中則等待同一個 Promise
+    if (connection.connecting) {
+      return connection.connecting;
+    }
+
+    connection.connecting = this.createConnection(name, connection).finally(() => {
+      connection.connecting = null;
+    });
+    return connection.connecting;
+  }
+
+  /**
+   * 建立實際的 Redis 客戶端並連線
+   * @param {string} name 連線名稱
+   * @param {ManagedConnection} connection 連線項目
+   * @returns {Promise<void>} 無返回值的 Promise
+   */
+  private async createConnection(name: string, connection: ManagedConnection): Promise<void> {
     try {
-      // 檢查是否已經連接，如果已連接則直接返回
-      if (this.isConnected && this.client) {
-        return;
-      }
+      // 合併明確配置與環境變數
+      const resolved = resolveConnectionConfig(name, connection.config);
+
+      if (resolved.mode === 'sentinel') {
+        await this.createSentinelConnection(name, connection, resolved);
+      } else if (resolved.mode === 'cluster') {
+        await this.createClusterConnection(name, connection, resolved);
+      } else {
+        // 建立 Redis 客戶端實例，配置連接參數
+        const client: RedisClientType = createClient({
+          // 設定 Socket 連接配置
+          socket: {
+            host: resolved.host,
+            port: resolved.port,
+            reconnectStrategy: createReconnectStrategy(resolved.reconnect),
+          },
+          username: resolved.username,
+          password: resolved.password,
+          database: resolved.database,
+        });
 
-      // 建立 Redis 客戶端實例，配置連接參數
-      this.client = createClient({
-        // 設定 Socket 連接配置
-        socket: {
-          // 從環境變數獲取主機位址，docker 環境下使用容器名稱
-          host: process.env.REDIS_HOST || 'aiot-redis',
-          // 從環境變數獲取埠號並轉換為整數，預設為 6379
-          port: parseInt(process.env.REDIS_PORT || '6379'),
-        },
-        // 從環境變數獲取密碼，如果沒有則為 undefined
-        password: process.env.REDIS_PASSWORD || undefined,
-        // 從環境變數獲取資料庫編號並轉換為整數，預設為 0
-        database: parseInt(process.env.REDIS_DB || '0'),
-      });
-
-      // 設置錯誤事件監聽器
-      this.client.on('error', (err) => {
-        // 記錄錯誤訊息到控制台
-        console.error('Redis Client Error:', err);
-        // 設定連接狀態為 false
-        this.isConnected = false;
-      });
-
-      // 設置連接成功事件監聽器
-      this.client.on('connect', () => {
-        // 記錄連接成功訊息
-        console.log('Redis Client Connected');
-        // 設定連接狀態為 true
-        this.isConnected = true;
-      });
-
-      // 設置準備就緒事件監聽器
-      this.client.on('ready', () => {
-        // 記錄準備就緒訊息
-        console.log('Redis Client Ready');
-      });
-
-      // 設置連接結束事件監聽器
-      this.client.on('end', () => {
-        // 記錄連接結束訊息
-        console.log('Redis Client Connection Ended');
-        // 設定連接狀態為 false
-        this.isConnected = false;
-      });
-
-      // 實際建立連接到 Redis 伺服器
-      await this.client.connect();
+        this.attachClientListeners(name, connection, client);
+        connection.client = client;
+
+        // 實際建立連接到 Redis 伺服器
+        await client.connect();
+      }
     } catch (error) {
       // 記錄連接失敗錯誤
-      console.error('Failed to connect to Redis:', error);
+      console.error(`Failed to connect to Redis [${name}]:`, error);
       // 重新拋出錯誤給調用者
       throw error;
     }
   }
 
+  /**
+   * 透過 Sentinel 建立連線
+   * 連線項目保存的是跟隨 master 的代理客戶端，故障轉移後既有參考仍然有效
+   * @param {string} name 連線名稱
+   * @param {ManagedConnection} connection 連線項目
+   * @param {ResolvedConnectionConfig} resolved 完整的連線配置
+   * @returns {Promise<void>} 無返回值的 Promise
+   */
+  private async createSentinelConnection(name: string, connection: ManagedConnection, resolved: ResolvedConnectionConfig): Promise<void> {
+    if (resolved.sentinels.length === 0) {
+      throw new Error(`Redis connection "${name}" is in sentinel mode but no sentinels are configured`);
+    }
+
+    const sentinel = new RedisSentinelConnector({
+      sentinels: resolved.sentinels,
+      masterName: resolved.sentinelName,
+      username: resolved.username,
+      password: resolved.password,
+      sentinelPassword: resolved.sentinelPassword,
+      database: resolved.database,
+      reconnectStrategy: createReconnectStrategy(resolved.reconnect),
+      // 每個新的 master 客戶端都掛上監聽器，已退役的客戶端事件不影響連線狀態
+      onClient: (client) => this.attachClientListeners(name, connection, client, (c) => sentinel.isCurrent(c)),
+    });
+
+    connection.sentinel = sentinel;
+    connection.client = sentinel.getClient();
+
+    try {
+      await sentinel.connect();
+      this.setConnectionState(name, connection, true);
+    } catch (error) {
+      connection.sentinel = null;
+      connection.client = null;
+      await sentinel.disconnect();
+      throw error;
+    }
+  }
+
+  /**
+   * 建立 Redis Cluster 連線
+   * Cluster 客戶端自行處理節點重連與 slot 重新探索，但只轉發節點的錯誤事件，不會發出斷線或恢復事件；
+   * 因此收到錯誤時視為斷線，並以 PING 確認恢復後再發出 connected
+   * @param {string} name 連線名稱
+   * @param {ManagedConnection} connection 連線項目
+   * @param {ResolvedConnectionConfig} resolved 完整的連線配置
+   * @returns {Promise<void>} 無返回值的 Promise
+   */
+  private async createClusterConnection(name: string, connection: ManagedConnection, resolved: ResolvedConnectionConfig): Promise<void> {
+    const nodes = resolved.clusterNodes.length > 0
+      ? resolved.clusterNodes
+      : [{ host: resolved.host, port: resolved.port }];
+
+    const cluster: RedisClusterType = createCluster({
+      rootNodes: nodes.map((node) => ({ socket: { host: node.host, port: node.port } })),
+      defaults: {
+        username: resolved.username,
+        password: resolved.password,
+        socket: { reconnectStrategy: createReconnectStrategy(resolved.reconnect) },
+      },
+    });
+
+    // 設置錯誤事件監聽器，個別節點由 Cluster 客戶端自行重連
+    cluster.on('error', (err) => {
+      console.error(`Redis Cluster Error [${name}]:`, err);
+      if (connection.cluster === cluster) {
+        this.setConnectionState(name, connection, false, err);
+        this.probeCluster(name, connection, cluster, resolved.reconnect);
+      }
+    });
+
+    await cluster.connect();
+
+    connection.cluster = cluster;
+    this.setConnectionState(name, connection, true);
+    console.log(`Redis Cluster Connected [${name}] (${nodes.length} root nodes)`);
+  }
+
+  /**
+   * 以 PING 確認 Cluster 是否恢復，成功後將連線狀態設為 connected
+   * 節點重連期間 PING 會在佇列中等待；失敗時依重連策略退避後再試，超過重試上限則停止
+   * @param {string} name 連線名稱
+   * @param {ManagedConnection} connection 連線項目
+   * @param {RedisClusterType} cluster Cluster 客戶端
+   * @param {RedisReconnectOptions} [reconnect] 重連策略選項
+   */
+  private probeCluster(name: string, connection: ManagedConnection, cluster: RedisClusterType, reconnect?: RedisReconnectOptions): void {
+    if (connection.clusterProbe) {
+      return;
+    }
+
+    const strategy = createReconnectStrategy(reconnect);
+    connection.clusterProbe = (async () => {
+      for (let retries = 0; connection.cluster === cluster; retries++) {
+        try {
+          await cluster.sendCommand(undefined, true, ['PING']);
+          if (connection.cluster === cluster) {
+            this.setConnectionState(name, connection, true);
+            console.log(`Redis Cluster Recovered [${name}]`);
+          }
+          return;
+        } catch (error) {
+          const delay = strategy(retries, error instanceof Error ? error : new Error(String(error)));
+          if (delay instanceof Error) {
+            console.error(`Redis Cluster Error [${name}]:`, delay);
+            return;
+          }
+          await new Promise((resolve) => setTimeout(resolve, delay).unref());
+        }
+      }
+    })().finally(() => {
+      connection.clusterProbe = null;
+    });
+  }
+
+  /**
+   * 設置客戶端事件監聽器，同步連線狀態並記錄日誌
+   * @param {string} name 連線名稱
+   * @param {ManagedConnection} connection 連線項目
+   * @param {RedisClientType} client Redis 客戶端
+   * @param {Function} [isCurrent] 判斷客戶端是否仍在使用中，不在使用中的客戶端不更新錯誤與結束狀態
+   */
+  private attachClientListeners(
+    name: string,
+    connection: ManagedConnection,
+    client: RedisClientType,
+    isCurrent: (client: RedisClientType) => boolean = () => true
+  ): void {
+    // 設置錯誤事件監聽器
+    client.on('error', (err) => {
+      // 記錄錯誤訊息到控制台
+      console.error(`Redis Client Error [${name}]:`, err);
+      // 設定連接狀態為 false
+      if (isCurrent(client)) {
+        this.setConnectionState(name, connection, false, err);
+      }
+    });
+
+    // 設置連接成功事件監聽器
+    client.on('connect', () => {
+      // 記錄連接成功訊息
+      console.log(`Redis Client Connected [${name}]`);
+    });
+
+    // 設置準備就緒事件監聽器，完成認證與選擇資料庫後才視為可用
+    client.on('ready', () => {
+      // 記錄準備就緒訊息
+      console.log(`Redis Client Ready [${name}]`);
+      // 設定連接狀態為 true
+      this.setConnectionState(name, connection, true);
+    });
+
+    // 設置重新連線事件監聽器
+    client.on('reconnecting', () => {
+      console.log(`Redis Client Reconnecting [${name}]`);
+    });
+
+    // 設置連接結束事件監聽器
+    client.on('end', () => {
+      // 記錄連接結束訊息
+      console.log(`Redis Client Connection Ended [${name}]`);
+      // 設定連接狀態為 false
+      if (isCurrent(client)) {
+        this.setConnectionState(name, connection, false);
+      }
+    });
+  }
+
+  /**
+   * 更新連線狀態，狀態改變時發出 'stateChange' 事件
+   * @param {string} name 連線名稱
+   * @param {ManagedConnection} connection 連線項目
+   * @param {boolean} isConnected 是否已連線
+   * @param {unknown} [error] 造成斷線的錯誤
+   */
+  private setConnectionState(name: string, connection: ManagedConnection, isConnected: boolean, error?: unknown): void {
+    if (connection.isConnected === isConnected) {
+      return;
+    }
+
+    connection.isConnected = isConnected;
+    const event: RedisConnectionStateEvent = {
+      name,
+      state: isConnected ? 'connected' : 'disconnected',
+      ...(error !== undefined ? { error } : {}),
+    };
+    this.emit('stateChange', event);
+  }
+
+  /**
+   * 監聽指定連線的狀態變更
+   * @param {string} name 連線名稱
+   * @param {Function} listener 狀態變更回呼
+   * @returns {Function} 取消監聽的函式
+   */
+  public watchConnection(name: string, listener: (event: RedisConnectionStateEvent) => void): () => void {
+    const handler = (event: RedisConnectionStateEvent) => {
+      if (event.name === name) {
+        listener(event);
+      }
+    };
+    this.on('stateChange', handler);
+    return () => {
+      this.off('stateChange', handler);
+    };
+  }
+
   /**
    * 取得 Redis 客戶端實例
    * 檢查連接狀態後返回客戶端實例
+   * @param {string} [name='default'] 連線名稱
    * @returns {RedisClientType} Redis 客戶端實例
-   * @throws {Error} 當客戶端未連接時拋出錯誤
+   * @throws {Error} 當客戶端未連接，或連線為 Cluster 模式時拋出錯誤
    */
-  public getClient(): RedisClientType {
+  public getClient(name: string = DEFAULT_REDIS_CONNECTION): RedisClientType {
+    const connection = this.connections.get(name);
+
+    // Cluster 客戶端的 API 與單機客戶端不相容（沒有 duplicate、SELECT，sendCommand 簽章不同）
+    if (connection && connection.cluster) {
+      throw new Error(`Redis connection "${name}" is in cluster mode. Please use getClusterClient() instead.`);
+    }
+
     // 檢查客戶端是否存在且已連接
-    if (!this.client || !this.isConnected) {
+    if (!connection || !connection.client || !connection.isConnected) {
       // 如果未連接，拋出錯誤提示需要先連接
-      throw new Error('Redis client is not connected. Please call connect() first.');
+      throw new Error(`Redis client "${name}" is not connected. Please call connect() first.`);
     }
+
     // 返回客戶端實例
-    return this.client;
+    return connection.client;
+  }
+
+  /**
+   * 取得 Redis Cluster 客戶端實例
+   * @param {string} [name='default'] 連線名稱
+   * @returns {RedisClusterType} Cluster 客戶端實例
+   * @throws {Error} 當連線不是已連接的 Cluster 連線時拋出錯誤
+   */
+  public getClusterClient(name: string = DEFAULT_REDIS_CONNECTION): RedisClusterType {
+    const connection = this.connections.get(name);
+
+    if (!connection || !connection.cluster || !connection.isConnected) {
+      throw new Error(`Redis cluster "${name}" is not connected. Please call connect() with mode 'cluster' first.`);
+    }
+
+    return connection.cluster;
   }
 
   /**
    * 斷開 Redis 連線
    * 優雅地關閉連接並清理資源
+   * @param {string} [name='default'] 連線名稱
    * @returns {Promise<void>} 無返回值的 Promise
    */
-  public async disconnect(): Promise<void> {
+  public async disconnect(name: string = DEFAULT_REDIS_CONNECTION): Promise<void> {
+    const connection = this.connections.get(name);
+
     // 檢查客戶端是否存在且已連接
-    if (this.client && this.isConnected) {
+    if (connection && connection.sentinel) {
+      // Sentinel 模式需同時關閉 master 與 Sentinel 訂閱連線
+      const sentinel = connection.sentinel;
+      connection.sentinel = null;
+      connection.client = null;
+      this.setConnectionState(name, connection, false);
+      await sentinel.disconnect();
+      console.log(`Redis Client Disconnected [${name}]`);
+    } else if (connection && connection.cluster) {
+      // 先清除參考，讓關閉過程中的錯誤事件與恢復檢查不再更新狀態
+      const cluster = connection.cluster;
+      connection.cluster = null;
+      this.setConnectionState(name, connection, false);
+      await cluster.quit().catch(() => cluster.disconnect().catch(() => undefined));
+      console.log(`Redis Cluster Disconnected [${name}]`);
+    } else if (connection && connection.client && connection.isConnected) {
       // 優雅地關閉連接
-      await this.client.quit();
+      await connection.client.quit();
       // 清空客戶端實例
-      this.client = null;
+      connection.client = null;
       // 設定連接狀態為 false
-      this.isConnected = false;
+      this.setConnectionState(name, connection, false);
       // 記錄斷開連接訊息
-      console.log('Redis Client Disconnected');
+      console.log(`Redis Client Disconnected [${name}]`);
     }
   }
 
+  /**
+   * 斷開所有 Redis 連線
+   * @returns {Promise<void>} 無返回值的 Promise
+   */
+  public async disconnectAll(): Promise<void> {
+    await Promise.all(Array.from(this.connections.keys()).map((name) => this.disconnect(name)));
+  }
+
   /**
    * 檢查連線狀態
    * 返回當前 Redis 連接是否可用
+   * @param {string} [name='default'] 連線名稱
    * @returns {boolean} 連接狀態，true 表示已連接，false 表示未連接
    */
-  public isClientConnected(): boolean {
+  public isClientConnected(name: string = DEFAULT_REDIS_CONNECTION): boolean {
+    const connection = this.connections.get(name);
     // 檢查連接狀態和客戶端實例是否都存在
-    return this.isConnected && this.client !== null;
+    return !!connection && connection.isConnected && (connection.client !== null || connection.cluster !== null);
+  }
+
+  /**
+   * 取得所有已註冊的連線名稱
+   * @returns {string[]} 連線名稱陣列
+   */
+  public getConnectionNames(): string[] {
+    return Array.from(this.connections.keys());
+  }
+
+  /**
+   * 取得或建立連線項目
+   * @param {string} name 連線名稱
+   * @returns {ManagedConnection} 連線項目
+   */
+  private getConnection(name: string): ManagedConnection {
+    let connection = this.connections.get(name);
+    if (!connection) {
+      connection = { config: {}, client: null, cluster: null, clusterProbe: null, sentinel: null, isConnected: false, connecting: null };
+      this.connections.set(name, connection);
+    }
+    return connection;
   }
 }
 
+/**
+ * 合併環境變數後的完整連線配置
+ */
+type ResolvedConnectionConfig = RedisConnectionConfig & {
+  host: string;
+  port: number;
+  database: number;
+  mode: RedisConnectionMode;
+  sentinels: RedisNodeAddress[];
+  sentinelName: string;
+  clusterNodes: RedisNodeAddress[];
+};
+
+/**
+ * 合併明確配置與環境變數
+ * 具名連線優先讀取 REDIS_<NAME>_* 再退回 REDIS_*，例如 telemetry 連線讀取 REDIS_TELEMETRY_HOST
+ * @param {string} name 連線名稱
+ * @param {RedisConnectionConfig} config 明確配置
+ * @returns {RedisConnectionConfig} 完整的連線配置
+ */
+function resolveConnectionConfig(name: string, config: RedisConnectionConfig): ResolvedConnectionConfig {
+  const env = (key: string): string | undefined => {
+    if (name !== DEFAULT_REDIS_CONNECTION) {
+      const scoped = process.env[`REDIS_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_${key}`];
+      if (scoped !== undefined) return scoped;
+    }
+    return process.env[`REDIS_${key}`];
+  };
+
+  return {
+    // 從環境變數獲取主機位址，docker 環境下使用容器名稱
+    host: config.host ?? env('HOST') ?? 'aiot-redis',
+    // 從環境變數獲取埠號並轉換為整數，預設為 6379
+    port: config.port ?? parseInt(env('PORT') || '6379'),
+    username: config.username ?? (env('USERNAME') || undefined),
+    // 從環境變數獲取密碼，如果沒有則為 undefined
+    password: config.password ?? (env('PASSWORD') || undefined),
+    // 從環境變數獲取資料庫編號並轉換為整數，預設為 0
+    database: config.database ?? parseInt(env('DB') || '0'),
+    mode: config.mode ?? ((env('MODE') as RedisConnectionMode | undefined) || 'standalone'),
+    sentinels: config.sentinels ?? parseNodeList(env('SENTINELS'), 26379),
+    sentinelName: config.sentinelName ?? (env('SENTINEL_NAME') || 'mymaster'),
+    sentinelPassword: config.sentinelPassword ?? (env('SENTINEL_PASSWORD') || undefined),
+    clusterNodes: config.clusterNodes ?? parseNodeList(env('CLUSTER_NODES'), 6379),
+    // 重連策略，可由 REDIS_RECONNECT_INITIAL_DELAY / REDIS_RECONNECT_MAX_DELAY（毫秒）調整
+    reconnect: config.reconnect ?? {
+      initialDelayMs: parseOptionalInt(env('RECONNECT_INITIAL_DELAY')),
+      maxDelayMs: parseOptionalInt(env('RECONNECT_MAX_DELAY')),
+    },
+  };
+}
+
+/**
+ * 解析選填的整數環境變數
+ * @param {string | undefined} value 環境變數值
+ * @returns {number | undefined} 整數，未設定時為 undefined
+ */
+function parseOptionalInt(value: string | undefined): number | undefined {
+  return value ? parseInt(value) : undefined;
+}
+
+/**
+ * 建立指數退避加隨機抖動的重連策略，供 redis 客戶端的 socket.reconnectStrategy 使用
+ * 隨機抖動可避免多個服務在 Redis 恢復時同時重連
+ * @param {RedisReconnectOptions} [options] 重連策略選項
+ * @returns {Function} 依重試次數回傳等待毫秒數，超過重試上限時回傳 Error 停止重連
+ */
+export function createReconnectStrategy(options: RedisReconnectOptions = {}): (retries: number, cause: Error) => number | Error {
+  const {
+    initialDelayMs = 100,
+    maxDelayMs = 30000,
+    multiplier = 2,
+    jitter = 0.5,
+    maxRetries = Infinity,
+  } = options;
+
+  return (retries, cause) => {
+    if (retries >= maxRetries) {
+      return new Error(`Redis reconnection gave up after ${retries} retries: ${cause.message}`);
+    }
+
+    const delay = Math.min(initialDelayMs * Math.pow(multiplier, retries), maxDelayMs);
+    return Math.round(delay * (1 - jitter * Math.random()));
+  };
+}
+
+/**
+ * 解析以逗號分隔的節點清單，例如 "sentinel-1:26379,sentinel-2:26379"
+ * @param {string | undefined} value 節點清單字串
+ * @param {number} defaultPort 未指定埠號時使用的預設值
+ * @returns {RedisNodeAddress[]} 節點位址陣列
+ */
+function parseNodeList(value: string | undefined, defaultPort: number): RedisNodeAddress[] {
+  if (!value) return [];
+
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const [host, port] = entry.split(':');
+      return { host, port: port ? parseInt(port) : defaultPort };
+    });
+}
+
 // 匯出單例實例，供其他模組使用
 export const redisConnectionManager = RedisConnectionManager.getInstance();
 
 /**
  * 便利方法：取得 Redis 客戶端實例
  * 提供簡化的方式取得 Redis 客戶端，無需直接操作 redisConnectionManager 物件
+ * @param {string} [name='default'] 連線名稱
  * @returns {RedisClientType} Redis 客戶端實例
  */
-export const getRedisClient = (): RedisClientType => {
+export const getRedisClient = (name: string = DEFAULT_REDIS_CONNECTION): RedisClientType => {
   // 通過 redisConnectionManager 單例取得客戶端實例
-  return redisConnectionManager.getClient();
+  return redisConnectionManager.getClient(name);
 };
 
 /**
  * 便利方法：初始化 Redis 連線
  * 提供統一的初始化邏輯，供各微服務在啟動時調用
+ * @param {string} [name='default'] 連線名稱
+ * @param {RedisConnectionConfig} [config] 連線配置
  * @returns {Promise<void>} 無返回值的 Promise
  */
-export const initializeRedis = async (): Promise<void> => {
+export const initializeRedis = async (name: string = DEFAULT_REDIS_CONNECTION, config?: RedisConnectionConfig): Promise<void> => {
   try {
-    await redisConnectionManager.connect();
-    console.log('Redis connection initialized successfully');
+    await redisConnectionManager.connect(name, config);
+    console.log(`Redis connection initialized successfully [${name}]`);
   } catch (error) {
-    console.error('Failed to initialize Redis connection:', error);
+    console.error(`Failed to initialize Redis connection [${name}]:`, error);
     // 不拋出錯誤，允許服務在沒有 Redis 的情況下繼續運行
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,551 @@
+/**
+ * @fileoverview Redis Streams 事件匯流排
+ *
+ * 以共用的具名 Redis 連線提供服務間的發布/訂閱，例如無人機遙測資料的扇出。
+ * 每個主題對應一條 Redis Stream，每個訂閱群組對應一個 consumer group，
+ * 同一群組內的多個實例分攤訊息，不同群組各自收到完整的訊息。
+ *
+ * 功能特點：
+ * - 至少一次投遞：處理函式成功後才 XACK，失敗的訊息留在 pending 清單中重試
+ * - 消費者當機後，閒置過久的 pending 訊息會由其他消費者以 XAUTOCLAIM 接手
+ * - 投遞次數達上限或內容驗證失敗的訊息移至死信串流（<stream>:dlq）
+ * - 發布時以 MAXLEN ~ 限制串流長度
+ * - 發布與接收時皆以 Validator 驗證內容
+ *
+ * @module RedisEventBus
+ * @author AIOT Team
+ * @since 1.1.0
+ * @version 1.0.0
+ */
+
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import type { RedisClientType } from 'redis';
+import { redisConnectionManager, DEFAULT_REDIS_CONNECTION } from './RedisConnectionManager.js';
+import { Validator, type ValidationError, type ValidationRule } from '../../utils/validation.js';
+
+/**
+ * 事件主題
+ *
+ * 以 defineEventTopic 建立，型別參數為事件內容的型別
+ */
+export interface EventTopic<T> {
+  /** 主題名稱，會加上 streamPrefix 作為串流鍵值 */
+  readonly name: string;
+  /** 事件內容的驗證規則 */
+  readonly rules: ValidationRule[];
+  /** 僅供型別推導使用 */
+  readonly __payload?: T;
+}
+
+/**
+ * 處理函式收到的事件
+ */
+export interface StreamEvent<T> {
+  /** 串流訊息 ID */
+  id: string;
+  /** 主題名稱 */
+  topic: string;
+  /** 事件內容 */
+  payload: T;
+  /** 發布時間（毫秒） */
+  publishedAt: number;
+  /** 第幾次投遞，從 1 開始 */
+  deliveryCount: number;
+}
+
+/**
+ * 事件處理函式
+ */
+export type EventHandler<T> = (event: StreamEvent<T>) => Promise<void>;
+
+/**
+ * 事件匯流排設定
+ */
+export interface RedisEventBusConfig {
+  /** 使用的具名連線，預設為 default */
+  connectionName?: string;
+  /** 串流鍵值前綴，預設 events: */
+  streamPrefix?: string;
+  /** 每條串流保留的大約訊息數（MAXLEN ~），預設 10000 */
+  maxLen?: number;
+  /** 消費者名稱，預設為主機名稱、PID 與隨機碼 */
+  consumerName?: string;
+}
+
+/**
+ * 訂閱選項
+ */
+export interface EventSubscribeOptions {
+  /** 每次讀取的訊息數，預設 10 */
+  batchSize?: number;
+  /** 等待新訊息的阻塞時間（毫秒），預設 5000 */
+  blockMs?: number;
+  /** 投遞次數上限，達到後移至死信串流，預設 5 */
+  maxDeliveries?: number;
+  /** pending 訊息閒置多久後可被接手重試（毫秒），預設 60000 */
+  claimIdleMs?: number;
+  /** 檢查可接手訊息的間隔（毫秒），預設 claimIdleMs 的一半 */
+  claimIntervalMs?: number;
+  /** 群組不存在時從哪裡開始讀取：$ 只讀新訊息（預設），0 從頭讀取 */
+  startId?: string;
+}
+
+/**
+ * 執行中的訂閱
+ */
+export interface EventSubscription {
+  /** 主題名稱 */
+  readonly topic: string;
+  /** 消費者群組 */
+  readonly group: string;
+  /** 停止訂閱，等待處理中的訊息完成 */
+  stop(): Promise<void>;
+}
+
+/**
+ * 事件內容驗證失敗
+ */
+export class EventValidationError extends Error {
+  /** 主題名稱 */
+  public readonly topic: string;
+
+  /** 驗證錯誤 */
+  public readonly errors: ValidationError[];
+
+  constructor(topic: string, errors: ValidationError[]) {
+    super(`Invalid payload for event ${topic}: ${errors.map((error) => `${error.field} ${error.message}`).join(', ')}`);
+    this.name = 'EventValidationError';
+    this.topic = topic;
+    this.errors = errors;
+  }
+}
+
+/**
+ * 定義事件主題
+ *
+ * @param name 主題名稱
+ * @param rules 事件內容的驗證規則
+ * @returns 事件主題
+ *
+ * @example
+ * ```typescript
+ * interface DroneTelemetry { droneId: string; lat: number; lng: number; }
+ *
+ * export const DroneTelemetryTopic = defineEventTopic<DroneTelemetry>('drone.telemetry', [
+ *   { field: 'droneId', rules: [ValidationRules.required()] }
+ * ]);
+ * ```
+ */
+export function defineEventTopic<T>(name: string, rules: ValidationRule[] = []): EventTopic<T> {
+  return { name, rules };
+}
+
+/** 取回的串流訊息 */
+interface RawStreamMessage {
+  id: string;
+  message: Record<string, string>;
+}
+
+/**
+ * Redis Streams 事件匯流排
+ *
+ * @class RedisEventBus
+ * @since 1.1.0
+ *
+ * @example
+ * ```typescript
+ * const bus = new RedisEventBus({ maxLen: 50000 });
+ *
+ * await bus.publish(DroneTelemetryTopic, { droneId: 'D-01', lat: 25.03, lng: 121.56 });
+ *
+ * const subscription = await bus.subscribe(DroneTelemetryTopic, 'archive-service', async (event) => {
+ *   await archive.save(event.payload);
+ * }, { maxDeliveries: 3 });
+ *
+ * await subscription.stop();
+ * ```
+ */
+export class RedisEventBus {
+  /** 使用的具名連線 */
+  private readonly connectionName: string;
+
+  /** 串流鍵值前綴 */
+  private readonly streamPrefix: string;
+
+  /** 每條串流保留的大約訊息數 */
+  private readonly maxLen: number;
+
+  /** 消費者名稱 */
+  private readonly consumerName: string;
+
+  /**
+   * 建構函式
+   *
+   * @param config 事件匯流排設定
+   */
+  constructor(config: RedisEventBusConfig = {}) {
+    this.connectionName = config.connectionName ?? DEFAULT_REDIS_CONNECTION;
+    this.streamPrefix = config.streamPrefix ?? 'events:';
+    this.maxLen = config.maxLen ?? 10000;
+    this.consumerName = config.consumerName ?? `${hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`;
+  }
+
+  /**
+   * 發布事件
+   *
+   * @param topic 事件主題
+   * @param payload 事件內容
+   * @returns 串流訊息 ID
+   * @throws {EventValidationError} 內容驗證失敗時拋出
+   */
+  public async publish<T>(topic: EventTopic<T>, payload: T): Promise<string> {
+    this.assertValid(topic, payload);
+
+    const redis = redisConnectionManager.getClient(this.connectionName);
+    return await redis.xAdd(this.getStreamKey(topic), '*', {
+      payload: JSON.stringify(payload),
+      publishedAt: String(Date.now())
+    }, {
+      TRIM: { strategy: 'MAXLEN', strategyModifier: '~', threshold: this.maxLen }
+    });
+  }
+
+  /**
+   * 訂閱事件
+   *
+   * 同一群組內的訊息依序處理；處理函式拋出錯誤時訊息不會被確認，
+   * 閒置 claimIdleMs 後重新投遞，直到達到 maxDeliveries 後移至死信串流
+   *
+   * @param topic 事件主題
+   * @param group 消費者群組，通常為服務名稱
+   * @param handler 事件處理函式
+   * @param options 訂閱選項
+   * @returns 執行中的訂閱
+   */
+  public async subscribe<T>(
+    topic: EventTopic<T>,
+    group: string,
+    handler: EventHandler<T>,
+    options: EventSubscribeOptions = {}
+  ): Promise<EventSubscription> {
+    const streamKey = this.getStreamKey(topic);
+    const batchSize = options.batchSize ?? 10;
+    const blockMs = options.blockMs ?? 5000;
+    const maxDeliveries = options.maxDeliveries ?? 5;
+    const claimIdleMs = options.claimIdleMs ?? 60000;
+    const startId = options.startId ?? '$';
+
+    await this.ensureGroup(streamKey, group, startId);
+
+    // XREADGROUP BLOCK 會佔用連線，因此每個訂閱使用獨立的讀取連線
+    const reader = redisConnectionManager.getClient(this.connectionName).duplicate();
+    reader.on('error', (err) => {
+      console.error(`Event bus reader error [${topic.name}/${group}]:`, err);
+    });
+    await reader.connect();
+
+    let stopped = false;
+    let processing: Promise<void> = Promise.resolve();
+    // 已排入佇列或處理中的訊息 ID；處理較慢時這些訊息在 pending 清單中閒置夠久，
+    // 會被本消費者自己的 XAUTOCLAIM 再次取回，需略過以免重複處理
+    const queued = new Set<string>();
+
+    // 讀取與接手的訊息排入同一佇列依序處理
+    const enqueue = (messages: RawStreamMessage[], deliveryCounts?: Map<string, number>) => {
+      const fresh = messages.filter((message) => !queued.has(message.id));
+      for (const message of fresh) {
+        queued.add(message.id);
+      }
+
+      processing = processing.then(async () => {
+        for (const message of fresh) {
+          if (stopped) {
+            return;
+          }
+          try {
+            await this.handleMessage(topic, streamKey, group, message, deliveryCounts?.get(message.id) ?? 1, maxDeliveries, handler);
+          } catch (error) {
+            // 確認或移至死信串流失敗時，訊息仍在 pending 清單中，稍後會被接手重試
+            console.warn(`Event bus failed to settle ${message.id} [${topic.name}/${group}]:`, error);
+          } finally {
+            queued.delete(message.id);
+          }
+        }
+      });
+      return processing;
+    };
+
+    const readLoop = async () => {
+      while (!stopped) {
+        try {
+          const reply = await reader.xReadGroup(group, this.consumerName, { key: streamKey, id: '>' }, {
+            COUNT: batchSize,
+            BLOCK: blockMs
+          });
+          if (reply && reply.length > 0) {
+            await enqueue(reply[0].messages as RawStreamMessage[]);
+          }
+        } catch (error) {
+          if (stopped) {
+            return;
+          }
+          if (error instanceof Error && error.message.startsWith('NOGROUP')) {
+            // 串流被刪除後重建群組
+            await this.ensureGroup(streamKey, group, startId).catch(() => undefined);
+          } else {
+            console.warn(`Event bus read failed [${topic.name}/${group}]:`, error);
+          }
+          await sleep(Math.min(blockMs, 1000));
+        }
+      }
+    };
+
+    // XAUTOCLAIM 的游標，pending 清單超過 batchSize 時分批往後掃描，掃完一輪 Redis 回傳 0-0 重新開始
+    let claimCursor = '0-0';
+    const claim = async () => {
+      try {
+        const reclaimed = await this.claimStale(streamKey, group, claimIdleMs, batchSize, claimCursor, queued);
+        claimCursor = reclaimed.nextCursor;
+        if (reclaimed.messages.length > 0) {
+          await enqueue(reclaimed.messages, reclaimed.deliveryCounts);
+        }
+      } catch (error) {
+        console.warn(`Event bus claim failed [${topic.name}/${group}]:`, error);
+      }
+    };
+
+    const loop = readLoop();
+    const claimTimer = setInterval(() => {
+      claim();
+    }, options.claimIntervalMs ?? Math.max(Math.floor(claimIdleMs / 2), 1));
+    claimTimer.unref();
+    // 接手上次停止前遺留的訊息
+    claim();
+
+    return {
+      topic: topic.name,
+      group,
+      stop: async () => {
+        if (stopped) {
+          return;
+        }
+        stopped = true;
+        clearInterval(claimTimer);
+        await processing;
+        // 中斷阻塞中的 XREADGROUP
+        await reader.disconnect().catch(() => undefined);
+        await loop;
+      }
+    };
+  }
+
+  /**
+   * 取得主題的串流鍵值
+   *
+   * @param topic 事件主題
+   * @returns 串流鍵值
+   */
+  public getStreamKey(topic: EventTopic<unknown>): string {
+    return `${this.streamPrefix}${topic.name}`;
+  }
+
+  /**
+   * 取得主題的死信串流鍵值
+   *
+   * @param topic 事件主題
+   * @returns 死信串流鍵值
+   */
+  public getDeadLetterKey(topic: EventTopic<unknown>): string {
+    return `${this.getStreamKey(topic)}:dlq`;
+  }
+
+  /**
+   * 處理單一訊息
+   *
+   * @param topic 事件主題
+   * @param streamKey 串流鍵值
+   * @param group 消費者群組
+   * @param raw 串流訊息
+   * @param deliveryCount 投遞次數
+   * @param maxDeliveries 投遞次數上限
+   * @param handler 事件處理函式
+   */
+  private async handleMessage<T>(
+    topic: EventTopic<T>,
+    streamKey: string,
+    group: string,
+    raw: RawStreamMessage,
+    deliveryCount: number,
+    maxDeliveries: number,
+    handler: EventHandler<T>
+  ): Promise<void> {
+    const redis = redisConnectionManager.getClient(this.connectionName);
+
+    if (deliveryCount > maxDeliveries) {
+      // 處理過程中程序當機，未能記錄失敗
+      await this.deadLetter(redis, streamKey, group, raw, deliveryCount, 'Maximum deliveries exceeded');
+      return;
+    }
+
+    let payload: T;
+    try {
+      payload = JSON.parse(raw.message.payload) as T;
+      this.assertValid(topic, payload);
+    } catch (error) {
+      // 內容錯誤重試也不會成功，直接移至死信串流
+      await this.deadLetter(redis, streamKey, group, raw, deliveryCount, errorMessage(error));
+      return;
+    }
+
+    try {
+      await handler({
+        id: raw.id,
+        topic: topic.name,
+        payload,
+        publishedAt: Number(raw.message.publishedAt),
+        deliveryCount
+      });
+      await redis.xAck(streamKey, group, raw.id);
+    } catch (error) {
+      if (deliveryCount >= maxDeliveries) {
+        await this.deadLetter(redis, streamKey, group, raw, deliveryCount, errorMessage(error));
+        return;
+      }
+      console.warn(`Event ${topic.name} ${raw.id} failed on delivery ${deliveryCount}/${maxDeliveries} [${group}]:`, error);
+    }
+  }
+
+  /**
+   * 接手閒置過久的 pending 訊息，並查詢各訊息的投遞次數
+   *
+   * @param streamKey 串流鍵值
+   * @param group 消費者群組
+   * @param claimIdleMs 閒置時間門檻（毫秒）
+   * @param count 最多接手的訊息數
+   * @param cursor 從此 ID 開始掃描 pending 清單
+   * @param skip 本機已排入佇列或處理中的訊息 ID，不重複處理
+   * @returns 接手的訊息、投遞次數與下一次掃描的游標
+   */
+  private async claimStale(
+    streamKey: string,
+    group: string,
+    claimIdleMs: number,
+    count: number,
+    cursor: string,
+    skip: ReadonlySet<string>
+  ): Promise<{ messages: RawStreamMessage[]; deliveryCounts: Map<string, number>; nextCursor: string }> {
+    const redis = redisConnectionManager.getClient(this.connectionName);
+    const reply = await redis.xAutoClaim(streamKey, group, this.consumerName, claimIdleMs, cursor, { COUNT: count });
+    const messages: RawStreamMessage[] = [];
+    const deliveryCounts = new Map<string, number>();
+
+    // 已被 MAXLEN 修剪掉的訊息回傳為 null，無法處理；
+    // 需在收到回應時立即過濾，之後查詢投遞次數的期間本機可能已處理完並確認
+    for (const message of reply.messages) {
+      if (message && !skip.has(message.id)) {
+        messages.push(message as RawStreamMessage);
+      }
+    }
+
+    if (messages.length > 0) {
+      const pending = await redis.xPendingRange(
+        streamKey,
+        group,
+        messages[0].id,
+        messages[messages.length - 1].id,
+        messages.length,
+        { consumer: this.consumerName }
+      );
+      for (const entry of pending) {
+        deliveryCounts.set(String(entry.id), entry.deliveriesCounter);
+      }
+    }
+
+    return { messages, deliveryCounts, nextCursor: String(reply.nextId) };
+  }
+
+  /**
+   * 將訊息移至死信串流並確認原訊息
+   *
+   * @param redis Redis 客戶端
+   * @param streamKey 串流鍵值
+   * @param group 消費者群組
+   * @param raw 串流訊息
+   * @param deliveryCount 投遞次數
+   * @param reason 失敗原因
+   */
+  private async deadLetter(
+    redis: RedisClientType,
+    streamKey: string,
+    group: string,
+    raw: RawStreamMessage,
+    deliveryCount: number,
+    reason: string
+  ): Promise<void> {
+    console.error(`Moving event ${raw.id} on ${streamKey} to dead-letter stream after ${deliveryCount} deliveries [${group}]: ${reason}`);
+
+    await redis.xAdd(`${streamKey}:dlq`, '*', {
+      ...raw.message,
+      originalId: raw.id,
+      group,
+      consumer: this.consumerName,
+      deliveries: String(deliveryCount),
+      error: reason,
+      failedAt: String(Date.now())
+    }, {
+      TRIM: { strategy: 'MAXLEN', strategyModifier: '~', threshold: this.maxLen }
+    });
+    await redis.xAck(streamKey, group, raw.id);
+  }
+
+  /**
+   * 建立消費者群組，已存在時略過
+   *
+   * @param streamKey 串流鍵值
+   * @param group 消費者群組
+   * @param startId 起始訊息 ID
+   */
+  private async ensureGroup(streamKey: string, group: string, startId: string): Promise<void> {
+    const redis = redisConnectionManager.getClient(this.connectionName);
+    try {
+      await redis.xGroupCreate(streamKey, group, startId, { MKSTREAM: true });
+    } catch (error) {
+      if (!(error instanceof Error && error.message.startsWith('BUSYGROUP'))) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * 驗證事件內容
+   *
+   * @param topic 事件主題
+   * @param payload 事件內容
+   * @throws {EventValidationError} 驗證失敗時拋出
+   */
+  private assertValid<T>(topic: EventTopic<T>, payload: T): void {
+    if (topic.rules.length === 0) {
+      return;
+    }
+
+    const errors = Validator.validateObject(payload ?? {}, topic.rules);
+    if (Validator.hasValidationErrors(errors)) {
+      throw new EventValidationError(topic.name, errors);
+    }
+  }
+}
+
+/**
+ * 取得錯誤訊息
+ */
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * 等待指定時間
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,1054 @@
+/**
+ * @fileoverview Redis 工作佇列
+ *
+ * 以共用的具名 Redis 連線取代各服務自行撰寫的 setTimeout 迴圈，
+ * 用於報表產生、韌體推送等背景工作。
+ *
+ * 功能特點：
+ * - 延遲執行與優先順序（數字越小越優先）
+ * - Worker 並行數量限制，執行期間定期延長租約
+ * - 失敗重試，支援固定與指數退避
+ * - 工作進度與結果寫回 Redis
+ * - Worker 當機時，租約過期的工作會重新排入佇列（stalled-job recovery）
+ * - 以 cron 表達式或固定間隔建立週期性工作，多個實例同時註冊也只會執行一次
+ * - 管理 API 以 PaginatedResponse 回傳各狀態的工作清單
+ *
+ * 所有狀態轉移都在 Lua 腳本中完成；鍵值使用 queue:{name}: 前綴，
+ * 大括號讓 Cluster 模式下同一佇列的鍵值落在同一個 slot。
+ * 腳本只存取 KEYS 宣告的鍵值；執行前無法得知 ID 的工作 hash，
+ * 以 KEYS 中宣告的工作鍵值前綴加上 ID 組成，與前綴位於同一個 slot。
+ *
+ * @module RedisJobQueue
+ * @author AIOT Team
+ * @since 1.1.0
+ * @version 1.0.0
+ */
+
+import { randomUUID } from 'crypto';
+import type { RedisClientType } from 'redis';
+import { redisConnectionManager, DEFAULT_REDIS_CONNECTION } from './RedisConnectionManager.js';
+import { CronExpression } from '../../utils/cron.js';
+import type { PaginatedResponse, PaginationParams } from '../../types/PaginationTypes.js';
+
+/**
+ * 工作狀態
+ */
+export type JobState = 'waiting' | 'delayed' | 'active' | 'completed' | 'failed';
+
+/**
+ * 重試退避設定
+ */
+export interface JobBackoffOptions {
+  /** fixed：每次等待 delayMs；exponential：第 n 次重試等待 delayMs * 2^(n-1) */
+  type: 'fixed' | 'exponential';
+  /** 基本等待時間（毫秒） */
+  delayMs: number;
+}
+
+/**
+ * 新增工作選項
+ */
+export interface JobOptions {
+  /** 自訂工作 ID，相同 ID 的工作已存在時不會重複新增 */
+  jobId?: string;
+  /** 延遲執行時間（毫秒） */
+  delayMs?: number;
+  /** 優先順序，數字越小越優先，預設 0 */
+  priority?: number;
+  /** 最多執行次數（含第一次），預設 1 */
+  attempts?: number;
+  /** 重試退避設定，預設指數退避 1000 毫秒 */
+  backoff?: JobBackoffOptions;
+}
+
+/**
+ * 週期性工作設定，cron 與 everyMs 擇一
+ */
+export interface RepeatOptions {
+  /** cron 表達式（分 時 日 月 週，伺服器本地時區） */
+  cron?: string;
+  /** 固定間隔（毫秒），以整點對齊，讓各實例計算出相同的執行時間 */
+  everyMs?: number;
+  /** 週期性工作識別鍵，預設為「名稱:排程」 */
+  key?: string;
+}
+
+/**
+ * 已註冊的週期性工作
+ */
+export interface RepeatableJob {
+  key: string;
+  name: string;
+  data: unknown;
+  cron?: string;
+  everyMs?: number;
+  options: Omit<JobOptions, 'jobId' | 'delayMs'>;
+}
+
+/**
+ * 工作資訊（管理 API 使用）
+ */
+export interface JobInfo<TData = unknown> {
+  id: string;
+  name: string;
+  data: TData;
+  state: JobState;
+  priority: number;
+  attempts: number;
+  attemptsMade: number;
+  progress: unknown;
+  result: unknown;
+  failedReason?: string;
+  /** 建立時間（毫秒） */
+  createdAt: number;
+  /** 預定執行時間（毫秒） */
+  runAt: number;
+  /** 最近一次開始執行的時間（毫秒） */
+  processedAt?: number;
+  /** 完成或最終失敗的時間（毫秒） */
+  finishedAt?: number;
+  /** 所屬的週期性工作識別鍵 */
+  repeatKey?: string;
+}
+
+/**
+ * 處理函式收到的工作
+ */
+export interface Job<TData = unknown> {
+  id: string;
+  name: string;
+  data: TData;
+  attempts: number;
+  /** 先前已執行的次數，第一次執行時為 0 */
+  attemptsMade: number;
+  createdAt: number;
+  /** 租約遺失（工作被判定為 stalled 並交給其他 Worker）時中止的訊號 */
+  signal: AbortSignal;
+  /** 更新工作進度 */
+  updateProgress(progress: number | Record<string, unknown>): Promise<void>;
+}
+
+/**
+ * 工作處理函式，回傳值會序列化為 JSON 存入工作結果
+ */
+export type JobHandler<TData = unknown> = (job: Job<TData>) => Promise<unknown>;
+
+/**
+ * 工作佇列設定
+ */
+export interface RedisJobQueueConfig {
+  /** 使用的具名連線，預設為 default */
+  connectionName?: string;
+  /** 保留的已完成工作數，-1 表示全部保留，預設 1000 */
+  keepCompleted?: number;
+  /** 保留的失敗工作數，-1 表示全部保留，預設 5000 */
+  keepFailed?: number;
+  /** 新增工作的預設選項 */
+  defaultJobOptions?: Omit<JobOptions, 'jobId'>;
+}
+
+/**
+ * Worker 選項
+ */
+export interface JobWorkerOptions {
+  /** 同時執行的工作數，預設 1 */
+  concurrency?: number;
+  /** 工作租約（毫秒），Worker 每 leaseMs / 2 延長一次，預設 30000 */
+  leaseMs?: number;
+  /** 佇列為空時的輪詢間隔（毫秒），預設 1000 */
+  pollIntervalMs?: number;
+  /** 檢查租約過期工作與週期性工作排程的間隔（毫秒），預設為 leaseMs */
+  stalledCheckIntervalMs?: number;
+}
+
+/**
+ * 執行中的 Worker
+ */
+export interface JobWorker {
+  /** 停止取得新工作，等待執行中的工作完成 */
+  close(): Promise<void>;
+}
+
+/** Lua 中計算 wait 分數：優先順序 * 2^32 + 新增序號，同優先順序依新增順序執行 */
+const WAIT_SCORE_LUA = `
+local function waitScore(jobKey)
+  local job = redis.call('HMGET', jobKey, 'priority', 'seq')
+  return tonumber(job[1]) * 4294967296 + tonumber(job[2])
+end
+`;
+
+/** Lua 中修剪已完成/失敗工作的函式 */
+const TRIM_LUA = `
+local function trim(key, keep, jobPrefix)
+  if keep < 0 then
+    return
+  end
+  local excess = redis.call('ZCARD', key) - keep
+  if excess > 0 then
+    local old = redis.call('ZRANGE', key, 0, excess - 1)
+    for _, oldId in ipairs(old) do
+      redis.call('DEL', jobPrefix .. oldId)
+    end
+    redis.call('ZREMRANGEBYRANK', key, 0, excess - 1)
+  end
+end
+`;
+
+/**
+ * 新增工作
+ * KEYS[1] 工作 hash，KEYS[2] wait，KEYS[3] delayed，KEYS[4] 序號
+ * ARGV[1] 工作 ID，ARGV[2] 現在時間，ARGV[3] 預定執行時間，ARGV[4] 優先順序，ARGV[5] 名稱，
+ * ARGV[6] 資料，ARGV[7] 執行次數上限，ARGV[8] 退避設定，ARGV[9] 週期性工作識別鍵
+ * 回傳 1 表示已新增，0 表示相同 ID 的工作已存在
+ */
+const ADD_JOB_SCRIPT = WAIT_SCORE_LUA + `
+if redis.call('EXISTS', KEYS[1]) == 1 then
+  return 0
+end
+
+local seq = redis.call('INCR', KEYS[4])
+local delayed = tonumber(ARGV[3]) > tonumber(ARGV[2])
+redis.call('HSET', KEYS[1],
+  'id', ARGV[1], 'name', ARGV[5], 'data', ARGV[6], 'priority', ARGV[4], 'seq', seq,
+  'attempts', ARGV[7], 'attemptsMade', 0, 'backoff', ARGV[8], 'repeatKey', ARGV[9],
+  'createdAt', ARGV[2], 'runAt', ARGV[3], 'state', delayed and 'delayed' or 'waiting')
+
+if delayed then
+  redis.call('ZADD', KEYS[3], ARGV[3], ARGV[1])
+else
+  redis.call('ZADD', KEYS[2], waitScore(KEYS[1]), ARGV[1])
+end
+return 1
+`;
+
+/**
+ * 將到期的延遲工作移入 wait，並取出下一個工作
+ * KEYS[1] wait，KEYS[2] delayed，KEYS[3] active，KEYS[4] 工作鍵值前綴
+ * ARGV[1] 現在時間，ARGV[2] 租約毫秒，ARGV[3] 租約 token
+ * 回傳工作 hash 內容；沒有工作時回傳 nil
+ */
+const MOVE_TO_ACTIVE_SCRIPT = WAIT_SCORE_LUA + `
+local now = tonumber(ARGV[1])
+local due = redis.call('ZRANGEBYSCORE', KEYS[2], '-inf', now, 'LIMIT', 0, 100)
+for _, id in ipairs(due) do
+  local jobKey = KEYS[4] .. id
+  redis.call('ZREM', KEYS[2], id)
+  redis.call('ZADD', KEYS[1], waitScore(jobKey), id)
+  redis.call('HSET', jobKey, 'state', 'waiting')
+end
+
+local next = redis.call('ZPOPMIN', KEYS[1])
+if #next == 0 then
+  return false
+end
+
+local id = next[1]
+local jobKey = KEYS[4] .. id
+redis.call('ZADD', KEYS[3], now + tonumber(ARGV[2]), id)
+redis.call('HSET', jobKey, 'state', 'active', 'processedAt', ARGV[1], 'token', ARGV[3])
+return redis.call('HGETALL', jobKey)
+`;
+
+/**
+ * 延長租約
+ * KEYS[1] active，KEYS[2] 工作 hash；ARGV[1] 工作 ID，ARGV[2] 租約 token，ARGV[3] 新的到期時間
+ */
+const EXTEND_LEASE_SCRIPT = `
+if redis.call('HGET', KEYS[2], 'token') ~= ARGV[2] or not redis.call('ZSCORE', KEYS[1], ARGV[1]) then
+  return 0
+end
+redis.call('ZADD', KEYS[1], ARGV[3], ARGV[1])
+return 1
+`;
+
+/**
+ * 標記工作完成
+ * KEYS[1] active，KEYS[2] completed，KEYS[3] 工作 hash，KEYS[4] 工作鍵值前綴
+ * ARGV[1] 工作 ID，ARGV[2] 租約 token，ARGV[3] 結果，ARGV[4] 現在時間，ARGV[5] 保留數量
+ */
+const COMPLETE_SCRIPT = TRIM_LUA + `
+if redis.call('HGET', KEYS[3], 'token') ~= ARGV[2] or redis.call('ZREM', KEYS[1], ARGV[1]) == 0 then
+  return 0
+end
+
+redis.call('HINCRBY', KEYS[3], 'attemptsMade', 1)
+redis.call('HSET', KEYS[3], 'state', 'completed', 'result', ARGV[3], 'finishedAt', ARGV[4], 'token', '')
+redis.call('HDEL', KEYS[3], 'failedReason')
+redis.call('ZADD', KEYS[2], ARGV[4], ARGV[1])
+trim(KEYS[2], tonumber(ARGV[5]), KEYS[4])
+return 1
+`;
+
+/**
+ * 標記工作失敗，依 ARGV[5] 重試或移至 failed
+ * KEYS[1] active，KEYS[2] wait，KEYS[3] delayed，KEYS[4] failed，KEYS[5] 工作 hash，KEYS[6] 工作鍵值前綴
+ * ARGV[1] 工作 ID，ARGV[2] 租約 token，ARGV[3] 錯誤訊息，ARGV[4] 現在時間，
+ * ARGV[5] 重試時間（-1 表示不再重試），ARGV[6] 保留數量
+ */
+const FAIL_SCRIPT = WAIT_SCORE_LUA + TRIM_LUA + `
+if redis.call('HGET', KEYS[5], 'token') ~= ARGV[2] or redis.call('ZREM', KEYS[1], ARGV[1]) == 0 then
+  return 0
+end
+
+redis.call('HINCRBY', KEYS[5], 'attemptsMade', 1)
+redis.call('HSET', KEYS[5], 'failedReason', ARGV[3], 'token', '')
+
+local retryAt = tonumber(ARGV[5])
+if retryAt < 0 then
+  redis.call('HSET', KEYS[5], 'state', 'failed', 'finishedAt', ARGV[4])
+  redis.call('ZADD', KEYS[4], ARGV[4], ARGV[1])
+  trim(KEYS[4], tonumber(ARGV[6]), KEYS[6])
+elseif retryAt > tonumber(ARGV[4]) then
+  redis.call('HSET', KEYS[5], 'state', 'delayed', 'runAt', ARGV[5])
+  redis.call('ZADD', KEYS[3], retryAt, ARGV[1])
+else
+  redis.call('HSET', KEYS[5], 'state', 'waiting')
+  redis.call('ZADD', KEYS[2], waitScore(KEYS[5]), ARGV[1])
+end
+return 1
+`;
+
+/**
+ * 將租約過期的工作視為一次失敗，重新排入 wait 或移至 failed
+ * KEYS[1] active，KEYS[2] wait，KEYS[3] failed，KEYS[4] 工作鍵值前綴
+ * ARGV[1] 現在時間，ARGV[2] 保留數量
+ * 回傳處理的工作 ID
+ */
+const RECOVER_STALLED_SCRIPT = WAIT_SCORE_LUA + TRIM_LUA + `
+local stalled = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, 100)
+for _, id in ipairs(stalled) do
+  local jobKey = KEYS[4] .. id
+  redis.call('ZREM', KEYS[1], id)
+  local made = redis.call('HINCRBY', jobKey, 'attemptsMade', 1)
+  redis.call('HSET', jobKey, 'failedReason', 'Job stalled: worker lease expired', 'token', '')
+  if made >= tonumber(redis.call('HGET', jobKey, 'attempts')) then
+    redis.call('HSET', jobKey, 'state', 'failed', 'finishedAt', ARGV[1])
+    redis.call('ZADD', KEYS[3], ARGV[1], id)
+  else
+    redis.call('HSET', jobKey, 'state', 'waiting')
+    redis.call('ZADD', KEYS[2], waitScore(jobKey), id)
+  end
+end
+trim(KEYS[3], tonumber(ARGV[2]), KEYS[4])
+return stalled
+`;
+
+/**
+ * 將失敗的工作重新排入 wait
+ * KEYS[1] failed，KEYS[2] wait，KEYS[3] 工作 hash；ARGV[1] 工作 ID
+ */
+const RETRY_SCRIPT = WAIT_SCORE_LUA + `
+if redis.call('ZREM', KEYS[1], ARGV[1]) == 0 then
+  return 0
+end
+redis.call('HSET', KEYS[3], 'state', 'waiting', 'attemptsMade', 0)
+redis.call('HDEL', KEYS[3], 'finishedAt')
+redis.call('ZADD', KEYS[2], waitScore(KEYS[3]), ARGV[1])
+return 1
+`;
+
+/** 所有工作狀態，各對應一個 sorted set */
+const JOB_STATES: JobState[] = ['waiting', 'delayed', 'active', 'completed', 'failed'];
+
+/**
+ * Redis 工作佇列
+ *
+ * @class RedisJobQueue
+ * @since 1.1.0
+ *
+ * @example
+ * ```typescript
+ * const reports = new RedisJobQueue<{ reportId: number }>('reports', {
+ *   defaultJobOptions: { attempts: 3, backoff: { type: 'exponential', delayMs: 5000 } }
+ * });
+ *
+ * await reports.add('generate', { reportId: 42 }, { delayMs: 60000 });
+ * await reports.addRepeatable('cleanup', { reportId: 0 }, { cron: '0 3 * * *' });
+ *
+ * const worker = reports.process(async (job) => {
+ *   await job.updateProgress(50);
+ *   return await generateReport(job.data.reportId, { signal: job.signal });
+ * }, { concurrency: 4 });
+ *
+ * // 管理 API
+ * const failed = await reports.getJobs('failed', { page: 1, pageSize: 20 });
+ * ```
+ */
+export class RedisJobQueue<TData = unknown> {
+  /** 使用的具名連線 */
+  private readonly connectionName: string;
+
+  /** 鍵值前綴 */
+  private readonly prefix: string;
+
+  /** 保留的已完成工作數 */
+  private readonly keepCompleted: number;
+
+  /** 保留的失敗工作數 */
+  private readonly keepFailed: number;
+
+  /** 新增工作的預設選項 */
+  private readonly defaultJobOptions: Omit<JobOptions, 'jobId'>;
+
+  /** 本程序內的 Worker，新增工作時立即喚醒 */
+  private readonly workers: Set<QueueWorker<TData>> = new Set();
+
+  /**
+   * 建構函式
+   *
+   * @param name 佇列名稱
+   * @param config 工作佇列設定
+   */
+  constructor(public readonly name: string, config: RedisJobQueueConfig = {}) {
+    this.connectionName = config.connectionName ?? DEFAULT_REDIS_CONNECTION;
+    this.prefix = `queue:{${name}}:`;
+    this.keepCompleted = config.keepCompleted ?? 1000;
+    this.keepFailed = config.keepFailed ?? 5000;
+    this.defaultJobOptions = config.defaultJobOptions ?? {};
+  }
+
+  /**
+   * 新增工作
+   *
+   * @param name 工作名稱
+   * @param data 工作資料
+   * @param options 新增工作選項
+   * @returns 工作 ID
+   */
+  public async add(name: string, data: TData, options: JobOptions = {}): Promise<string> {
+    const id = options.jobId ?? randomUUID();
+    const now = Date.now();
+    await this.addJob(id, name, data, now + (options.delayMs ?? this.defaultJobOptions.delayMs ?? 0), options, '');
+    return id;
+  }
+
+  /**
+   * 註冊週期性工作
+   *
+   * 每次執行時才排入下一次，因此多個實例重複註冊同一個識別鍵不會重複執行；
+   * 排入失敗時由 Worker 的定期檢查補排
+   *
+   * @param name 工作名稱
+   * @param data 工作資料
+   * @param repeat 週期設定
+   * @param options 工作選項
+   * @returns 週期性工作識別鍵
+   * @throws {Error} cron 表達式錯誤或未指定 cron / everyMs 時拋出
+   */
+  public async addRepeatable(
+    name: string,
+    data: TData,
+    repeat: RepeatOptions,
+    options: Omit<JobOptions, 'jobId' | 'delayMs'> = {}
+  ): Promise<string> {
+    if (!repeat.cron === !repeat.everyMs) {
+      throw new Error('Repeatable job requires exactly one of cron or everyMs');
+    }
+    if (repeat.cron) {
+      CronExpression.parse(repeat.cron);
+    }
+
+    const key = repeat.key ?? `${name}:${repeat.cron ?? `every:${repeat.everyMs}`}`;
+    const definition: RepeatableJob = { key, name, data, cron: repeat.cron, everyMs: repeat.everyMs, options };
+
+    await this.getRedis().hSet(this.key('repeat'), key, JSON.stringify(definition));
+    await this.scheduleRepeat(definition, Date.now());
+    return key;
+  }
+
+  /**
+   * 移除週期性工作，並刪除尚未執行的下一次工作
+   *
+   * @param key 週期性工作識別鍵
+   * @returns 是否有移除
+   */
+  public async removeRepeatable(key: string): Promise<boolean> {
+    const redis = this.getRedis();
+    const removed = await redis.hDel(this.key('repeat'), key);
+
+    const idPrefix = `repeat:${key}:`;
+    for (const state of ['waiting', 'delayed'] as const) {
+      const ids = await redis.zRange(this.key(state), 0, -1);
+      for (const id of ids.filter((jobId) => jobId.startsWith(idPrefix))) {
+        await this.removeJob(id);
+      }
+    }
+
+    return removed > 0;
+  }
+
+  /**
+   * 取得已註冊的週期性工作
+   */
+  public async getRepeatableJobs(): Promise<RepeatableJob[]> {
+    const definitions = await this.getRedis().hVals(this.key('repeat'));
+    return definitions.map((definition) => JSON.parse(definition) as RepeatableJob);
+  }
+
+  /**
+   * 啟動 Worker 處理工作
+   *
+   * @param handler 工作處理函式
+   * @param options Worker 選項
+   * @returns 執行中的 Worker
+   */
+  public process(handler: JobHandler<TData>, options: JobWorkerOptions = {}): JobWorker {
+    const worker = new QueueWorker<TData>(this.name, {
+      moveToActive: (token, leaseMs) => this.moveToActive(token, leaseMs),
+      extendLease: (id, token, leaseMs) => this.extendLease(id, token, leaseMs),
+      updateProgress: (id, progress) => this.updateProgress(id, progress),
+      complete: (id, token, result) => this.complete(id, token, result),
+      fail: (job, token, error) => this.fail(job, token, error),
+      recoverStalled: () => this.recoverStalled(),
+      ensureRepeatSchedules: () => this.ensureRepeatSchedules(),
+      scheduleNextRepeat: (repeatKey, after) => this.scheduleNextRepeat(repeatKey, after)
+    }, handler, options);
+    this.workers.add(worker);
+    worker.start();
+
+    return {
+      close: async () => {
+        this.workers.delete(worker);
+        await worker.close();
+      }
+    };
+  }
+
+  /**
+   * 取得工作資訊
+   *
+   * @param id 工作 ID
+   * @returns 工作資訊；不存在時為 null
+   */
+  public async getJob(id: string): Promise<JobInfo<TData> | null> {
+    const hash = await this.getRedis().hGetAll(this.jobKey(id));
+    return Object.keys(hash).length > 0 ? toJobInfo<TData>(hash) : null;
+  }
+
+  /**
+   * 分頁列出指定狀態的工作
+   *
+   * waiting / delayed / active 依執行順序排列，completed / failed 新的在前
+   *
+   * @param state 工作狀態
+   * @param params 分頁參數，預設第 1 頁、每頁 20 筆；指定 offset 時忽略 page
+   * @returns 分頁工作清單
+   */
+  public async getJobs(state: JobState, params: PaginationParams = {}): Promise<PaginatedResponse<JobInfo<TData>>> {
+    const redis = this.getRedis();
+    const pageSize = Math.max(params.pageSize ?? 20, 1);
+    // 指定 offset 時以 offset 為準，頁數由 offset 推算
+    const offset = params.offset !== undefined ? Math.max(params.offset, 0) : (Math.max(params.page ?? 1, 1) - 1) * pageSize;
+    const currentPage = Math.floor(offset / pageSize) + 1;
+    const newestFirst = state === 'completed' || state === 'failed';
+
+    const [totalCount, ids] = await Promise.all([
+      redis.zCard(this.key(state)),
+      redis.zRange(this.key(state), offset, offset + pageSize - 1, newestFirst ? { REV: true } : undefined)
+    ]);
+    const hashes = await Promise.all(ids.map((id) => redis.hGetAll(this.jobKey(id))));
+    const totalPages = Math.ceil(totalCount / pageSize);
+
+    return {
+      data: hashes.filter((hash) => Object.keys(hash).length > 0).map((hash) => toJobInfo<TData>(hash)),
+      pagination: {
+        currentPage,
+        pageSize,
+        totalCount,
+        totalPages,
+        hasNext: offset + pageSize < totalCount,
+        hasPrevious: offset > 0
+      }
+    };
+  }
+
+  /**
+   * 取得各狀態的工作數量
+   */
+  public async getJobCounts(): Promise<Record<JobState, number>> {
+    const redis = this.getRedis();
+    const counts = await Promise.all(JOB_STATES.map((state) => redis.zCard(this.key(state))));
+    return Object.fromEntries(JOB_STATES.map((state, index) => [state, counts[index]])) as Record<JobState, number>;
+  }
+
+  /**
+   * 將失敗的工作重新排入佇列，執行次數重新計算
+   *
+   * @param id 工作 ID
+   * @returns 工作是否處於 failed 並已重新排入
+   */
+  public async retryJob(id: string): Promise<boolean> {
+    const retried = await this.getRedis().eval(RETRY_SCRIPT, {
+      keys: [this.key('failed'), this.key('waiting'), this.jobKey(id)],
+      arguments: [id]
+    });
+    if (retried === 1) {
+      this.wakeWorkers();
+    }
+    return retried === 1;
+  }
+
+  /**
+   * 移除工作；執行中的工作會在結束時因找不到租約而被忽略
+   *
+   * @param id 工作 ID
+   * @returns 工作是否存在
+   */
+  public async removeJob(id: string): Promise<boolean> {
+    const redis = this.getRedis();
+    await Promise.all(JOB_STATES.map((state) => redis.zRem(this.key(state), id)));
+    return (await redis.del(this.jobKey(id))) > 0;
+  }
+
+  /**
+   * 取得下一個工作並標記為執行中
+   *
+   * @param token 租約 token
+   * @param leaseMs 租約（毫秒）
+   * @returns 工作 hash 內容；沒有工作時為 null
+   */
+  private async moveToActive(token: string, leaseMs: number): Promise<Record<string, string> | null> {
+    const reply = await this.getRedis().eval(MOVE_TO_ACTIVE_SCRIPT, {
+      keys: [this.key('waiting'), this.key('delayed'), this.key('active'), this.jobKey('')],
+      arguments: [String(Date.now()), String(leaseMs), token]
+    }) as string[] | null;
+
+    if (!reply) {
+      return null;
+    }
+
+    const hash: Record<string, string> = {};
+    for (let i = 0; i < reply.length; i += 2) {
+      hash[reply[i]] = reply[i + 1];
+    }
+    return hash;
+  }
+
+  /**
+   * 延長租約
+   *
+   * @returns 是否仍持有租約
+   */
+  private async extendLease(id: string, token: string, leaseMs: number): Promise<boolean> {
+    const extended = await this.getRedis().eval(EXTEND_LEASE_SCRIPT, {
+      keys: [this.key('active'), this.jobKey(id)],
+      arguments: [id, token, String(Date.now() + leaseMs)]
+    });
+    return extended === 1;
+  }
+
+  /**
+   * 更新工作進度
+   */
+  private async updateProgress(id: string, progress: unknown): Promise<void> {
+    await this.getRedis().hSet(this.jobKey(id), 'progress', JSON.stringify(progress));
+  }
+
+  /**
+   * 標記工作完成
+   *
+   * @returns 是否仍持有租約並已標記
+   */
+  private async complete(id: string, token: string, result: unknown): Promise<boolean> {
+    const completed = await this.getRedis().eval(COMPLETE_SCRIPT, {
+      keys: [this.key('active'), this.key('completed'), this.jobKey(id), this.jobKey('')],
+      arguments: [id, token, JSON.stringify(result ?? null), String(Date.now()), String(this.keepCompleted)]
+    });
+    return completed === 1;
+  }
+
+  /**
+   * 標記工作失敗，尚有執行次數時依退避設定重新排入
+   *
+   * @param job 工作 hash 內容
+   * @param token 租約 token
+   * @param error 錯誤
+   * @returns 是否仍持有租約並已標記
+   */
+  private async fail(job: Record<string, string>, token: string, error: unknown): Promise<boolean> {
+    const now = Date.now();
+    const attempt = Number(job.attemptsMade) + 1;
+    const retryAt = attempt < Number(job.attempts)
+      ? now + getBackoffDelay(JSON.parse(job.backoff) as JobBackoffOptions, attempt)
+      : -1;
+
+    const failed = await this.getRedis().eval(FAIL_SCRIPT, {
+      keys: [
+        this.key('active'),
+        this.key('waiting'),
+        this.key('delayed'),
+        this.key('failed'),
+        this.jobKey(job.id),
+        this.jobKey('')
+      ],
+      arguments: [
+        job.id,
+        token,
+        error instanceof Error ? error.message : String(error),
+        String(now),
+        String(retryAt),
+        String(this.keepFailed)
+      ]
+    });
+    return failed === 1;
+  }
+
+  /**
+   * 將租約過期的工作重新排入或標記失敗
+   *
+   * @returns 處理的工作 ID
+   */
+  private async recoverStalled(): Promise<string[]> {
+    return await this.getRedis().eval(RECOVER_STALLED_SCRIPT, {
+      keys: [this.key('active'), this.key('waiting'), this.key('failed'), this.jobKey('')],
+      arguments: [String(Date.now()), String(this.keepFailed)]
+    }) as string[];
+  }
+
+  /**
+   * 排入週期性工作的下一次執行
+   *
+   * 工作 ID 由識別鍵與執行時間組成，多個實例同時排入時只會新增一次；
+   * 週期性工作已被移除時不再排入
+   *
+   * @param repeatKey 週期性工作識別鍵
+   * @param after 從此時間之後計算下一次
+   */
+  private async scheduleNextRepeat(repeatKey: string, after: number): Promise<void> {
+    const definition = await this.getRedis().hGet(this.key('repeat'), repeatKey);
+    if (definition) {
+      await this.scheduleRepeat(JSON.parse(definition) as RepeatableJob, after);
+    }
+  }
+
+  /**
+   * 確保每個週期性工作都已排入下一次執行
+   *
+   * 下一次執行在本次開始時才排入，排入失敗會讓週期中斷，因此 Worker 定期補排；
+   * 尚未執行的下一次工作 ID 相同，不會重複新增
+   */
+  private async ensureRepeatSchedules(): Promise<void> {
+    const now = Date.now();
+    for (const definition of await this.getRepeatableJobs()) {
+      await this.scheduleRepeat(definition, now);
+    }
+  }
+
+  /**
+   * 排入週期性工作在指定時間之後的下一次執行
+   */
+  private async scheduleRepeat(definition: RepeatableJob, after: number): Promise<void> {
+    const runAt = definition.cron
+      ? CronExpression.parse(definition.cron).next(new Date(after)).getTime()
+      : (Math.floor(after / definition.everyMs!) + 1) * definition.everyMs!;
+
+    await this.addJob(
+      `repeat:${definition.key}:${runAt}`,
+      definition.name,
+      definition.data as TData,
+      runAt,
+      definition.options,
+      definition.key
+    );
+  }
+
+  /**
+   * 寫入工作並喚醒本程序內的 Worker
+   */
+  private async addJob(
+    id: string,
+    name: string,
+    data: TData,
+    runAt: number,
+    options: Omit<JobOptions, 'jobId' | 'delayMs'>,
+    repeatKey: string
+  ): Promise<void> {
+    const merged = { ...this.defaultJobOptions, ...options };
+
+    await this.getRedis().eval(ADD_JOB_SCRIPT, {
+      keys: [this.jobKey(id), this.key('waiting'), this.key('delayed'), this.key('seq')],
+      arguments: [
+        id,
+        String(Date.now()),
+        String(runAt),
+        String(merged.priority ?? 0),
+        name,
+        JSON.stringify(data ?? null),
+        String(Math.max(merged.attempts ?? 1, 1)),
+        JSON.stringify(merged.backoff ?? { type: 'exponential', delayMs: 1000 }),
+        repeatKey
+      ]
+    });
+    this.wakeWorkers();
+  }
+
+  /**
+   * 喚醒本程序內的 Worker
+   */
+  private wakeWorkers(): void {
+    for (const worker of this.workers) {
+      worker.wake();
+    }
+  }
+
+  /**
+   * 取得 Redis 客戶端
+   */
+  private getRedis(): RedisClientType {
+    return redisConnectionManager.getClient(this.connectionName);
+  }
+
+  /**
+   * 佇列鍵值
+   */
+  private key(name: string): string {
+    return `${this.prefix}${name}`;
+  }
+
+  /**
+   * 工作 hash 鍵值
+   */
+  private jobKey(id: string): string {
+    return `${this.prefix}job:${id}`;
+  }
+}
+
+/**
+ * Worker 使用的佇列操作
+ */
+interface QueueWorkerBackend {
+  moveToActive(token: string, leaseMs: number): Promise<Record<string, string> | null>;
+  extendLease(id: string, token: string, leaseMs: number): Promise<boolean>;
+  updateProgress(id: string, progress: unknown): Promise<void>;
+  complete(id: string, token: string, result: unknown): Promise<boolean>;
+  fail(job: Record<string, string>, token: string, error: unknown): Promise<boolean>;
+  recoverStalled(): Promise<string[]>;
+  ensureRepeatSchedules(): Promise<void>;
+  scheduleNextRepeat(repeatKey: string, after: number): Promise<void>;
+}
+
+/**
+ * 佇列 Worker
+ *
+ * 單一取件迴圈在並行數量未滿時取得工作，佇列為空時等待輪詢間隔或被新增工作喚醒
+ */
+class QueueWorker<TData> {
+  /** 並行數量上限 */
+  private readonly concurrency: number;
+
+  /** 工作租約（毫秒） */
+  private readonly leaseMs: number;
+
+  /** 輪詢間隔（毫秒） */
+  private readonly pollIntervalMs: number;
+
+  /** 檢查租約過期工作與週期性工作排程的間隔（毫秒） */
+  private readonly stalledCheckIntervalMs: number;
+
+  /** 執行中的工作 */
+  private readonly running: Set<Promise<void>> = new Set();
+
+  /** 是否已關閉 */
+  private closed = false;
+
+  /** 取件迴圈 */
+  private loop: Promise<void> | null = null;
+
+  /** 喚醒取件迴圈 */
+  private wakeUp: (() => void) | null = null;
+
+  /** 檢查租約過期工作與週期性工作排程的計時器 */
+  private stalledTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly queueName: string,
+    private readonly queue: QueueWorkerBackend,
+    private readonly handler: JobHandler<TData>,
+    options: JobWorkerOptions
+  ) {
+    this.concurrency = Math.max(options.concurrency ?? 1, 1);
+    this.leaseMs = options.leaseMs ?? 30000;
+    this.pollIntervalMs = options.pollIntervalMs ?? 1000;
+    this.stalledCheckIntervalMs = options.stalledCheckIntervalMs ?? this.leaseMs;
+  }
+
+  /**
+   * 啟動取件迴圈與定期檢查
+   */
+  public start(): void {
+    this.loop = this.run();
+    this.stalledTimer = setInterval(() => {
+      this.queue.recoverStalled()
+        .then((ids) => {
+          if (ids.length > 0) {
+            console.warn(`Recovered ${ids.length} stalled jobs in queue ${this.queueName}`);
+            this.wake();
+          }
+        })
+        .catch((error) => console.warn(`Stalled job check failed for queue ${this.queueName}:`, error));
+      this.queue.ensureRepeatSchedules()
+        .catch((error) => console.warn(`Repeatable job check failed for queue ${this.queueName}:`, error));
+    }, this.stalledCheckIntervalMs);
+    this.stalledTimer.unref();
+  }
+
+  /**
+   * 停止取得新工作，等待執行中的工作完成
+   */
+  public async close(): Promise<void> {
+    this.closed = true;
+    if (this.stalledTimer) {
+      clearInterval(this.stalledTimer);
+    }
+    this.wake();
+    await this.loop;
+    await Promise.all(this.running);
+  }
+
+  /**
+   * 喚醒取件迴圈
+   */
+  public wake(): void {
+    this.wakeUp?.();
+  }
+
+  /**
+   * 取件迴圈
+   */
+  private async run(): Promise<void> {
+    while (!this.closed) {
+      if (this.running.size >= this.concurrency) {
+        await this.waitForWake(Promise.race(this.running));
+        continue;
+      }
+
+      const token = randomUUID();
+      let job: Record<string, string> | null = null;
+      try {
+        job = await this.queue.moveToActive(token, this.leaseMs);
+      } catch (error) {
+        console.warn(`Failed to fetch job from queue ${this.queueName}:`, error);
+      }
+
+      if (!job) {
+        await this.waitForWake(sleep(this.pollIntervalMs));
+        continue;
+      }
+
+      const execution = this.execute(job, token).finally(() => {
+        this.running.delete(execution);
+        this.wake();
+      });
+      this.running.add(execution);
+    }
+  }
+
+  /**
+   * 執行單一工作
+   */
+  private async execute(job: Record<string, string>, token: string): Promise<void> {
+    const controller = new AbortController();
+    const lease = setInterval(() => {
+      this.queue.extendLease(job.id, token, this.leaseMs)
+        .then((held) => {
+          if (!held && !controller.signal.aborted) {
+            controller.abort(new Error(`Job ${job.id} lease lost`));
+          }
+        })
+        .catch((error) => console.warn(`Failed to extend lease of job ${job.id}:`, error));
+    }, Math.max(Math.floor(this.leaseMs / 2), 1));
+    lease.unref();
+
+    if (job.repeatKey) {
+      // 開始執行時排入下一次，避免工作執行時間過長而延誤排程；失敗時由定期檢查補排
+      await this.queue.scheduleNextRepeat(job.repeatKey, Math.max(Number(job.runAt), Date.now()))
+        .catch((error) => console.warn(`Failed to schedule next run of ${job.repeatKey}:`, error));
+    }
+
+    let outcome: { ok: true; result: unknown } | { ok: false; error: unknown };
+    try {
+      const result = await this.handler({
+        id: job.id,
+        name: job.name,
+        data: JSON.parse(job.data) as TData,
+        attempts: Number(job.attempts),
+        attemptsMade: Number(job.attemptsMade),
+        createdAt: Number(job.createdAt),
+        signal: controller.signal,
+        updateProgress: (progress) => this.queue.updateProgress(job.id, progress)
+      });
+      outcome = { ok: true, result };
+    } catch (error) {
+      outcome = { ok: false, error };
+    } finally {
+      clearInterval(lease);
+    }
+
+    try {
+      let recorded: boolean;
+      if (outcome.ok) {
+        recorded = await this.queue.complete(job.id, token, outcome.result);
+      } else {
+        console.warn(`Job ${job.id} in queue ${this.queueName} failed on attempt ${Number(job.attemptsMade) + 1}/${job.attempts}:`, outcome.error);
+        recorded = await this.queue.fail(job, token, outcome.error);
+      }
+
+      if (!recorded) {
+        console.warn(`Job ${job.id} in queue ${this.queueName} finished after its lease was lost, outcome discarded`);
+      }
+    } catch (error) {
+      // 無法寫回結果時租約會過期，工作之後由 stalled 檢查重新排入
+      console.warn(`Failed to record outcome of job ${job.id} in queue ${this.queueName}:`, error);
+    }
+  }
+
+  /**
+   * 等待指定事件或被喚醒
+   */
+  private async waitForWake(event: Promise<unknown>): Promise<void> {
+    await Promise.race([
+      event,
+      new Promise<void>((resolve) => {
+        this.wakeUp = resolve;
+      })
+    ]);
+    this.wakeUp = null;
+  }
+}
+
+/**
+ * 將 Redis hash 轉為工作資訊
+ */
+function toJobInfo<TData>(hash: Record<string, string>): JobInfo<TData> {
+  return {
+    id: hash.id,
+    name: hash.name,
+    data: JSON.parse(hash.data) as TData,
+    state: hash.state as JobState,
+    priority: Number(hash.priority),
+    attempts: Number(hash.attempts),
+    attemptsMade: Number(hash.attemptsMade),
+    progress: hash.progress ? JSON.parse(hash.progress) : null,
+    result: hash.result ? JSON.parse(hash.result) : null,
+    failedReason: hash.failedReason || undefined,
+    createdAt: Number(hash.createdAt),
+    runAt: Number(hash.runAt),
+    processedAt: hash.processedAt ? Number(hash.processedAt) : undefined,
+    finishedAt: hash.finishedAt ? Number(hash.finishedAt) : undefined,
+    repeatKey: hash.repeatKey || undefined
+  };
+}
+
+/**
+ * 計算第 attempt 次失敗後的重試等待時間
+ */
+function getBackoffDelay(backoff: JobBackoffOptions, attempt: number): number {
+  return backoff.type === 'fixed' ? backoff.delayMs : backoff.delayMs * Math.pow(2, attempt - 1);
+}
+
+/**
+ * 等待指定時間
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
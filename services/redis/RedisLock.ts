@@ -0,0 +1,372 @@
+/**
+ * @fileoverview Redis 分散式鎖
+ *
+ * 以共用的具名 Redis 連線實作跨實例互斥，例如每個叢集只執行一個排程器、
+ * 每架無人機同一時間只處理一個指令。
+ *
+ * 功能特點：
+ * - SET NX PX 取得鎖，可設定等待時間與隨機抖動的重試間隔
+ * - 以 token 比對的 Lua 腳本釋放與延長，不會誤刪其他實例的鎖
+ * - withLock 執行期間自動延長租約，租約遺失時透過 AbortSignal 通知
+ * - Redis 不可用時的行為可設定：拋出錯誤（預設）或不持鎖直接執行
+ *
+ * @module RedisLock
+ * @author AIOT Team
+ * @since 1.1.0
+ * @version 1.0.0
+ */
+
+import { randomUUID } from 'crypto';
+import type { RedisClientType } from 'redis';
+import { redisConnectionManager, DEFAULT_REDIS_CONNECTION } from './RedisConnectionManager.js';
+
+/**
+ * 分散式鎖選項
+ */
+export interface RedisLockOptions {
+  /** 鎖的存活時間（毫秒），預設 30000 */
+  ttlMs?: number;
+  /** 取得鎖的最長等待時間（毫秒），0 表示只嘗試一次，預設 0 */
+  waitMs?: number;
+  /** 重試間隔（毫秒），實際等待時間會加上 ±50% 的隨機抖動，預設 100 */
+  retryDelayMs?: number;
+  /** withLock 執行期間是否自動延長租約，預設 true */
+  autoExtend?: boolean;
+  /** 自動延長的間隔（毫秒），預設為 ttlMs 的三分之一 */
+  extendIntervalMs?: number;
+  /**
+   * withLock 遇到 Redis 不可用時的行為
+   * - fail：拋出 RedisLockUnavailableError（預設，確保互斥）
+   * - run：不持鎖直接執行，適用於重複執行無害的工作
+   */
+  whenUnavailable?: 'fail' | 'run';
+}
+
+/**
+ * 分散式鎖管理器設定
+ */
+export interface RedisLockConfig extends RedisLockOptions {
+  /** 使用的具名連線，預設為 default */
+  connectionName?: string;
+  /** 鎖鍵值前綴，預設 lock: */
+  keyPrefix?: string;
+}
+
+/**
+ * 已取得的鎖
+ */
+export interface RedisLockHandle {
+  /** 鎖的完整鍵值 */
+  readonly key: string;
+  /** 鎖的擁有者 token */
+  readonly token: string;
+  /** 租約遺失（被其他實例取得或過期）時中止的訊號 */
+  readonly signal: AbortSignal;
+  /** 是否仍持有鎖（依本地紀錄判斷） */
+  isHeld(): boolean;
+  /** 延長租約，回傳是否成功 */
+  extend(ttlMs?: number): Promise<boolean>;
+  /** 釋放鎖，回傳鎖是否仍由自己持有並已刪除 */
+  release(): Promise<boolean>;
+}
+
+/**
+ * 分散式鎖錯誤基底類別
+ */
+export class RedisLockError extends Error {
+  /** 鎖的完整鍵值 */
+  public readonly key: string;
+
+  constructor(message: string, key: string) {
+    super(message);
+    this.name = 'RedisLockError';
+    this.key = key;
+  }
+}
+
+/**
+ * 等待時間內無法取得鎖
+ */
+export class RedisLockTimeoutError extends RedisLockError {
+  constructor(key: string, waitMs: number) {
+    super(`Failed to acquire lock ${key} within ${waitMs}ms`, key);
+    this.name = 'RedisLockTimeoutError';
+  }
+}
+
+/**
+ * Redis 不可用，無法判斷鎖的狀態
+ */
+export class RedisLockUnavailableError extends RedisLockError {
+  constructor(key: string, cause?: unknown) {
+    super(`Redis is unavailable, cannot lock ${key}${cause instanceof Error ? `: ${cause.message}` : ''}`, key);
+    this.name = 'RedisLockUnavailableError';
+  }
+}
+
+/**
+ * 租約已遺失
+ */
+export class RedisLockLostError extends RedisLockError {
+  constructor(key: string) {
+    super(`Lock ${key} was lost before the work finished`, key);
+    this.name = 'RedisLockLostError';
+  }
+}
+
+/** 僅在鎖仍屬於自己時才刪除的 Lua 腳本 */
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/** 僅在鎖仍屬於自己時才延長的 Lua 腳本 */
+const EXTEND_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 0
+`;
+
+/**
+ * Redis 分散式鎖
+ *
+ * @class RedisLock
+ * @since 1.1.0
+ *
+ * @example
+ * ```typescript
+ * const locks = new RedisLock({ ttlMs: 10000 });
+ *
+ * // 每架無人機同一時間只處理一個指令，最多等待 5 秒
+ * await locks.withLock(`drone:${droneId}:command`, async (lock) => {
+ *   await sendCommand(droneId, command, { signal: lock.signal });
+ * }, { waitMs: 5000 });
+ *
+ * // 每個叢集只有一個排程器，取不到鎖就略過
+ * const lock = await locks.acquire('scheduler');
+ * if (lock) {
+ *   try { await runSchedule(); } finally { await lock.release(); }
+ * }
+ * ```
+ */
+export class RedisLock {
+  /** 使用的具名連線 */
+  private readonly connectionName: string;
+
+  /** 鎖鍵值前綴 */
+  private readonly keyPrefix: string;
+
+  /** 預設選項 */
+  private readonly defaults: RedisLockOptions;
+
+  /**
+   * 建構函式
+   *
+   * @param config 分散式鎖管理器設定
+   */
+  constructor(config: RedisLockConfig = {}) {
+    const { connectionName, keyPrefix, ...defaults } = config;
+    this.connectionName = connectionName ?? DEFAULT_REDIS_CONNECTION;
+    this.keyPrefix = keyPrefix ?? 'lock:';
+    this.defaults = defaults;
+  }
+
+  /**
+   * 嘗試取得鎖
+   *
+   * @param name 鎖名稱，會加上 keyPrefix
+   * @param options 鎖選項
+   * @returns 取得的鎖；等待時間內無法取得時為 null
+   * @throws {RedisLockUnavailableError} Redis 不可用時拋出
+   */
+  public async acquire(name: string, options: RedisLockOptions = {}): Promise<RedisLockHandle | null> {
+    const { ttlMs, waitMs, retryDelayMs } = this.resolveOptions(options);
+    const key = `${this.keyPrefix}${name}`;
+    const token = randomUUID();
+    const deadline = Date.now() + waitMs;
+
+    while (true) {
+      const acquired = await this.run(key, async (redis) =>
+        (await redis.set(key, token, { NX: true, PX: ttlMs })) === 'OK'
+      );
+
+      if (acquired) {
+        return this.createHandle(key, token, ttlMs);
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        return null;
+      }
+      await sleep(Math.min(remaining, retryDelayMs * (0.5 + Math.random())));
+    }
+  }
+
+  /**
+   * 在持有鎖的情況下執行函式，結束後自動釋放
+   *
+   * 執行期間自動延長租約；若租約遺失，lock.signal 會被中止，
+   * 函式應檢查訊號並盡快停止，withLock 仍會回傳函式的結果
+   *
+   * @param name 鎖名稱，會加上 keyPrefix
+   * @param fn 要執行的函式；Redis 不可用且 whenUnavailable 為 run 時，收到的 lock 為 null
+   * @param options 鎖選項
+   * @returns 函式的回傳值
+   * @throws {RedisLockTimeoutError} 等待時間內無法取得鎖時拋出
+   * @throws {RedisLockUnavailableError} Redis 不可用且 whenUnavailable 為 fail 時拋出
+   */
+  public async withLock<T>(
+    name: string,
+    fn: (lock: RedisLockHandle | null) => Promise<T>,
+    options: RedisLockOptions = {}
+  ): Promise<T> {
+    const resolved = this.resolveOptions(options);
+    let lock: RedisLockHandle | null;
+
+    try {
+      lock = await this.acquire(name, options);
+    } catch (error) {
+      if (error instanceof RedisLockUnavailableError && resolved.whenUnavailable === 'run') {
+        console.warn(`${error.message}, running without lock`);
+        return fn(null);
+      }
+      throw error;
+    }
+
+    if (!lock) {
+      throw new RedisLockTimeoutError(`${this.keyPrefix}${name}`, resolved.waitMs);
+    }
+
+    const timer = resolved.autoExtend
+      ? setInterval(() => {
+        lock!.extend().catch(() => undefined);
+      }, resolved.extendIntervalMs)
+      : null;
+    timer?.unref();
+
+    try {
+      return await fn(lock);
+    } finally {
+      if (timer) {
+        clearInterval(timer);
+      }
+      if (lock.signal.aborted) {
+        console.warn(`Lock ${lock.key} was lost while work was running`);
+      }
+      await lock.release().catch((error) => {
+        // 釋放失敗時鎖仍會在 TTL 後過期
+        console.warn(`Failed to release lock ${lock!.key}:`, error);
+      });
+    }
+  }
+
+  /**
+   * 建立鎖的操作介面
+   *
+   * @param key 鎖的完整鍵值
+   * @param token 擁有者 token
+   * @param ttlMs 存活時間（毫秒）
+   * @returns 鎖的操作介面
+   */
+  private createHandle(key: string, token: string, ttlMs: number): RedisLockHandle {
+    const controller = new AbortController();
+    let expiresAt = Date.now() + ttlMs;
+    let released = false;
+
+    const markLost = () => {
+      if (!controller.signal.aborted) {
+        controller.abort(new RedisLockLostError(key));
+      }
+    };
+
+    return {
+      key,
+      token,
+      signal: controller.signal,
+      isHeld: () => !released && !controller.signal.aborted && Date.now() < expiresAt,
+      extend: async (extendTtlMs: number = ttlMs) => {
+        if (released || controller.signal.aborted) {
+          return false;
+        }
+
+        try {
+          const extended = await this.run(key, (redis) =>
+            redis.eval(EXTEND_SCRIPT, { keys: [key], arguments: [token, String(extendTtlMs)] })
+          );
+          if (extended === 1) {
+            expiresAt = Date.now() + extendTtlMs;
+            return true;
+          }
+          markLost();
+          return false;
+        } catch (error) {
+          // Redis 暫時不可用時，只有在租約確定到期後才視為遺失
+          if (Date.now() >= expiresAt) {
+            markLost();
+          }
+          throw error;
+        }
+      },
+      release: async () => {
+        if (released) {
+          return false;
+        }
+        released = true;
+
+        const deleted = await this.run(key, (redis) =>
+          redis.eval(RELEASE_SCRIPT, { keys: [key], arguments: [token] })
+        );
+        return deleted === 1;
+      }
+    };
+  }
+
+  /**
+   * 在 Redis 上執行操作，連線不可用或指令失敗時轉為 RedisLockUnavailableError
+   *
+   * @param key 鎖的完整鍵值
+   * @param operation Redis 操作
+   * @returns 操作結果
+   */
+  private async run<T>(key: string, operation: (redis: RedisClientType) => Promise<T>): Promise<T> {
+    if (!redisConnectionManager.isClientConnected(this.connectionName)) {
+      throw new RedisLockUnavailableError(key);
+    }
+
+    try {
+      return await operation(redisConnectionManager.getClient(this.connectionName));
+    } catch (error) {
+      throw new RedisLockUnavailableError(key, error);
+    }
+  }
+
+  /**
+   * 合併預設選項
+   *
+   * @param options 呼叫時指定的選項
+   * @returns 完整選項
+   */
+  private resolveOptions(options: RedisLockOptions): Required<RedisLockOptions> {
+    const merged = { ...this.defaults, ...options };
+    const ttlMs = merged.ttlMs ?? 30000;
+
+    return {
+      ttlMs,
+      waitMs: merged.waitMs ?? 0,
+      retryDelayMs: merged.retryDelayMs ?? 100,
+      autoExtend: merged.autoExtend ?? true,
+      extendIntervalMs: merged.extendIntervalMs ?? Math.max(Math.floor(ttlMs / 3), 1),
+      whenUnavailable: merged.whenUnavailable ?? 'fail'
+    };
+  }
+}
+
+/**
+ * 等待指定時間
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
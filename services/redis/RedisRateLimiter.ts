@@ -0,0 +1,340 @@
+/**
+ * @fileoverview Redis 速率限制器
+ *
+ * 以共用的具名 Redis 連線儲存限流狀態，所有實例共享同一份額度。
+ * 每次判斷都在單一 Lua 腳本中完成，避免並行請求互相覆寫。
+ *
+ * 提供兩種演算法：
+ * - 滑動視窗（SlidingWindowRateLimiter）：任意 windowMs 區間內最多 limit 次
+ * - 令牌桶（TokenBucketRateLimiter）：允許 capacity 的突發量，並以固定速率補充
+ *
+ * Express 中間件與 gRPC 攔截器請見 utils/rateLimit。
+ *
+ * @module RedisRateLimiter
+ * @author AIOT Team
+ * @since 1.1.0
+ * @version 1.0.0
+ */
+
+import { randomUUID } from 'crypto';
+import type { RedisClientType } from 'redis';
+import { redisConnectionManager, DEFAULT_REDIS_CONNECTION } from './RedisConnectionManager.js';
+
+/**
+ * 限流判斷結果
+ */
+export interface RateLimitResult {
+  /** 是否允許本次請求 */
+  allowed: boolean;
+  /** 額度上限 */
+  limit: number;
+  /** 剩餘額度 */
+  remaining: number;
+  /** 被拒絕時，建議多久後重試（毫秒）；允許時為 0 */
+  retryAfterMs: number;
+  /** 額度完全恢復所需時間（毫秒） */
+  resetMs: number;
+}
+
+/**
+ * 速率限制器
+ */
+export interface RateLimiter {
+  /**
+   * 消耗額度
+   *
+   * @param key 限流對象，例如 ip:10.0.0.1、user:7
+   * @param cost 本次消耗的額度，預設 1
+   */
+  consume(key: string, cost?: number): Promise<RateLimitResult>;
+}
+
+/**
+ * 速率限制器共用選項
+ */
+export interface RedisRateLimiterBaseOptions {
+  /** 使用的具名連線，預設為 default */
+  connectionName?: string;
+  /**
+   * 鍵值前綴，預設依演算法與參數產生（例如 ratelimit:sw:100:60000:），
+   * 讓不同設定的限制器即使使用相同限流對象也不會共用額度
+   */
+  keyPrefix?: string;
+  /** Redis 不可用時是否放行，預設 true（避免 Redis 故障拖垮整個 API） */
+  failOpen?: boolean;
+}
+
+/**
+ * 滑動視窗選項
+ */
+export interface SlidingWindowOptions extends RedisRateLimiterBaseOptions {
+  /** 視窗內允許的次數 */
+  limit: number;
+  /** 視窗長度（毫秒） */
+  windowMs: number;
+}
+
+/**
+ * 令牌桶選項
+ */
+export interface TokenBucketOptions extends RedisRateLimiterBaseOptions {
+  /** 桶容量，即允許的突發量 */
+  capacity: number;
+  /** 每秒補充的令牌數 */
+  refillPerSecond: number;
+}
+
+/**
+ * 滑動視窗 Lua 腳本
+ *
+ * 以 sorted set 記錄視窗內每次請求的時間
+ * KEYS[1] 視窗鍵值；ARGV[1] 目前時間（毫秒），ARGV[2] 視窗長度，ARGV[3] 上限，ARGV[4] 消耗量，ARGV[5] 唯一識別碼
+ * 回傳 { 是否允許, 剩餘額度, 重試等待毫秒 }
+ */
+const SLIDING_WINDOW_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+local cost = tonumber(ARGV[4])
+
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+
+if count + cost <= limit then
+  for i = 1, cost do
+    redis.call('ZADD', KEYS[1], now, ARGV[5] .. ':' .. i)
+  end
+  redis.call('PEXPIRE', KEYS[1], window)
+  return { 1, limit - count - cost, 0 }
+end
+
+local retryAfter = window
+local needed = count + cost - limit
+if needed <= count then
+  local entry = redis.call('ZRANGE', KEYS[1], needed - 1, needed - 1, 'WITHSCORES')
+  retryAfter = tonumber(entry[2]) + window - now
+end
+return { 0, math.max(limit - count, 0), retryAfter }
+`;
+
+/**
+ * 令牌桶 Lua 腳本
+ *
+ * 以 hash 記錄剩餘令牌與上次補充時間
+ * KEYS[1] 桶鍵值；ARGV[1] 目前時間（毫秒），ARGV[2] 容量，ARGV[3] 每毫秒補充量，ARGV[4] 消耗量
+ * 回傳 { 是否允許, 剩餘令牌（無條件捨去）, 重試等待毫秒 }
+ */
+const TOKEN_BUCKET_SCRIPT = `
+local now = tonumber(ARGV[1])
+local capacity = tonumber(ARGV[2])
+local rate = tonumber(ARGV[3])
+local cost = tonumber(ARGV[4])
+
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(state[1]) or capacity
+local ts = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(now - ts, 0) * rate)
+
+local allowed = 0
+local retryAfter = 0
+if tokens >= cost then
+  tokens = tokens - cost
+  allowed = 1
+else
+  retryAfter = math.ceil((cost - tokens) / rate)
+end
+
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', tostring(now))
+redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / rate))
+return { allowed, math.floor(tokens), retryAfter }
+`;
+
+/**
+ * Redis 速率限制器基底類別
+ *
+ * @abstract
+ * @class RedisRateLimiterBase
+ * @since 1.1.0
+ */
+abstract class RedisRateLimiterBase implements RateLimiter {
+  /** 使用的具名連線 */
+  protected readonly connectionName: string;
+
+  /** 鍵值前綴 */
+  protected readonly keyPrefix: string;
+
+  /** Redis 不可用時是否放行 */
+  protected readonly failOpen: boolean;
+
+  /**
+   * 建構函式
+   *
+   * @param options 速率限制器共用選項
+   * @param defaultKeyPrefix 預設鍵值前綴
+   */
+  constructor(options: RedisRateLimiterBaseOptions, defaultKeyPrefix: string) {
+    this.connectionName = options.connectionName ?? DEFAULT_REDIS_CONNECTION;
+    this.keyPrefix = options.keyPrefix ?? defaultKeyPrefix;
+    this.failOpen = options.failOpen ?? true;
+  }
+
+  /**
+   * 消耗額度
+   *
+   * @param key 限流對象
+   * @param cost 本次消耗的額度，預設 1
+   * @returns 限流判斷結果
+   * @throws {Error} Redis 不可用且 failOpen 為 false 時拋出
+   */
+  public async consume(key: string, cost: number = 1): Promise<RateLimitResult> {
+    try {
+      const redis = redisConnectionManager.getClient(this.connectionName);
+      const [allowed, remaining, retryAfterMs] = await this.evaluate(redis, `${this.keyPrefix}${key}`, cost);
+
+      return {
+        allowed: allowed === 1,
+        limit: this.getLimit(),
+        remaining,
+        retryAfterMs,
+        resetMs: this.getResetMs(remaining)
+      };
+    } catch (error) {
+      if (!this.failOpen) {
+        throw error;
+      }
+
+      console.warn(`Rate limiter unavailable for ${key}, allowing request:`, error);
+      return { allowed: true, limit: this.getLimit(), remaining: this.getLimit(), retryAfterMs: 0, resetMs: 0 };
+    }
+  }
+
+  /**
+   * 執行限流腳本
+   *
+   * @param redis Redis 客戶端
+   * @param key 完整鍵值
+   * @param cost 消耗量
+   * @returns [是否允許, 剩餘額度, 重試等待毫秒]
+   */
+  protected abstract evaluate(
+    redis: RedisClientType,
+    key: string,
+    cost: number
+  ): Promise<[number, number, number]>;
+
+  /**
+   * 額度上限
+   */
+  protected abstract getLimit(): number;
+
+  /**
+   * 依剩餘額度估算額度完全恢復所需時間（毫秒）
+   *
+   * @param remaining 剩餘額度
+   */
+  protected abstract getResetMs(remaining: number): number;
+}
+
+/**
+ * 滑動視窗速率限制器
+ *
+ * @class SlidingWindowRateLimiter
+ * @since 1.1.0
+ *
+ * @example
+ * ```typescript
+ * // 每個 IP 每分鐘最多 100 次
+ * const limiter = new SlidingWindowRateLimiter({ limit: 100, windowMs: 60000 });
+ * const result = await limiter.consume(`ip:${req.ip}`);
+ * ```
+ */
+export class SlidingWindowRateLimiter extends RedisRateLimiterBase {
+  /** 滑動視窗選項 */
+  private readonly options: SlidingWindowOptions;
+
+  /**
+   * 建構函式
+   *
+   * @param options 滑動視窗選項
+   */
+  constructor(options: SlidingWindowOptions) {
+    super(options, `ratelimit:sw:${options.limit}:${options.windowMs}:`);
+    this.options = options;
+  }
+
+  protected async evaluate(
+    redis: RedisClientType,
+    key: string,
+    cost: number
+  ): Promise<[number, number, number]> {
+    return await redis.eval(SLIDING_WINDOW_SCRIPT, {
+      keys: [key],
+      arguments: [
+        String(Date.now()),
+        String(this.options.windowMs),
+        String(this.options.limit),
+        String(cost),
+        randomUUID()
+      ]
+    }) as [number, number, number];
+  }
+
+  protected getLimit(): number {
+    return this.options.limit;
+  }
+
+  protected getResetMs(remaining: number): number {
+    return remaining >= this.options.limit ? 0 : this.options.windowMs;
+  }
+}
+
+/**
+ * 令牌桶速率限制器
+ *
+ * @class TokenBucketRateLimiter
+ * @since 1.1.0
+ *
+ * @example
+ * ```typescript
+ * // 每個 API key 最多突發 20 次，之後每秒補充 5 次
+ * const limiter = new TokenBucketRateLimiter({ capacity: 20, refillPerSecond: 5 });
+ * ```
+ */
+export class TokenBucketRateLimiter extends RedisRateLimiterBase {
+  /** 令牌桶選項 */
+  private readonly options: TokenBucketOptions;
+
+  /**
+   * 建構函式
+   *
+   * @param options 令牌桶選項
+   */
+  constructor(options: TokenBucketOptions) {
+    super(options, `ratelimit:tb:${options.capacity}:${options.refillPerSecond}:`);
+    this.options = options;
+  }
+
+  protected async evaluate(
+    redis: RedisClientType,
+    key: string,
+    cost: number
+  ): Promise<[number, number, number]> {
+    return await redis.eval(TOKEN_BUCKET_SCRIPT, {
+      keys: [key],
+      arguments: [
+        String(Date.now()),
+        String(this.options.capacity),
+        String(this.options.refillPerSecond / 1000),
+        String(cost)
+      ]
+    }) as [number, number, number];
+  }
+
+  protected getLimit(): number {
+    return this.options.capacity;
+  }
+
+  protected getResetMs(remaining: number): number {
+    return Math.ceil((this.options.capacity - remaining) / this.options.refillPerSecond * 1000);
+  }
+}
@@ -0,0 +1,509 @@
+/**
+ * @fileoverview Redis Sentinel 連線器
+ *
+ * 透過 Sentinel 探索目前的 master，並在故障轉移時自動切換連線。
+ * 對外提供固定不變的客戶端代理物件，內部連線切換後，
+ * 先前取得的客戶端參考仍會轉送到新的 master，呼叫端不需重新取得。
+ *
+ * 功能特點：
+ * - 依序查詢 Sentinel 的 get-master-addr-by-name 取得 master 位址
+ * - 訂閱 +switch-master 事件即時切換
+ * - master 連線錯誤時重新向 Sentinel 確認位址
+ * - 連線新的 master 時以 ROLE 確認角色，逾時或不是 master 時放棄，之後重新向 Sentinel 確認
+ * - 代理的 duplicate() 建立的連線（阻塞讀取、訂閱）也會跟著切換，並重新掛上監聽器與訂閱
+ *
+ * @module RedisSentinelConnector
+ * @author AIOT Team
+ * @since 1.1.0
+ * @version 1.1.0
+ */
+
+import { createClient } from 'redis';
+import type { RedisClientType } from 'redis';
+
+/**
+ * Redis 節點位址
+ */
+export interface RedisNodeAddress {
+  host: string;
+  port: number;
+}
+
+/**
+ * Sentinel 連線器選項
+ */
+export interface RedisSentinelConnectorOptions {
+  /** Sentinel 節點清單 */
+  sentinels: RedisNodeAddress[];
+  /** Sentinel 監控的 master 名稱 */
+  masterName: string;
+  /** master 使用者名稱 */
+  username?: string;
+  /** master 密碼 */
+  password?: string;
+  /** Sentinel 密碼 */
+  sentinelPassword?: string;
+  /** 資料庫編號 */
+  database?: number;
+  /** master 客戶端的重連策略 */
+  reconnectStrategy?: (retries: number, cause: Error) => number | Error;
+  /** 連線新的 master 的逾時時間（毫秒），預設 5000；逾時後放棄此位址，等待下次向 Sentinel 確認 */
+  connectTimeoutMs?: number;
+  /** 每當建立新的 master 客戶端時呼叫，用於掛載事件監聽器 */
+  onClient?: (client: RedisClientType) => void;
+}
+
+/** duplicate() 的參數 */
+type DuplicateOverrides = Parameters<RedisClientType['duplicate']>[0];
+
+/**
+ * 由代理 duplicate() 建立的連線，master 切換時改為連到新的 master
+ */
+interface FollowerConnection {
+  /** duplicate() 的參數，切換時沿用 */
+  overrides: DuplicateOverrides;
+  /** 目前連到 master 的實際客戶端 */
+  inner: RedisClientType;
+  /** 呼叫端掛上的事件監聽器，切換後重新掛到新的客戶端 */
+  listeners: Array<[string | symbol, (...args: any[]) => void]>;
+  /** 呼叫端的訂閱，切換後重新訂閱 */
+  subscriptions: Array<{ method: 'subscribe' | 'pSubscribe'; channels: string[]; args: any[] }>;
+  /** 呼叫端已 connect 且尚未 quit／disconnect */
+  open: boolean;
+}
+
+/** 代理在 master 尚未連線時仍可安全讀取的屬性，避免 await 或檢查狀態時拋出錯誤 */
+const DISCONNECTED_PROPERTIES: Record<string, unknown> = { then: undefined, isOpen: false, isReady: false };
+
+/**
+ * Redis Sentinel 連線器
+ *
+ * @class RedisSentinelConnector
+ * @since 1.1.0
+ */
+export class RedisSentinelConnector {
+  /** 連線器選項 */
+  private readonly options: RedisSentinelConnectorOptions;
+
+  /** 目前的 master 客戶端 */
+  private current: RedisClientType | null = null;
+
+  /** 目前的 master 位址 */
+  private currentAddress: RedisNodeAddress | null = null;
+
+  /** 訂閱 +switch-master 的 Sentinel 客戶端 */
+  private subscriber: RedisClientType | null = null;
+
+  /** 進行中的 master 檢查，避免重複切換 */
+  private checking: Promise<void> | null = null;
+
+  /** 依序執行的 master 切換，+switch-master 與錯誤檢查同時觸發時只切換一次 */
+  private switching: Promise<void> = Promise.resolve();
+
+  /** 對外提供的固定客戶端代理 */
+  private readonly proxy: RedisClientType;
+
+  /** 由代理 duplicate() 建立、需跟隨 master 切換的連線 */
+  private readonly followers: Set<FollowerConnection> = new Set();
+
+  /**
+   * 建構函式
+   *
+   * @param options Sentinel 連線器選項
+   */
+  constructor(options: RedisSentinelConnectorOptions) {
+    this.options = options;
+    this.proxy = new Proxy({} as RedisClientType, {
+      get: (_target, property) => {
+        if (property === 'duplicate') {
+          return (overrides?: DuplicateOverrides) => this.createFollower(overrides);
+        }
+        if (!this.current) {
+          if (typeof property === 'symbol' || Object.prototype.hasOwnProperty.call(DISCONNECTED_PROPERTIES, property)) {
+            return typeof property === 'symbol' ? undefined : DISCONNECTED_PROPERTIES[property];
+          }
+          throw new Error(`Redis sentinel master "${this.options.masterName}" is not connected`);
+        }
+        const value = (this.current as any)[property];
+        return typeof value === 'function' ? value.bind(this.current) : value;
+      }
+    });
+  }
+
+  /**
+   * 探索 master 並建立連線，同時訂閱故障轉移事件
+   *
+   * @returns {Promise<void>} 無返回值的 Promise
+   */
+  public async connect(): Promise<void> {
+    const address = await this.resolveMaster();
+    await this.switchMaster(address);
+    await this.subscribeSwitchMaster();
+  }
+
+  /**
+   * 取得客戶端代理，故障轉移後仍可持續使用
+   *
+   * @returns {RedisClientType} 客戶端代理
+   */
+  public getClient(): RedisClientType {
+    return this.proxy;
+  }
+
+  /**
+   * 檢查是否為目前使用中的 master 客戶端
+   *
+   * @param client Redis 客戶端
+   * @returns 是否為目前的 master 客戶端
+   */
+  public isCurrent(client: RedisClientType): boolean {
+    return this.current === client;
+  }
+
+  /**
+   * 取得目前的 master 位址
+   *
+   * @returns master 位址，尚未連線時為 null
+   */
+  public getMasterAddress(): RedisNodeAddress | null {
+    return this.currentAddress;
+  }
+
+  /**
+   * 關閉 master 與 Sentinel 連線
+   *
+   * @returns {Promise<void>} 無返回值的 Promise
+   */
+  public async disconnect(): Promise<void> {
+    const clients = [this.subscriber, this.current].filter((client): client is RedisClientType => !!client);
+    for (const follower of this.followers) {
+      follower.open = false;
+      if (follower.inner.isOpen) {
+        clients.push(follower.inner);
+      }
+    }
+    this.followers.clear();
+    this.subscriber = null;
+    this.current = null;
+    this.currentAddress = null;
+
+    await Promise.all(clients.map((client) => client.quit().catch(() => undefined)));
+  }
+
+  /**
+   * 向 Sentinel 重新確認 master 位址，位址改變時切換連線
+   *
+   * 通常在 master 連線錯誤時呼叫，同一時間只會有一個檢查在進行
+   *
+   * @returns {Promise<void>} 無返回值的 Promise
+   */
+  public checkMaster(): Promise<void> {
+    if (!this.checking) {
+      this.checking = (async () => {
+        try {
+          const address = await this.resolveMaster();
+          if (!isSameAddress(address, this.currentAddress)) {
+            await this.switchMaster(address);
+          }
+        } catch (error) {
+          console.error(`Failed to check Redis sentinel master "${this.options.masterName}":`, error);
+        } finally {
+          this.checking = null;
+        }
+      })();
+    }
+    return this.checking;
+  }
+
+  /**
+   * 依序詢問 Sentinel 取得 master 位址
+   *
+   * @returns master 位址
+   * @throws {Error} 所有 Sentinel 都無法回應時拋出錯誤
+   */
+  private async resolveMaster(): Promise<RedisNodeAddress> {
+    const errors: unknown[] = [];
+
+    for (const sentinel of this.options.sentinels) {
+      const client = this.createSentinelClient(sentinel);
+      try {
+        await client.connect();
+        const reply = await client.sendCommand<string[] | null>([
+          'SENTINEL', 'get-master-addr-by-name', this.options.masterName
+        ]);
+
+        if (reply && reply.length === 2) {
+          return { host: reply[0], port: parseInt(reply[1]) };
+        }
+        errors.push(new Error(`Sentinel ${sentinel.host}:${sentinel.port} does not know master "${this.options.masterName}"`));
+      } catch (error) {
+        errors.push(error);
+      } finally {
+        if (client.isOpen) {
+          await client.quit().catch(() => undefined);
+        }
+      }
+    }
+
+    throw new Error(`Unable to resolve Redis master "${this.options.masterName}" from sentinels: ${errors.map(String).join('; ')}`);
+  }
+
+  /**
+   * 切換到新的 master，與進行中的切換依序執行，位址未改變時略過
+   *
+   * @param address 新的 master 位址
+   * @returns {Promise<void>} 無返回值的 Promise
+   */
+  private switchMaster(address: RedisNodeAddress): Promise<void> {
+    const next = this.switching.then(() => {
+      if (!isSameAddress(address, this.currentAddress)) {
+        return this.connectMaster(address);
+      }
+    });
+    this.switching = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * 連線到新的 master 並取代目前的客戶端
+   *
+   * 首次連線在 connectTimeoutMs 內未成功時不再重試，避免無法連線的位址讓切換一直等待；
+   * 連線後以 ROLE 確認節點仍是 master，Sentinel 回報的位址可能已過時
+   *
+   * @param address 新的 master 位址
+   * @returns {Promise<void>} 無返回值的 Promise
+   * @throws {Error} 連線逾時或節點不是 master 時拋出錯誤
+   */
+  private async connectMaster(address: RedisNodeAddress): Promise<void> {
+    const connectTimeoutMs = this.options.connectTimeoutMs ?? 5000;
+    const deadline = Date.now() + connectTimeoutMs;
+    let connected = false;
+
+    const client: RedisClientType = createClient({
+      socket: {
+        host: address.host,
+        port: address.port,
+        connectTimeout: connectTimeoutMs,
+        reconnectStrategy: (retries, cause) => {
+          if (!connected && Date.now() >= deadline) {
+            return new Error(`Timed out connecting to Redis master ${address.host}:${address.port}: ${cause.message}`);
+          }
+          // 未指定時沿用 node-redis 的預設策略
+          return this.options.reconnectStrategy ? this.options.reconnectStrategy(retries, cause) : Math.min(retries * 50, 500);
+        },
+      },
+      username: this.options.username,
+      password: this.options.password,
+      database: this.options.database,
+    });
+
+    // master 連線錯誤時向 Sentinel 確認是否已故障轉移
+    client.on('error', () => {
+      if (this.current === client) {
+        this.checkMaster();
+      }
+    });
+    this.options.onClient?.(client);
+
+    await client.connect();
+    connected = true;
+
+    try {
+      const role = await client.sendCommand<unknown[]>(['ROLE']);
+      if (role[0] !== 'master') {
+        throw new Error(`Redis node ${address.host}:${address.port} is not a master (role: ${String(role[0])})`);
+      }
+    } catch (error) {
+      await client.quit().catch(() => client.disconnect().catch(() => undefined));
+      throw error;
+    }
+
+    const previous = this.current;
+    this.current = client;
+    this.currentAddress = address;
+    console.log(`Redis sentinel master "${this.options.masterName}" is ${address.host}:${address.port}`);
+
+    if (previous) {
+      previous.quit().catch(() => previous.disconnect().catch(() => undefined));
+    }
+
+    for (const follower of this.followers) {
+      this.moveFollower(follower, client);
+    }
+  }
+
+  /**
+   * 建立跟隨 master 切換的 duplicate 連線
+   *
+   * 回傳的代理會記錄 on() 監聽器與 subscribe()／pSubscribe() 訂閱，
+   * master 切換後在新的連線上重新掛上，進行中的阻塞指令會以錯誤結束，呼叫端重試時即送往新的 master
+   *
+   * @param overrides duplicate() 的參數
+   * @returns 連線代理
+   * @throws {Error} master 尚未連線時拋出錯誤
+   */
+  private createFollower(overrides?: DuplicateOverrides): RedisClientType {
+    if (!this.current) {
+      throw new Error(`Redis sentinel master "${this.options.masterName}" is not connected`);
+    }
+
+    const follower: FollowerConnection = {
+      overrides,
+      inner: this.current.duplicate(overrides),
+      listeners: [],
+      subscriptions: [],
+      open: false,
+    };
+
+    const proxy: RedisClientType = new Proxy({} as RedisClientType, {
+      get: (_target, property) => {
+        switch (property) {
+          case 'then':
+            return undefined;
+          case 'on':
+          case 'addListener':
+            return (event: string | symbol, listener: (...args: any[]) => void) => {
+              follower.listeners.push([event, listener]);
+              follower.inner.on(event, listener);
+              return proxy;
+            };
+          case 'off':
+          case 'removeListener':
+            return (event: string | symbol, listener: (...args: any[]) => void) => {
+              follower.listeners = follower.listeners.filter(([e, l]) => e !== event || l !== listener);
+              follower.inner.off(event, listener);
+              return proxy;
+            };
+          case 'connect':
+            return async () => {
+              follower.open = true;
+              this.followers.add(follower);
+              await follower.inner.connect();
+              return proxy;
+            };
+          case 'quit':
+          case 'disconnect':
+            return () => {
+              follower.open = false;
+              this.followers.delete(follower);
+              return follower.inner[property]();
+            };
+          case 'subscribe':
+          case 'pSubscribe':
+            return (channels: string | string[], ...args: any[]) => {
+              follower.subscriptions.push({ method: property, channels: ([] as string[]).concat(channels), args });
+              return (follower.inner[property] as (...a: any[]) => Promise<void>)(channels, ...args);
+            };
+          case 'unsubscribe':
+          case 'pUnsubscribe':
+            return (channels?: string | string[], ...args: any[]) => {
+              const method = property === 'unsubscribe' ? 'subscribe' : 'pSubscribe';
+              const removed = channels === undefined ? null : new Set(([] as string[]).concat(channels));
+              follower.subscriptions = follower.subscriptions.filter((subscription) =>
+                subscription.method !== method || (removed !== null && !subscription.channels.some((channel) => removed.has(channel)))
+              );
+              return (follower.inner[property] as (...a: any[]) => Promise<void>)(channels, ...args);
+            };
+          default: {
+            const value = (follower.inner as any)[property];
+            return typeof value === 'function' ? value.bind(follower.inner) : value;
+          }
+        }
+      }
+    });
+
+    return proxy;
+  }
+
+  /**
+   * 將 duplicate 連線移到新的 master，並重新掛上監聽器與訂閱
+   *
+   * @param follower duplicate 連線
+   * @param master 新的 master 客戶端
+   */
+  private moveFollower(follower: FollowerConnection, master: RedisClientType): void {
+    const previous = follower.inner;
+    const next = master.duplicate(follower.overrides);
+    for (const [event, listener] of follower.listeners) {
+      next.on(event, listener);
+    }
+    follower.inner = next;
+
+    // 先關閉舊連線，讓阻塞中的指令結束並由呼叫端重試
+    previous.disconnect().catch(() => undefined);
+
+    if (!follower.open) {
+      return;
+    }
+
+    (async () => {
+      await next.connect();
+      for (const { method, channels, args } of follower.subscriptions) {
+        await (next[method] as (...a: any[]) => Promise<void>)(channels, ...args);
+      }
+    })().catch((error) => {
+      console.error(`Failed to move duplicated connection to Redis sentinel master "${this.options.masterName}":`, error);
+    });
+  }
+
+  /**
+   * 訂閱 Sentinel 的 +switch-master 頻道
+   *
+   * 依序嘗試每個 Sentinel，第一個成功者負責通知
+   *
+   * @returns {Promise<void>} 無返回值的 Promise
+   */
+  private async subscribeSwitchMaster(): Promise<void> {
+    for (const sentinel of this.options.sentinels) {
+      const subscriber = this.createSentinelClient(sentinel, true);
+      // 訂閱連線的錯誤由其自動重連處理
+      subscriber.on('error', () => undefined);
+
+      try {
+        await subscriber.connect();
+        await subscriber.subscribe('+switch-master', (message) => {
+          // 格式：<master name> <old ip> <old port> <new ip> <new port>
+          const [masterName, , , host, port] = message.split(' ');
+          if (masterName === this.options.masterName) {
+            this.switchMaster({ host, port: parseInt(port) }).catch((error) => {
+              console.error(`Failed to switch Redis sentinel master "${masterName}":`, error);
+            });
+          }
+        });
+        this.subscriber = subscriber;
+        return;
+      } catch (error) {
+        if (subscriber.isOpen) {
+          await subscriber.quit().catch(() => undefined);
+        }
+      }
+    }
+
+    console.warn(`No sentinel available to subscribe +switch-master for "${this.options.masterName}", relying on error checks`);
+  }
+
+  /**
+   * 建立 Sentinel 客戶端
+   *
+   * @param sentinel Sentinel 位址
+   * @param reconnect 是否自動重連，一次性查詢不需要
+   * @returns Redis 客戶端
+   */
+  private createSentinelClient(sentinel: RedisNodeAddress, reconnect: boolean = false): RedisClientType {
+    return createClient({
+      socket: {
+        host: sentinel.host,
+        port: sentinel.port,
+        ...(reconnect ? {} : { reconnectStrategy: false as const }),
+      },
+      password: this.options.sentinelPassword,
+    });
+  }
+}
+
+/**
+ * 比較兩個位址是否相同
+ */
+function isSameAddress(a: RedisNodeAddress | null, b: RedisNodeAddress | null): boolean {
+  return !!a && !!b && a.host === b.host && a.port === b.port;
+}
@@ -0,0 +1,260 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { RedisClientType } from 'redis';
+import { BaseRedisService } from '../services/redis/BaseRedisService.js';
+import type { CacheLoadOptions, RedisConnectionOptions } from '../services/redis/BaseRedisService.js';
+import { redisConnectionManager } from '../services/redis/RedisConnectionManager.js';
+import { FakeRedis } from './helpers/fakeRedis.js';
+import { waitFor } from './helpers/waitFor.js';
+import { REDIS_URL, connectTestRedis } from './helpers/redisUrl.js';
+import { randomUUID } from 'node:crypto';
+
+const silentLogger = { info: () => undefined, warn: () => undefined, error: () => undefined, debug: () => undefined };
+
+class DroneCacheService extends BaseRedisService {
+  constructor(options: RedisConnectionOptions) {
+    super({ logger: silentLogger, ...options });
+  }
+
+  run<T>(operation: (redis: RedisClientType) => Promise<T>, fallback: T): Promise<T> {
+    return this.safeRedisOperation(operation, 'run', fallback);
+  }
+
+  load<T>(key: string, loader: () => Promise<T | null>, options?: CacheLoadOptions): Promise<T | null> {
+    return this.getOrLoad(key, loader, options);
+  }
+
+  store<T>(key: string, value: T, ttl?: number, tags: string[] = []): Promise<boolean> {
+    return this.setCache(key, value, ttl, tags);
+  }
+
+  invalidate(...tags: string[]): Promise<number> {
+    return this.invalidateTags(...tags);
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('BaseRedisService connection recovery', () => {
+  let redis: FakeRedis;
+  const services: BaseRedisService[] = [];
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    redis = await new FakeRedis().start();
+  });
+
+  afterEach(async () => {
+    services.splice(0).forEach((service) => service.dispose());
+    await redisConnectionManager.disconnectAll();
+  });
+
+  afterAll(async () => {
+    await redis.stop();
+    vi.restoreAllMocks();
+  });
+
+  const create = (options: RedisConnectionOptions) => {
+    const service = new DroneCacheService(options);
+    services.push(service);
+    return service;
+  };
+
+  it('starts degraded and recovers once the connection comes up, then falls back when it drops', async () => {
+    const service = create({ connectionName: 'recovering' });
+    expect(service.isRedisEnabled()).toBe(false);
+
+    await redisConnectionManager.connect('recovering', {
+      host: '127.0.0.1',
+      port: redis.port,
+      reconnect: { initialDelayMs: 10, maxDelayMs: 20 },
+    });
+    expect(service.isRedisEnabled()).toBe(true);
+
+    const port = redis.port;
+    await redis.stop();
+    await waitFor(() => !service.isRedisEnabled());
+    await expect(service.run((client) => client.get('drone:1'), 'fallback')).resolves.toBe('fallback');
+
+    await redis.start(port);
+    await waitFor(() => service.isRedisEnabled());
+    redis.data.set('drone:1', 'cached');
+    await expect(service.run((client) => client.get('drone:1'), 'fallback')).resolves.toBe('cached');
+  });
+
+  it('lets a new trial through when the half-open trial never settles', async () => {
+    await redisConnectionManager.connect('breaker', { host: '127.0.0.1', port: redis.port });
+    const service = create({
+      connectionName: 'breaker',
+      circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 20, trialTimeoutMs: 20 },
+    });
+
+    await service.run(() => Promise.reject(new Error('boom')), null);
+    expect(service.getServiceStatus().circuitState).toBe('open');
+
+    await sleep(25);
+    // 試探呼叫永遠不結束
+    void service.run(() => new Promise<string>(() => undefined), 'fallback');
+    await expect(service.run(async () => 'live', 'fallback')).resolves.toBe('fallback');
+
+    await sleep(25);
+    await expect(service.run(async () => 'after-timeout', 'fallback')).resolves.toBe('fallback');
+    expect(service.getServiceStatus().circuitState).toBe('open');
+
+    await sleep(25);
+    await expect(service.run(async () => 'recovered', 'fallback')).resolves.toBe('recovered');
+    expect(service.getServiceStatus().circuitState).toBe('closed');
+  });
+});
+
+describe('BaseRedisService getOrLoad', () => {
+  let redis: FakeRedis;
+  let service: DroneCacheService;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    redis = await new FakeRedis().start();
+    await redisConnectionManager.connect('loading', { host: '127.0.0.1', port: redis.port });
+    service = new DroneCacheService({ connectionName: 'loading' });
+  });
+
+  afterAll(async () => {
+    service.dispose();
+    await redisConnectionManager.disconnectAll();
+    await redis.stop();
+    vi.restoreAllMocks();
+  });
+
+  it('does not hand the result of a lock-less background refresh to concurrent misses', async () => {
+    // 即將過期的快取必定觸發背景刷新，而載入鎖由其他實例持有
+    redis.data.set('drone:7', JSON.stringify({ v: 'stale', d: 10, e: Date.now() - 1 }));
+    redis.data.set('drone:7:lock', 'other-instance');
+    const loader = vi.fn(async () => 'fresh');
+    // 模擬取鎖的網路延遲，讓未命中的請求在背景刷新取鎖期間發生
+    const client = redisConnectionManager.getClient('loading');
+    const set = client.set.bind(client);
+    const slowSet = vi.spyOn(client, 'set').mockImplementation((async (...args: Parameters<typeof set>) => {
+      await sleep(30);
+      return set(...args);
+    }) as typeof set);
+
+    try {
+      await expect(service.load('drone:7', loader, { lockWaitMs: 50 })).resolves.toBe('stale');
+      // 快取在背景刷新進行中被刪除，未命中的請求需自行等待鎖或載入，而不是拿到背景刷新的 null
+      redis.data.delete('drone:7');
+      await expect(service.load('drone:7', loader, { lockWaitMs: 50 })).resolves.toBe('fresh');
+      expect(loader).toHaveBeenCalledTimes(1);
+    } finally {
+      slowSet.mockRestore();
+    }
+  });
+
+  it('coalesces concurrent misses into one loader call', async () => {
+    const loader = vi.fn(async () => {
+      await sleep(20);
+      return { id: 8 };
+    });
+    redis.data.set('drone:8:lock', 'other-instance');
+
+    const results = await Promise.all([
+      service.load('drone:8', loader, { lockWaitMs: 30 }),
+      service.load('drone:8', loader, { lockWaitMs: 30 }),
+    ]);
+
+    expect(results).toEqual([{ id: 8 }, { id: 8 }]);
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(redis.data.get('drone:8')!).v).toEqual({ id: 8 });
+  });
+});
+
+describe('BaseRedisService local cache tier', () => {
+  let redis: FakeRedis;
+  let writer: DroneCacheService;
+  let reader: DroneCacheService;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    // 失效訊息的共用訂閱連線沒有關閉的 API，伺服器關閉後會持續重連到測試結束，因此不還原 console.error
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    redis = await new FakeRedis().start();
+    await redisConnectionManager.connect('tiered', { host: '127.0.0.1', port: redis.port });
+    const localCache = { maxEntries: 10, ttlMs: 60000, channel: 'test:invalidate' };
+    writer = new DroneCacheService({ connectionName: 'tiered', localCache });
+    reader = new DroneCacheService({ connectionName: 'tiered', localCache });
+  });
+
+  afterAll(async () => {
+    writer.dispose();
+    reader.dispose();
+    await redisConnectionManager.disconnectAll();
+    await redis.stop();
+  });
+
+  it('serves repeated reads locally and counts hits per tier', async () => {
+    const loader = vi.fn(async () => ({ id: 1 }));
+
+    await reader.load('drone:1', loader);
+    const gets = redis.commands.filter(([name]) => name === 'GET').length;
+    await reader.load('drone:1', loader);
+
+    expect(redis.commands.filter(([name]) => name === 'GET').length).toBe(gets);
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(reader.getCacheStats()).toMatchObject({ local: { hits: 1, misses: 1 }, redis: { hits: 0, misses: 1 } });
+  });
+
+  it('evicts local copies when another service writes or another instance publishes', async () => {
+    await reader.load('drone:2', async () => 'v1');
+    await writer.store('drone:2', 'v2');
+    await expect(reader.load('drone:2', async () => 'unused')).resolves.toBe('v2');
+
+    // 其他實例透過 Redis 頻道發出的失效訊息
+    await waitFor(() => redis.subscriberCount('test:invalidate') === 1);
+    redis.data.set('drone:2', JSON.stringify({ v: 'v3', d: 0, e: Date.now() + 60000 }));
+    redis.publish('test:invalidate', JSON.stringify({ keys: ['drone:2'], source: 'other-instance' }));
+    await waitFor(async () => (await reader.load('drone:2', async () => 'unused')) === 'v3');
+  });
+});
+
+describe.skipIf(!REDIS_URL)('BaseRedisService tags (REDIS_URL)', () => {
+  const prefix = `test:${randomUUID()}:`;
+  let service: DroneCacheService;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    await connectTestRedis('tags');
+    service = new DroneCacheService({ connectionName: 'tags' });
+  });
+
+  afterAll(async () => {
+    service.dispose();
+    await redisConnectionManager.disconnectAll();
+  });
+
+  const key = (name: string) => `${prefix}${name}`;
+  const exists = (name: string) => redisConnectionManager.getClient('tags').exists(key(name));
+
+  it('deletes every key carrying a tag and leaves other tags alone', async () => {
+    await service.store(key('drone:42:status'), 'flying', 60, [`${prefix}drone:42`]);
+    await service.store(key('drone:42:battery'), 80, 60, [`${prefix}drone:42`, `${prefix}fleet`]);
+    await service.store(key('user:7:profile'), { id: 7 }, 60, [`${prefix}user:7`, `${prefix}fleet`]);
+    await service.load(key('drone:42:route'), async () => ['a', 'b'], { tags: [`${prefix}drone:42`] });
+
+    await expect(service.invalidate(`${prefix}drone:42`)).resolves.toBe(3);
+
+    expect(await exists('drone:42:status')).toBe(0);
+    expect(await exists('drone:42:route')).toBe(0);
+    expect(await exists('user:7:profile')).toBe(1);
+    // 其他標籤集合仍保有已刪除的鍵值，清除時再次刪除不影響結果
+    await expect(service.invalidate(`${prefix}fleet`)).resolves.toBe(2);
+    expect(await exists('user:7:profile')).toBe(0);
+  });
+
+  it('skips members whose cache entry already expired', async () => {
+    await service.store(key('short'), 'x', 1, [`${prefix}expiring`]);
+    await service.store(key('long'), 'y', 60, [`${prefix}expiring`]);
+    await sleep(1100);
+
+    await expect(service.invalidate(`${prefix}expiring`)).resolves.toBe(1);
+    expect(await redisConnectionManager.getClient('tags').exists(`cache:tag:${prefix}expiring`)).toBe(0);
+  });
+});
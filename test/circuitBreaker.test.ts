@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CircuitBreaker, type CircuitState } from '../patterns/CircuitBreaker.js';
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const open = (breaker: CircuitBreaker, failures: number) => {
+    for (let i = 0; i < failures; i++) {
+      expect(breaker.canExecute()).toBe(true);
+      breaker.recordFailure();
+    }
+  };
+
+  it('opens after the failure threshold and lets one trial through after the cooldown', () => {
+    const states: CircuitState[] = [];
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 1000, onStateChange: (state) => states.push(state) });
+
+    open(breaker, 2);
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.canExecute()).toBe(false);
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.canExecute()).toBe(true);
+    expect(breaker.canExecute()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+    expect(states).toEqual(['open', 'half-open', 'closed']);
+  });
+
+  it('reopens when the half-open trial fails', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000 });
+
+    open(breaker, 1);
+    vi.advanceTimersByTime(1000);
+    expect(breaker.canExecute()).toBe(true);
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.canExecute()).toBe(false);
+  });
+
+  it('treats a trial that never settles as failed after trialTimeoutMs', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000, trialTimeoutMs: 500 });
+
+    open(breaker, 1);
+    vi.advanceTimersByTime(1000);
+    expect(breaker.canExecute()).toBe(true);
+
+    // 試探呼叫一直沒有回報結果
+    vi.advanceTimersByTime(499);
+    expect(breaker.canExecute()).toBe(false);
+    expect(breaker.getState()).toBe('half-open');
+
+    vi.advanceTimersByTime(1);
+    expect(breaker.canExecute()).toBe(false);
+    expect(breaker.getState()).toBe('open');
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.canExecute()).toBe(true);
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('defaults the trial timeout to the reset timeout', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000 });
+
+    open(breaker, 1);
+    vi.advanceTimersByTime(1000);
+    expect(breaker.canExecute()).toBe(true);
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.canExecute()).toBe(false);
+    vi.advanceTimersByTime(1000);
+    expect(breaker.canExecute()).toBe(true);
+  });
+});
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  ConsulAuthError,
+  ConsulHelper,
+  ConsulUnreachableError,
+  type ConsulServiceChange,
+} from '../utils/consul.js';
+import { FakeConsul } from './helpers/fakeConsul.js';
+import { waitFor } from './helpers/waitFor.js';
+
+describe('ConsulHelper.watchService', () => {
+  let consul: FakeConsul;
+  let controller: AbortController;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    consul = await new FakeConsul().start();
+    controller = new AbortController();
+  });
+
+  afterEach(async () => {
+    controller.abort();
+    await consul.stop();
+    vi.restoreAllMocks();
+  });
+
+  it('emits added and removed instances from blocking queries', async () => {
+    consul.setService('drone-service', [{ id: 'a', address: '10.0.0.1', port: 50051 }]);
+    const helper = new ConsulHelper('127.0.0.1', consul.port);
+    const changes: ConsulServiceChange[] = [];
+
+    const watching = helper.watchService('drone-service', (change) => changes.push(change), {
+      signal: controller.signal,
+    });
+
+    await waitFor(() => changes.length === 1);
+    expect(changes[0].added.map((instance) => instance.id)).toEqual(['a']);
+
+    consul.setService('drone-service', [{ id: 'b', address: '10.0.0.2', port: 50051 }]);
+    await waitFor(() => changes.length === 2);
+    expect(changes[1].added.map((instance) => instance.id)).toEqual(['b']);
+    expect(changes[1].removed.map((instance) => instance.id)).toEqual(['a']);
+
+    const blockingQuery = consul.requestsTo('/v1/health/service/drone-service').at(-1)!;
+    expect(blockingQuery.query.get('index')).toBe(String(changes[1].index));
+    expect(blockingQuery.query.has('wait')).toBe(true);
+
+    controller.abort();
+    await expect(watching).resolves.toBeUndefined();
+  });
+
+  it('serves getServiceEndpoint from the watched instances', async () => {
+    consul.setService('drone-service', [{ id: 'a', address: '10.0.0.1', port: 50051 }]);
+    const helper = new ConsulHelper('127.0.0.1', consul.port);
+    let ready = false;
+
+    helper.watchService('drone-service', () => (ready = true), { signal: controller.signal });
+    await waitFor(() => ready);
+
+    const before = consul.requests.length;
+    await expect(helper.getServiceEndpoint('drone-service')).resolves.toEqual({ address: '10.0.0.1', port: 50051 });
+    expect(consul.requests.length).toBe(before);
+  });
+
+  it('backs off and recovers after errors', async () => {
+    consul.setService('drone-service', [{ id: 'a', address: '10.0.0.1', port: 50051 }]);
+    consul.failNext = [500, 500];
+    const helper = new ConsulHelper('127.0.0.1', consul.port);
+    const changes: ConsulServiceChange[] = [];
+
+    helper.watchService('drone-service', (change) => changes.push(change), {
+      signal: controller.signal,
+      minBackoffMs: 20,
+      maxBackoffMs: 40,
+    });
+
+    await waitFor(() => changes.length === 1);
+    // 兩次失敗後的第三次查詢成功，之後進入阻塞查詢
+    expect(consul.requestsTo('/v1/health/service/drone-service').length).toBeGreaterThanOrEqual(3);
+    expect(consul.failNext).toEqual([]);
+  });
+});
+
+describe('ConsulHelper requests', () => {
+  let consul: FakeConsul;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    consul = await new FakeConsul().start();
+  });
+
+  afterEach(async () => {
+    await consul.stop();
+    vi.restoreAllMocks();
+  });
+
+  it('sends the ACL token, datacenter and namespace', async () => {
+    const helper = new ConsulHelper('127.0.0.1', consul.port, { token: 'secret', datacenter: 'dc2', namespace: 'aiot' });
+
+    await helper.discoverService('drone-service');
+    await helper.deregisterService('drone-1');
+
+    const [discover, deregister] = consul.requests;
+    expect(discover.headers['x-consul-token']).toBe('secret');
+    expect(discover.query.get('dc')).toBe('dc2');
+    expect(discover.query.get('ns')).toBe('aiot');
+    // agent 端點不帶 dc
+    expect(deregister.query.has('dc')).toBe(false);
+    expect(deregister.query.get('ns')).toBe('aiot');
+  });
+
+  it('separates auth failures from unreachable agents', async () => {
+    consul.failNext = [403];
+    await expect(new ConsulHelper('127.0.0.1', consul.port).discoverService('drone-service'))
+      .rejects.toBeInstanceOf(ConsulAuthError);
+
+    const port = consul.port;
+    await consul.stop();
+    await expect(new ConsulHelper('127.0.0.1', port).discoverService('drone-service'))
+      .rejects.toBeInstanceOf(ConsulUnreachableError);
+    consul = await new FakeConsul().start();
+  });
+});
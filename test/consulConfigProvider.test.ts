@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConsulConfigProvider, type ConfigChangeEvent } from '../configs/ConsulConfigProvider.js';
+import { ConsulHelper } from '../utils/consul.js';
+import { ValidationRules, type ValidationError } from '../utils/validation.js';
+import { FakeConsul } from './helpers/fakeConsul.js';
+import { waitFor } from './helpers/waitFor.js';
+
+const defaults = {
+  redisHost: 'aiot-redis',
+  redisDb: 0,
+  cacheTTL: 3600,
+  enableTelemetryCache: true,
+};
+
+describe('ConsulConfigProvider', () => {
+  let consul: FakeConsul;
+  let provider: ConsulConfigProvider<typeof defaults>;
+  let logs: { info: string[]; error: string[] };
+
+  beforeEach(async () => {
+    consul = await new FakeConsul().start();
+    logs = { info: [], error: [] };
+    provider = new ConsulConfigProvider({
+      consul: new ConsulHelper('127.0.0.1', consul.port),
+      prefix: 'config/drone-service/',
+      defaults,
+      rules: [{ field: 'redisHost', rules: [ValidationRules.required()] }],
+      logger: {
+        info: (message) => logs.info.push(message),
+        error: (message) => logs.error.push(message),
+      },
+    });
+  });
+
+  afterEach(async () => {
+    provider.stop();
+    await consul.stop();
+  });
+
+  it('merges typed KV values over the defaults', async () => {
+    consul.setKey('config/drone-service/cacheTTL', '120');
+    consul.setKey('config/drone-service/enableTelemetryCache', 'false');
+    await provider.start();
+
+    expect(provider.getConfig()).toEqual({ ...defaults, cacheTTL: 120, enableTelemetryCache: false });
+  });
+
+  it('emits change events for hot reloads and falls back to defaults for deleted keys', async () => {
+    await provider.start();
+    const events: ConfigChangeEvent<typeof defaults>[] = [];
+    provider.on('change', (event) => events.push(event));
+
+    consul.setKey('config/drone-service/redisDb', '2');
+    await waitFor(() => events.length === 1);
+    expect(events[0].changedKeys).toEqual(['redisDb']);
+    expect(provider.get('redisDb')).toBe(2);
+
+    consul.deleteKey('config/drone-service/redisDb');
+    await waitFor(() => events.length === 2);
+    expect(provider.get('redisDb')).toBe(0);
+  });
+
+  it('rejects values that do not match the default type and keeps the last good config', async () => {
+    consul.setKey('config/drone-service/cacheTTL', '120');
+    await provider.start();
+    const invalid: ValidationError[][] = [];
+    provider.on('invalid', (errors) => invalid.push(errors));
+
+    consul.setKey('config/drone-service/cacheTTL', 'two minutes');
+    await waitFor(() => invalid.length === 1);
+    expect(invalid[0]).toEqual([{ field: 'cacheTTL', message: 'Expected number', code: 'validation.number' }]);
+    expect(provider.get('cacheTTL')).toBe(120);
+
+    consul.setKey('config/drone-service/cacheTTL', '60');
+    consul.setKey('config/drone-service/enableTelemetryCache', 'maybe');
+    await waitFor(() => invalid.length === 2);
+    expect(invalid[1].map((error) => error.field)).toEqual(['enableTelemetryCache']);
+    expect(provider.getConfig()).toEqual({ ...defaults, cacheTTL: 120 });
+    expect(logs.error[0]).toBe('Invalid config under config/drone-service/:');
+  });
+
+  it('runs the validation rules before applying', async () => {
+    consul.setKey('config/drone-service/redisHost', '');
+    const invalid: ValidationError[][] = [];
+    provider.on('invalid', (errors) => invalid.push(errors));
+    await provider.start();
+
+    expect(invalid[0].map((error) => error.code)).toEqual(['validation.required']);
+    expect(provider.get('redisHost')).toBe('aiot-redis');
+  });
+
+  it('ignores keys that are not declared in the defaults', async () => {
+    consul.setKey('config/drone-service/unknownFlag', 'true');
+    await provider.start();
+
+    expect(provider.getConfig()).toEqual(defaults);
+    expect(logs.info).toContain('Ignoring undeclared config keys under config/drone-service/: unknownFlag');
+  });
+
+  it('keeps the defaults and logs through the injected logger when Consul is unreachable', async () => {
+    const port = consul.port;
+    await consul.stop();
+    const offline = new ConsulConfigProvider({
+      consul: new ConsulHelper('127.0.0.1', port),
+      prefix: 'config/drone-service/',
+      defaults,
+      logger: { info: () => undefined, error: (message) => logs.error.push(message) },
+    });
+
+    // ConsulHelper 本身仍以 console 記錄請求失敗
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    await offline.start();
+    offline.stop();
+    vi.restoreAllMocks();
+
+    expect(offline.getConfig()).toEqual(defaults);
+    expect(logs.error[0]).toBe('Failed to load config from Consul prefix config/drone-service/, using defaults:');
+    consul = await new FakeConsul().start();
+  });
+});
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConsulHelper } from '../utils/consul.js';
+import { ConsulRegistrationManager } from '../utils/consulRegistration.js';
+import { FakeConsul } from './helpers/fakeConsul.js';
+import { waitFor } from './helpers/waitFor.js';
+
+const serviceConfig = {
+  serviceName: 'drone-service',
+  serviceId: 'drone-service-1',
+  address: '127.0.0.1',
+  port: 50051,
+  check: { ttl: '15s', deregisterCriticalServiceAfter: '1m' },
+};
+
+describe('ConsulRegistrationManager', () => {
+  let consul: FakeConsul;
+  let registration: ConsulRegistrationManager;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    consul = await new FakeConsul().start();
+  });
+
+  afterEach(async () => {
+    await registration?.stop();
+    await consul.stop();
+    vi.restoreAllMocks();
+  });
+
+  it('registers with a TTL check and keeps it passing', async () => {
+    registration = new ConsulRegistrationManager(new ConsulHelper('127.0.0.1', consul.port), serviceConfig, {
+      heartbeatIntervalMs: 20,
+      handleSignals: false,
+    });
+    await registration.start();
+
+    expect(consul.registered.get('drone-service-1').Check).toMatchObject({ TTL: '15s', DeregisterCriticalServiceAfter: '1m' });
+    expect(consul.registered.get('drone-service-1').Check.Interval).toBeUndefined();
+    await waitFor(() => (consul.passes.get('service:drone-service-1') || 0) >= 3);
+  });
+
+  it('re-registers after the agent loses the registration', async () => {
+    registration = new ConsulRegistrationManager(new ConsulHelper('127.0.0.1', consul.port), serviceConfig, {
+      heartbeatIntervalMs: 20,
+      handleSignals: false,
+    });
+    await registration.start();
+
+    consul.restartAgent();
+    await waitFor(() => consul.registered.has('drone-service-1'));
+  });
+
+  it('deregisters on SIGTERM without exiting the process by default', async () => {
+    const exit = vi.spyOn(process, 'exit').mockImplementation((() => undefined) as any);
+    registration = new ConsulRegistrationManager(new ConsulHelper('127.0.0.1', consul.port), serviceConfig);
+    await registration.start();
+
+    process.emit('SIGTERM', 'SIGTERM');
+    await waitFor(() => !consul.registered.has('drone-service-1'));
+
+    expect(registration.isRegistered()).toBe(false);
+    expect(process.listeners('SIGTERM')).toHaveLength(0);
+    expect(exit).not.toHaveBeenCalled();
+  });
+
+  it('exits after deregistering when exitOnSignal is enabled', async () => {
+    const exit = vi.spyOn(process, 'exit').mockImplementation((() => undefined) as any);
+    registration = new ConsulRegistrationManager(new ConsulHelper('127.0.0.1', consul.port), serviceConfig, {
+      exitOnSignal: true,
+    });
+    await registration.start();
+
+    process.emit('SIGINT', 'SIGINT');
+    await waitFor(() => exit.mock.calls.length === 1);
+    expect(consul.registered.has('drone-service-1')).toBe(false);
+  });
+});
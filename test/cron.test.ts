@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { CronExpression } from '../utils/cron.js';
+
+/** 以本地時間建立日期，與 CronExpression 的時區一致 */
+const at = (year: number, month: number, day: number, hour = 0, minute = 0, second = 0) =>
+  new Date(year, month - 1, day, hour, minute, second);
+
+const runs = (expression: string, after: Date, count: number) => {
+  const cron = CronExpression.parse(expression);
+  const result: Date[] = [];
+  let current = after;
+  for (let i = 0; i < count; i++) {
+    current = cron.next(current);
+    result.push(current);
+  }
+  return result;
+};
+
+describe('CronExpression', () => {
+  it('parses ranges, steps and lists', () => {
+    expect(runs('0-30/10 9-10 * * *', at(2026, 3, 10, 8, 59), 5)).toEqual([
+      at(2026, 3, 10, 9, 0),
+      at(2026, 3, 10, 9, 10),
+      at(2026, 3, 10, 9, 20),
+      at(2026, 3, 10, 9, 30),
+      at(2026, 3, 10, 10, 0),
+    ]);
+    expect(runs('5,35 */12 * * *', at(2026, 3, 10, 0, 5), 3)).toEqual([
+      at(2026, 3, 10, 0, 35),
+      at(2026, 3, 10, 12, 5),
+      at(2026, 3, 10, 12, 35),
+    ]);
+    expect(runs('50/5 0 * * *', at(2026, 3, 10), 3)).toEqual([
+      at(2026, 3, 10, 0, 50),
+      at(2026, 3, 10, 0, 55),
+      at(2026, 3, 11, 0, 50),
+    ]);
+  });
+
+  it('accepts month and weekday names in any case', () => {
+    expect(CronExpression.parse('0 12 * JAN,jul MON-FRI').next(at(2026, 6, 30))).toEqual(at(2026, 7, 1, 12));
+    expect(CronExpression.parse('0 12 1 Feb-Mar *').next(at(2026, 3, 2))).toEqual(at(2027, 2, 1, 12));
+  });
+
+  it('rejects invalid expressions', () => {
+    for (const expression of [
+      '* * * *',
+      '* * * * * *',
+      '60 * * * *',
+      '* 24 * * *',
+      '* * 0 * *',
+      '* * * 13 *',
+      '* * * * 8',
+      '5-1 * * * *',
+      '*/0 * * * *',
+      'a * * * *',
+      '* * * FOO *',
+      '* * * * MON-XYZ',
+      '* * * * JAN',
+      '1,,2 * * * *',
+    ]) {
+      expect(() => CronExpression.parse(expression), expression).toThrow(/Invalid cron expression/);
+    }
+  });
+
+  it('starts from the next whole minute', () => {
+    expect(CronExpression.parse('* * * * *').next(at(2026, 3, 10, 10, 0, 30))).toEqual(at(2026, 3, 10, 10, 1));
+    expect(CronExpression.parse('0 10 * * *').next(at(2026, 3, 10, 10, 0))).toEqual(at(2026, 3, 11, 10, 0));
+  });
+
+  it('rolls over month and year ends', () => {
+    expect(CronExpression.parse('0 0 31 * *').next(at(2026, 4, 1))).toEqual(at(2026, 5, 31));
+    expect(CronExpression.parse('0 0 1 1 *').next(at(2026, 12, 31, 23, 59))).toEqual(at(2027, 1, 1));
+    expect(CronExpression.parse('30 23 31 12 *').next(at(2026, 12, 31, 23, 30))).toEqual(at(2027, 12, 31, 23, 30));
+    expect(CronExpression.parse('0 0 29 2 *').next(at(2026, 3, 1))).toEqual(at(2028, 2, 29));
+  });
+
+  it('throws when no run time exists', () => {
+    expect(() => CronExpression.parse('0 0 30 2 *').next(at(2026, 1, 1))).toThrow(/no upcoming run time/);
+  });
+
+  it('treats both 0 and 7 as Sunday', () => {
+    const sunday = at(2026, 1, 4);
+
+    expect(CronExpression.parse('0 0 * * 0').next(at(2026, 1, 1))).toEqual(sunday);
+    expect(CronExpression.parse('0 0 * * 7').next(at(2026, 1, 1))).toEqual(sunday);
+    expect(CronExpression.parse('0 0 * * SUN').next(at(2026, 1, 1))).toEqual(sunday);
+    expect(runs('0 0 * * 5-7', at(2026, 1, 1), 3)).toEqual([at(2026, 1, 2), at(2026, 1, 3), at(2026, 1, 4)]);
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // 1 日、15 日或星期一
+    expect(runs('0 0 1,15 * 1', at(2026, 1, 1), 4)).toEqual([
+      at(2026, 1, 5),
+      at(2026, 1, 12),
+      at(2026, 1, 15),
+      at(2026, 1, 19),
+    ]);
+  });
+
+  it('requires both day fields when either starts with *', () => {
+    // 奇數日且為星期一，2026-01-03（星期六）不符合
+    expect(runs('0 0 */2 * 1', at(2026, 1, 1), 2)).toEqual([at(2026, 1, 5), at(2026, 1, 19)]);
+    // 週欄位以 * 開頭（*/1），只看 1 到 10 日
+    expect(runs('0 0 1-10 * */1', at(2026, 1, 9), 2)).toEqual([at(2026, 1, 10), at(2026, 2, 1)]);
+    expect(CronExpression.parse('0 0 13 * *').next(at(2026, 1, 1))).toEqual(at(2026, 1, 13));
+    expect(CronExpression.parse('0 0 * * 5').next(at(2026, 1, 1))).toEqual(at(2026, 1, 2));
+  });
+});
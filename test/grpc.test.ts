@@ -0,0 +1,214 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as grpc from '@grpc/grpc-js';
+import {
+  GrpcClientManager,
+  GrpcErrorHandler,
+  GrpcHealthCheck,
+  GrpcStatus,
+  grpcStatusToHttp,
+  httpStatusToGrpc,
+} from '../utils/grpc.js';
+import { ResResult } from '../utils/ResResult.js';
+import { ECHO_SERVICE, startEchoServer, unary, type EchoServer } from './helpers/echoServer.js';
+import { waitFor } from './helpers/waitFor.js';
+
+describe('GrpcClientManager', () => {
+  let echo: EchoServer;
+  let manager: GrpcClientManager;
+
+  beforeAll(async () => {
+    echo = await startEchoServer();
+  });
+
+  afterAll(async () => {
+    await echo.stop();
+  });
+
+  afterEach(() => {
+    manager?.closeAllClients();
+    vi.restoreAllMocks();
+  });
+
+  it('builds a client from the proto and makes a unary call', async () => {
+    manager = new GrpcClientManager();
+    const client = await manager.createClient({ ...ECHO_SERVICE, host: '127.0.0.1', port: echo.port });
+
+    await expect(unary(client, 'Echo', { message: 'hello' })).resolves.toEqual({ message: 'hello', served_by: 'echo' });
+  });
+
+  it('caches clients under serviceName, host and port', async () => {
+    manager = new GrpcClientManager();
+    const config = { ...ECHO_SERVICE, host: '127.0.0.1', port: echo.port };
+    const client = await manager.createClient(config);
+
+    expect(await manager.createClient(config)).toBe(client);
+    expect(manager.getClient(ECHO_SERVICE.serviceName, '127.0.0.1', echo.port)).toBe(client);
+
+    manager.closeAllClients();
+    expect(manager.getClient(ECHO_SERVICE.serviceName, '127.0.0.1', echo.port)).toBeNull();
+  });
+
+  it('applies deadlineMs to calls without their own deadline', async () => {
+    manager = new GrpcClientManager();
+    const client = await manager.createClient({ ...ECHO_SERVICE, host: '127.0.0.1', port: echo.port, deadlineMs: 50 });
+
+    await expect(unary(client, 'Echo', { message: 'slow', delay_ms: 500 })).rejects.toMatchObject({
+      code: GrpcStatus.DEADLINE_EXCEEDED,
+    });
+    await expect(
+      unary(client, 'Echo', { message: 'slow', delay_ms: 100 }, { deadline: Date.now() + 2000 })
+    ).resolves.toMatchObject({ message: 'slow' });
+  });
+
+  it('passes channel options to the channel', async () => {
+    manager = new GrpcClientManager();
+    const client = await manager.createClient({
+      ...ECHO_SERVICE,
+      host: '127.0.0.1',
+      port: echo.port,
+      channelOptions: { 'grpc.max_receive_message_length': 16 },
+    });
+
+    await expect(unary(client, 'Echo', { message: 'x'.repeat(64) })).rejects.toMatchObject({
+      code: GrpcStatus.RESOURCE_EXHAUSTED,
+    });
+  });
+
+  it('rejects unknown packages and services', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    manager = new GrpcClientManager();
+
+    await expect(manager.createClient({ ...ECHO_SERVICE, serviceName: 'MissingService', port: echo.port }))
+      .rejects.toThrow('Service aiot.test.v1.MissingService not found');
+    expect(() => GrpcClientManager.loadServiceClient({ ...ECHO_SERVICE, packageName: 'aiot.other' }))
+      .toThrow('not found');
+  });
+
+  it('creates TLS credentials when tls is configured', () => {
+    expect(GrpcClientManager.createCredentials()._isSecure()).toBe(false);
+    expect(GrpcClientManager.createCredentials({})._isSecure()).toBe(true);
+    expect(GrpcClientManager.createCredentials({}) instanceof grpc.ChannelCredentials).toBe(true);
+  });
+});
+
+describe('GrpcHealthCheck', () => {
+  let server: grpc.Server;
+  let health: GrpcHealthCheck;
+  let client: any;
+
+  beforeEach(async () => {
+    health = new GrpcHealthCheck();
+    server = new grpc.Server();
+    health.addToServer(server);
+    const port = await new Promise<number>((resolve, reject) => {
+      server.bindAsync('127.0.0.1:0', grpc.ServerCredentials.createInsecure(), (error, boundPort) =>
+        error ? reject(error) : resolve(boundPort)
+      );
+    });
+    const HealthClient = grpc.makeGenericClientConstructor(GrpcHealthCheck.serviceDefinition, 'Health');
+    client = new HealthClient(`127.0.0.1:${port}`, grpc.credentials.createInsecure());
+  });
+
+  afterEach(async () => {
+    health.shutdown();
+    client.close();
+    await new Promise<void>((resolve) => server.tryShutdown(() => resolve()));
+  });
+
+  it('answers Check per service', async () => {
+    health.setStatus('aiot.drone.DroneService', 'NOT_SERVING');
+
+    await expect(unary(client, 'Check', { service: '' })).resolves.toEqual({ status: 'SERVING' });
+    await expect(unary(client, 'Check', { service: 'aiot.drone.DroneService' })).resolves.toEqual({ status: 'NOT_SERVING' });
+    await expect(unary(client, 'Check', { service: 'unknown' })).rejects.toMatchObject({ code: GrpcStatus.NOT_FOUND });
+  });
+
+  it('pushes status changes to Watch streams and ends them on shutdown', async () => {
+    health.setStatus('aiot.drone.DroneService', 'SERVING');
+    const statuses: string[] = [];
+    const call = client.Watch({ service: 'aiot.drone.DroneService' });
+    call.on('data', (response: { status: string }) => statuses.push(response.status));
+    const ended = new Promise((resolve) => call.on('end', resolve));
+
+    await waitFor(() => statuses.length === 1);
+    health.setStatus('aiot.drone.DroneService', 'NOT_SERVING');
+    health.setStatus('aiot.drone.DroneService', 'SERVING');
+    await waitFor(() => statuses.length === 3);
+
+    health.shutdown();
+    await ended;
+    expect(statuses).toEqual(['SERVING', 'NOT_SERVING', 'SERVING', 'NOT_SERVING']);
+    expect(health.getStatus('')).toBe('NOT_SERVING');
+  });
+
+  it('reports SERVICE_UNKNOWN on Watch for services without status', async () => {
+    const call = client.Watch({ service: 'later' });
+    call.on('error', () => undefined);
+    const first = await new Promise<{ status: string }>((resolve) => call.once('data', resolve));
+    expect(first.status).toBe('SERVICE_UNKNOWN');
+    call.cancel();
+  });
+
+  it('follows Redis availability', async () => {
+    const redisService = { available: true, getServiceStatus() { return { redisAvailable: this.available }; } };
+    health.monitorRedis('aiot.drone.DroneService', redisService, 10);
+    expect(health.getStatus('aiot.drone.DroneService')).toBe('SERVING');
+
+    redisService.available = false;
+    await waitFor(() => health.getStatus('aiot.drone.DroneService') === 'NOT_SERVING');
+  });
+});
+
+describe('GrpcErrorHandler', () => {
+  it('maps gRPC errors to ResResult and restores data from metadata', () => {
+    const metadata = new grpc.Metadata();
+    metadata.set(GrpcErrorHandler.DATA_METADATA_KEY, JSON.stringify({ droneId: 42 }));
+
+    const result = GrpcErrorHandler.toResResult({ code: GrpcStatus.NOT_FOUND, details: 'Drone not found', metadata });
+
+    expect(result).toMatchObject({ status: 404, message: 'Drone not found', data: { droneId: 42 } });
+    expect(GrpcErrorHandler.toResResult({ code: GrpcStatus.UNAUTHENTICATED }).status).toBe(401);
+  });
+
+  it('round-trips ResResult without mutating the caller metadata', () => {
+    const metadata = new grpc.Metadata();
+    metadata.set('x-request-id', 'abc');
+
+    const error = GrpcErrorHandler.fromResResult(ResResult.badRequest('Invalid drone', { field: 'id' }), metadata);
+
+    expect(error.code).toBe(GrpcStatus.INVALID_ARGUMENT);
+    expect(error.metadata.get('x-request-id')).toEqual(['abc']);
+    expect(metadata.get(GrpcErrorHandler.DATA_METADATA_KEY)).toEqual([]);
+    expect(GrpcErrorHandler.toResResult(error)).toMatchObject({ status: 400, message: 'Invalid drone', data: { field: 'id' } });
+  });
+
+  it('maps thrown errors to gRPC status codes', () => {
+    expect(GrpcErrorHandler.fromError({ code: GrpcStatus.ALREADY_EXISTS, details: 'exists' })).toMatchObject({
+      code: GrpcStatus.ALREADY_EXISTS,
+      details: 'exists',
+    });
+    expect(GrpcErrorHandler.fromError(Object.assign(new Error('Forbidden'), { status: 403 })).code).toBe(GrpcStatus.PERMISSION_DENIED);
+    expect(GrpcErrorHandler.fromError(new Error('boom')).code).toBe(GrpcStatus.INTERNAL);
+  });
+
+  it('never produces an error with status OK', () => {
+    expect(GrpcErrorHandler.fromError({ code: GrpcStatus.OK, message: 'odd' }).code).toBe(GrpcStatus.UNKNOWN);
+    expect(GrpcErrorHandler.fromResResult(ResResult.success('ok')).code).toBe(GrpcStatus.UNKNOWN);
+  });
+
+  it('logs through the injected logger', () => {
+    const logger = { info: vi.fn(), error: vi.fn() };
+    GrpcErrorHandler.setLogger(logger);
+
+    GrpcErrorHandler.handleError({ code: GrpcStatus.INTERNAL, message: 'boom' });
+
+    expect(logger.error).toHaveBeenCalledWith('gRPC Error:', { code: GrpcStatus.INTERNAL, message: 'boom', details: undefined });
+    GrpcErrorHandler.setLogger(console);
+  });
+
+  it('converts between gRPC and HTTP status codes', () => {
+    expect(grpcStatusToHttp(GrpcStatus.RESOURCE_EXHAUSTED)).toBe(429);
+    expect(httpStatusToGrpc(503)).toBe(GrpcStatus.UNAVAILABLE);
+    expect(httpStatusToGrpc(422)).toBe(GrpcStatus.FAILED_PRECONDITION);
+  });
+});
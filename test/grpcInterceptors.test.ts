@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import * as grpc from '@grpc/grpc-js';
+import { GrpcClientManager, GrpcStatus } from '../utils/grpc.js';
+import {
+  createLoggingInterceptor,
+  createRetryInterceptor,
+  createTracingInterceptor,
+  runWithTraceContext,
+} from '../utils/grpcInterceptors.js';
+import { ECHO_SERVICE, startEchoServer, unary, type EchoServer } from './helpers/echoServer.js';
+
+describe('gRPC client interceptors', () => {
+  let echo: EchoServer | undefined;
+  let manager: GrpcClientManager | undefined;
+
+  afterEach(async () => {
+    manager?.closeAllClients();
+    await echo?.stop();
+    manager = undefined;
+    echo = undefined;
+  });
+
+  const connect = async (overrides: grpc.UntypedServiceImplementation, setup: (manager: GrpcClientManager) => void) => {
+    echo = await startEchoServer('echo', overrides);
+    manager = new GrpcClientManager();
+    setup(manager);
+    return manager.createClient({ ...ECHO_SERVICE, host: '127.0.0.1', port: echo.port });
+  };
+
+  it('retries UNAVAILABLE with backoff until the call succeeds', async () => {
+    let attempts = 0;
+    const client = await connect({
+      Echo: (call: grpc.ServerUnaryCall<any, any>, callback: grpc.sendUnaryData<any>) => {
+        attempts++;
+        if (attempts < 3) {
+          callback({ code: GrpcStatus.UNAVAILABLE, details: 'warming up' });
+          return;
+        }
+        callback(null, { message: call.request.message, served_by: 'echo' });
+      },
+    }, (clients) => clients.use(createRetryInterceptor({ maxAttempts: 3, initialBackoffMs: 5 })));
+
+    await expect(unary(client, 'Echo', { message: 'hi' })).resolves.toMatchObject({ message: 'hi' });
+    expect(attempts).toBe(3);
+  });
+
+  it('gives up after maxAttempts and does not retry other codes', async () => {
+    let attempts = 0;
+    const client = await connect({
+      Echo: (call: grpc.ServerUnaryCall<any, any>, callback: grpc.sendUnaryData<any>) => {
+        attempts++;
+        callback({ code: call.request.message === 'invalid' ? GrpcStatus.INVALID_ARGUMENT : GrpcStatus.UNAVAILABLE });
+      },
+    }, (clients) => clients.use(createRetryInterceptor({ maxAttempts: 2, initialBackoffMs: 5 })));
+
+    await expect(unary(client, 'Echo', { message: 'down' })).rejects.toMatchObject({ code: GrpcStatus.UNAVAILABLE });
+    expect(attempts).toBe(2);
+
+    attempts = 0;
+    await expect(unary(client, 'Echo', { message: 'invalid' })).rejects.toMatchObject({ code: GrpcStatus.INVALID_ARGUMENT });
+    expect(attempts).toBe(1);
+  });
+
+  it('propagates the trace id of the current context', async () => {
+    const received: string[] = [];
+    const client = await connect({
+      Echo: (call: grpc.ServerUnaryCall<any, any>, callback: grpc.sendUnaryData<any>) => {
+        received.push(String(call.metadata.get('traceparent')[0]));
+        callback(null, {});
+      },
+    }, (clients) => clients.use(createTracingInterceptor()));
+
+    const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+    await runWithTraceContext({ traceparent: `00-${traceId}-00f067aa0ba902b7-01` }, () => unary(client, 'Echo', {}));
+    await unary(client, 'Echo', {});
+
+    expect(received[0]).toMatch(new RegExp(`^00-${traceId}-[0-9a-f]{16}-01$`));
+    expect(received[0]).not.toContain('00f067aa0ba902b7');
+    expect(received[1]).toMatch(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+    expect(received[1]).not.toContain(traceId);
+  });
+
+  it('logs each call with service, method and status per service name', async () => {
+    const entries: Array<[string, any]> = [];
+    const logger = {
+      info: (message: string, entry: any) => entries.push([message, entry]),
+      error: (message: string, entry: any) => entries.push([message, entry]),
+    };
+    const client = await connect({}, (clients) => {
+      clients.use(createLoggingInterceptor(logger, 'EchoService'), ECHO_SERVICE.serviceName);
+      clients.use(createLoggingInterceptor(logger, 'Other'), 'OtherService');
+    });
+
+    await unary(client, 'Echo', { message: 'x' });
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0][0]).toBe('gRPC call completed');
+    expect(entries[0][1]).toMatchObject({ service: 'EchoService', method: '/aiot.test.v1.EchoService/Echo', code: GrpcStatus.OK });
+  });
+});
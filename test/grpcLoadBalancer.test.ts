@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as grpc from '@grpc/grpc-js';
+import { ConsulHelper } from '../utils/consul.js';
+import { GrpcClientManager, GrpcStatus } from '../utils/grpc.js';
+import { ConsulGrpcClient } from '../utils/grpcLoadBalancer.js';
+import { FakeConsul } from './helpers/fakeConsul.js';
+import { ECHO_SERVICE, startEchoServer, unary, type EchoServer } from './helpers/echoServer.js';
+import { waitFor } from './helpers/waitFor.js';
+
+const silentLogger = { info: () => undefined, error: () => undefined };
+
+describe('ConsulGrpcClient', () => {
+  let consul: FakeConsul;
+  let servers: EchoServer[];
+  let balancer: ConsulGrpcClient | undefined;
+
+  beforeEach(async () => {
+    consul = await new FakeConsul().start();
+    servers = [await startEchoServer('a'), await startEchoServer('b')];
+    consul.setService('echo-service', servers.map((server, index) => ({
+      id: `echo-${index}`,
+      address: '127.0.0.1',
+      port: server.port,
+    })));
+  });
+
+  afterEach(async () => {
+    balancer?.close();
+    balancer = undefined;
+    await Promise.all(servers.map((server) => server.stop()));
+    await consul.stop();
+  });
+
+  const createBalancer = (config: Partial<ConstructorParameters<typeof ConsulGrpcClient>[1]> = {}) =>
+    new ConsulGrpcClient(new ConsulHelper('127.0.0.1', consul.port), {
+      ...ECHO_SERVICE,
+      consulServiceName: 'echo-service',
+      logger: silentLogger,
+      ...config,
+    });
+
+  it('balances calls round-robin across passing instances', async () => {
+    balancer = createBalancer();
+    await balancer.start();
+
+    const replies = [];
+    for (let i = 0; i < 4; i++) {
+      replies.push(await unary(balancer.getClient(), 'Echo', { message: String(i) }));
+    }
+
+    expect(replies.map((reply) => reply.served_by).sort()).toEqual(['a', 'a', 'b', 'b']);
+  });
+
+  it('sends calls to the instance with the fewest outstanding calls', async () => {
+    balancer = createBalancer({ policy: 'least-outstanding' });
+    await balancer.start();
+
+    const slow = unary(balancer.getClient(), 'Echo', { message: 'slow', delay_ms: 200 });
+    const fast = await unary(balancer.getClient(), 'Echo', { message: 'fast' });
+
+    expect(fast.served_by).not.toBe((await slow).served_by);
+  });
+
+  it('follows instances joining and leaving the health list', async () => {
+    balancer = createBalancer();
+    await balancer.start();
+    expect(balancer.getEndpoints()).toHaveLength(2);
+
+    consul.setService('echo-service', [{ id: 'echo-1', address: '127.0.0.1', port: servers[1].port }]);
+    await waitFor(() => balancer!.getEndpoints().length === 1);
+    expect((await unary(balancer.getClient(), 'Echo', { message: 'x' })).served_by).toBe('b');
+
+    const third = await startEchoServer('c');
+    servers.push(third);
+    consul.setService('echo-service', [
+      { id: 'echo-1', address: '127.0.0.1', port: servers[1].port },
+      { id: 'echo-2', address: '127.0.0.1', port: third.port },
+    ]);
+    await waitFor(() => balancer!.getEndpoints().length === 2);
+    expect(balancer.getEndpoints().map((endpoint) => endpoint.port)).toContain(third.port);
+  });
+
+  it('reports UNAVAILABLE through the callback and stream when no instance is passing', async () => {
+    consul.setService('echo-service', []);
+    balancer = createBalancer();
+    await balancer.start();
+
+    expect(() => balancer!.getClient().Echo({ message: 'x' }, () => undefined)).not.toThrow();
+    await expect(unary(balancer.getClient(), 'Echo', { message: 'x' })).rejects.toMatchObject({
+      code: GrpcStatus.UNAVAILABLE,
+      details: 'No healthy instances available for echo-service',
+    });
+
+    const stream = balancer.getClient().Subscribe({ message: 'x' });
+    const error = await new Promise<grpc.ServiceError>((resolve) => stream.on('error', resolve));
+    expect(error.code).toBe(GrpcStatus.UNAVAILABLE);
+  });
+
+  it('applies the global and per-service interceptors of the client manager', async () => {
+    const seen: string[] = [];
+    const record = (label: string): grpc.Interceptor => (options, nextCall) => {
+      seen.push(label);
+      return new grpc.InterceptingCall(nextCall(options));
+    };
+
+    const clientManager = new GrpcClientManager()
+      .use(record('global'))
+      .use(record('service'), ECHO_SERVICE.serviceName)
+      .use(record('other'), 'OtherService');
+
+    balancer = createBalancer({ clientManager, interceptors: [record('config')] });
+    await balancer.start();
+    await unary(balancer.getClient(), 'Echo', { message: 'x' });
+
+    expect(seen).toEqual(['global', 'service', 'config']);
+  });
+
+  it('logs endpoint changes through the injected logger', async () => {
+    const messages: string[] = [];
+    balancer = createBalancer({ logger: { info: (message) => messages.push(message), error: () => undefined } });
+    await balancer.start();
+
+    expect(messages).toEqual([
+      `gRPC endpoint 127.0.0.1:${servers[0].port} added for echo-service`,
+      `gRPC endpoint 127.0.0.1:${servers[1].port} added for echo-service`,
+    ]);
+  });
+});
@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as grpc from '@grpc/grpc-js';
+import { ConsulHelper } from '../utils/consul.js';
+import { GrpcClientManager, GrpcStatus } from '../utils/grpc.js';
+import { createGrpcServer, type GrpcServerInstance } from '../utils/grpcServer.js';
+import { ResResult } from '../utils/ResResult.js';
+import { FakeConsul } from './helpers/fakeConsul.js';
+import { ECHO_SERVICE, unary } from './helpers/echoServer.js';
+import { waitFor } from './helpers/waitFor.js';
+
+const silentLogger = { info: () => undefined, error: () => undefined };
+
+describe('createGrpcServer', () => {
+  let instance: GrpcServerInstance | undefined;
+  let clients: GrpcClientManager;
+
+  beforeEach(() => {
+    clients = new GrpcClientManager();
+  });
+
+  afterEach(async () => {
+    clients.closeAllClients();
+    await instance?.shutdown();
+    instance = undefined;
+  });
+
+  const start = async (implementation: Record<string, (...args: any[]) => any>, extra: Partial<Parameters<typeof createGrpcServer>[0]> = {}) => {
+    instance = await createGrpcServer({
+      port: 0,
+      host: '127.0.0.1',
+      services: [{ ...ECHO_SERVICE, implementation }],
+      logger: silentLogger,
+      handleSignals: false,
+      ...extra,
+    });
+    return clients.createClient({ ...ECHO_SERVICE, host: '127.0.0.1', port: instance.port, deadlineMs: 2000 });
+  };
+
+  it('responds with the value an async handler resolves to', async () => {
+    const client = await start({ Echo: async (call) => ({ message: call.request.message, served_by: 'server' }) });
+
+    await expect(unary(client, 'Echo', { message: 'hi' })).resolves.toEqual({ message: 'hi', served_by: 'server' });
+  });
+
+  it('responds with an empty message when an async handler resolves to undefined', async () => {
+    const client = await start({
+      Ping: async () => undefined,
+      Echo: async () => {
+        // 忘了 return 的處理函式也不應讓呼叫端等到 deadline
+      },
+    });
+
+    await expect(unary(client, 'Ping', {})).resolves.toEqual({});
+    await expect(unary(client, 'Echo', { message: 'hi' })).resolves.toEqual({ message: '', served_by: '' });
+  });
+
+  it('keeps the response of handlers that call the callback themselves', async () => {
+    const client = await start({
+      Echo: async (call: grpc.ServerUnaryCall<any, any>, callback: grpc.sendUnaryData<any>) => {
+        callback(null, { message: call.request.message, served_by: 'callback' });
+      },
+    });
+
+    await expect(unary(client, 'Echo', { message: 'hi' })).resolves.toEqual({ message: 'hi', served_by: 'callback' });
+  });
+
+  it('maps thrown errors and ResResults to gRPC status codes', async () => {
+    const client = await start({
+      Echo: async (call) => {
+        if (call.request.message === 'missing') throw ResResult.notFound('Drone not found');
+        throw new Error('boom');
+      },
+    });
+
+    await expect(unary(client, 'Echo', { message: 'missing' })).rejects.toMatchObject({
+      code: GrpcStatus.NOT_FOUND,
+      details: 'Drone not found',
+    });
+    await expect(unary(client, 'Echo', { message: 'x' })).rejects.toMatchObject({ code: GrpcStatus.INTERNAL });
+  });
+
+  it('marks services as SERVING, registers with Consul and drains on shutdown', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const consul = await new FakeConsul().start();
+
+    try {
+      const client = await start(
+        { Echo: (call: any, callback: grpc.sendUnaryData<any>) => setTimeout(() => callback(null, { message: 'done' }), 100) },
+        {
+          consul: {
+            helper: new ConsulHelper('127.0.0.1', consul.port),
+            registration: { serviceName: 'echo-service', serviceId: 'echo-1', address: '127.0.0.1' },
+          },
+        }
+      );
+
+      expect(instance!.health.getStatus('aiot.test.v1.EchoService')).toBe('SERVING');
+      expect(consul.registered.get('echo-1')).toMatchObject({
+        Port: instance!.port,
+        Check: { GRPC: `127.0.0.1:${instance!.port}` },
+      });
+
+      const inFlight = unary(client, 'Echo', { message: 'slow' });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      await instance!.shutdown();
+
+      await expect(inFlight).resolves.toMatchObject({ message: 'done' });
+      expect(instance!.health.getStatus('aiot.test.v1.EchoService')).toBe('NOT_SERVING');
+      expect(consul.registered.has('echo-1')).toBe(false);
+    } finally {
+      await consul.stop();
+      vi.restoreAllMocks();
+    }
+  });
+
+  it('shuts down on SIGTERM without exiting the process by default', async () => {
+    const exit = vi.spyOn(process, 'exit').mockImplementation((() => undefined) as any);
+    const listeners = { SIGTERM: process.listenerCount('SIGTERM'), SIGINT: process.listenerCount('SIGINT') };
+    await start({}, { handleSignals: true });
+    expect(process.listenerCount('SIGTERM')).toBe(listeners.SIGTERM + 1);
+
+    process.emit('SIGTERM', 'SIGTERM');
+    await waitFor(() => instance!.health.getStatus('aiot.test.v1.EchoService') === 'NOT_SERVING');
+    await instance!.shutdown();
+
+    expect(exit).not.toHaveBeenCalled();
+    expect(process.listenerCount('SIGTERM')).toBe(listeners.SIGTERM);
+    expect(process.listenerCount('SIGINT')).toBe(listeners.SIGINT);
+    exit.mockRestore();
+  });
+
+  it('exits after shutting down when exitOnSignal is enabled', async () => {
+    const exit = vi.spyOn(process, 'exit').mockImplementation((() => undefined) as any);
+    await start({}, { handleSignals: true, exitOnSignal: true });
+
+    process.emit('SIGINT', 'SIGINT');
+    await waitFor(() => exit.mock.calls.length === 1);
+
+    expect(exit).toHaveBeenCalledWith(0);
+    exit.mockRestore();
+  });
+
+  it('removes its signal listeners when shut down without a signal', async () => {
+    const listeners = { SIGTERM: process.listenerCount('SIGTERM'), SIGINT: process.listenerCount('SIGINT') };
+    await start({}, { handleSignals: true });
+    await instance!.shutdown();
+
+    expect(process.listenerCount('SIGTERM')).toBe(listeners.SIGTERM);
+    expect(process.listenerCount('SIGINT')).toBe(listeners.SIGINT);
+  });
+});
@@ -0,0 +1,70 @@
+import { fileURLToPath } from 'node:url';
+import * as grpc from '@grpc/grpc-js';
+import { GrpcClientManager } from '../../utils/grpc.js';
+
+/** 測試用 EchoService 的載入設定 */
+export const ECHO_SERVICE = {
+  protoPath: fileURLToPath(new URL('../fixtures/echo.proto', import.meta.url)),
+  packageName: 'aiot.test.v1',
+  serviceName: 'EchoService',
+};
+
+export interface EchoServer {
+  server: grpc.Server;
+  port: number;
+  /** 已收到的呼叫數 */
+  calls: number;
+  stop(): Promise<void>;
+}
+
+/**
+ * 在 127.0.0.1 的隨機埠啟動 EchoService
+ *
+ * Echo 會依 delay_ms 延遲後回傳訊息與伺服器名稱，方法可由 overrides 覆寫
+ */
+export async function startEchoServer(
+  name = 'echo',
+  overrides: grpc.UntypedServiceImplementation = {}
+): Promise<EchoServer> {
+  const { service } = GrpcClientManager.loadServiceClient(ECHO_SERVICE);
+  const server = new grpc.Server();
+
+  const echoServer: EchoServer = {
+    server,
+    port: 0,
+    calls: 0,
+    stop: () => new Promise((resolve) => server.tryShutdown(() => resolve())),
+  };
+
+  server.addService(service, {
+    Echo: (call: grpc.ServerUnaryCall<any, any>, callback: grpc.sendUnaryData<any>) => {
+      echoServer.calls++;
+      setTimeout(() => callback(null, { message: call.request.message, served_by: name }), call.request.delay_ms);
+    },
+    Ping: (_call: grpc.ServerUnaryCall<any, any>, callback: grpc.sendUnaryData<any>) => callback(null, {}),
+    Subscribe: (call: grpc.ServerWritableStream<any, any>) => {
+      call.write({ message: call.request.message, served_by: name });
+      call.end();
+    },
+    ...overrides,
+  });
+
+  echoServer.port = await new Promise<number>((resolve, reject) => {
+    server.bindAsync('127.0.0.1:0', grpc.ServerCredentials.createInsecure(), (error, port) =>
+      error ? reject(error) : resolve(port)
+    );
+  });
+
+  return echoServer;
+}
+
+/**
+ * 以 Promise 形式發出 unary 呼叫
+ */
+export function unary<T = any>(client: any, method: string, request: any, options: grpc.CallOptions = {}): Promise<T> {
+  return new Promise((resolve, reject) => {
+    client[method](request, new grpc.Metadata(), options, (error: grpc.ServiceError | null, response: T) =>
+      error ? reject(error) : resolve(response)
+    );
+  });
+}
@@ -0,0 +1,194 @@
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { parseConsulDuration } from '../../utils/consul.js';
+
+export interface FakeServiceInstance {
+  id: string;
+  address: string;
+  port: number;
+  tags?: string[];
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+/**
+ * 本機的 Consul HTTP API 替身
+ *
+ * 支援 health/service、KV（含阻塞查詢）、agent 服務註冊與 TTL 檢查，
+ * 並記錄所有請求供測試斷言
+ */
+export class FakeConsul {
+  readonly requests: RecordedRequest[] = [];
+  /** agent 上註冊的服務定義，依服務 ID 索引 */
+  readonly registered: Map<string, any> = new Map();
+  /** 各檢查收到的 pass 次數 */
+  readonly passes: Map<string, number> = new Map();
+  /** 下一個請求要回應的狀態碼，用於模擬錯誤 */
+  failNext: number[] = [];
+
+  private services: Map<string, FakeServiceInstance[]> = new Map();
+  private kv: Map<string, string> = new Map();
+  private index = 1;
+  private waiters: Set<() => void> = new Set();
+  private server: http.Server;
+
+  constructor() {
+    this.server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => {
+        const raw = Buffer.concat(chunks).toString('utf8');
+        this.handle(req, res, raw ? JSON.parse(raw) : undefined);
+      });
+    });
+  }
+
+  get port(): number {
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  async start(): Promise<this> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return this;
+  }
+
+  async stop(): Promise<void> {
+    for (const wake of this.waiters) wake();
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  /** 設定服務的健康實例，並喚醒阻塞查詢 */
+  setService(name: string, instances: FakeServiceInstance[]): void {
+    this.services.set(name, instances);
+    this.bump();
+  }
+
+  setKey(key: string, value: string): void {
+    this.kv.set(key, value);
+    this.bump();
+  }
+
+  deleteKey(key: string): void {
+    this.kv.delete(key);
+    this.bump();
+  }
+
+  /** 模擬 agent 重啟，清除所有註冊 */
+  restartAgent(): void {
+    this.registered.clear();
+  }
+
+  requestsTo(path: string): RecordedRequest[] {
+    return this.requests.filter((request) => request.path.startsWith(path));
+  }
+
+  private bump(): void {
+    this.index++;
+    for (const wake of this.waiters) wake();
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse, body: any): Promise<void> {
+    const url = new URL(req.url || '/', 'http://consul');
+    const path = decodeURIComponent(url.pathname);
+    this.requests.push({ method: req.method || 'GET', path, query: url.searchParams, headers: req.headers, body });
+
+    const failure = this.failNext.shift();
+    if (failure) {
+      res.writeHead(failure).end('fake failure');
+      return;
+    }
+
+    const reply = (status: number, payload?: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json', 'X-Consul-Index': String(this.index) });
+      res.end(payload === undefined ? '' : JSON.stringify(payload));
+    };
+
+    if (req.method === 'GET' && (path.startsWith('/v1/health/service/') || path.startsWith('/v1/kv/'))) {
+      await this.block(url.searchParams);
+      if (res.destroyed) return;
+    }
+
+    if (req.method === 'GET' && path.startsWith('/v1/health/service/')) {
+      const instances = this.services.get(path.slice('/v1/health/service/'.length)) || [];
+      reply(200, instances.map((instance) => ({
+        Service: {
+          ID: instance.id,
+          Service: path.slice('/v1/health/service/'.length),
+          Address: instance.address,
+          Port: instance.port,
+          Tags: instance.tags || [],
+          Meta: {},
+        },
+      })));
+      return;
+    }
+
+    if (req.method === 'GET' && path.startsWith('/v1/kv/')) {
+      const prefix = path.slice('/v1/kv/'.length);
+      const entries = [...this.kv]
+        .filter(([key]) => key.startsWith(prefix))
+        .map(([Key, value]) => ({ Key, Value: Buffer.from(value).toString('base64') }));
+      reply(entries.length > 0 ? 200 : 404, entries.length > 0 ? entries : undefined);
+      return;
+    }
+
+    if (req.method === 'PUT' && path === '/v1/agent/service/register') {
+      this.registered.set(body.ID, body);
+      reply(200);
+      return;
+    }
+
+    if (req.method === 'PUT' && path.startsWith('/v1/agent/service/deregister/')) {
+      this.registered.delete(path.slice('/v1/agent/service/deregister/'.length));
+      reply(200);
+      return;
+    }
+
+    if (req.method === 'GET' && path.startsWith('/v1/agent/service/')) {
+      const service = this.registered.get(path.slice('/v1/agent/service/'.length));
+      reply(service ? 200 : 404, service);
+      return;
+    }
+
+    if (req.method === 'PUT' && path.startsWith('/v1/agent/check/pass/')) {
+      const checkId = path.slice('/v1/agent/check/pass/'.length);
+      const serviceId = checkId.replace(/^service:/, '');
+      if (!this.registered.has(serviceId)) {
+        reply(404);
+        return;
+      }
+      this.passes.set(checkId, (this.passes.get(checkId) || 0) + 1);
+      reply(200);
+      return;
+    }
+
+    reply(404);
+  }
+
+  /**
+   * 帶有 index 的查詢在索引改變或 wait 到期前保持阻塞
+   */
+  private block(query: URLSearchParams): Promise<void> {
+    const index = parseInt(query.get('index') || '0', 10);
+    if (!index || index < this.index) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        this.waiters.delete(done);
+        resolve();
+      };
+      const timer = setTimeout(done, parseConsulDuration(query.get('wait') || '5m'));
+      this.waiters.add(done);
+    });
+  }
+}
@@ -0,0 +1,209 @@
+import * as net from 'node:net';
+import type { AddressInfo } from 'node:net';
+
+type Reply = string | number | null | Error | { status: string } | Reply[];
+
+/**
+ * 本機的 Redis RESP2 替身
+ *
+ * 只支援連線管理與快取測試所需的指令：字串讀寫（含 NX 與過期時間）、發布／訂閱、
+ * ROLE、Sentinel 的 get-master-addr-by-name 與 Cluster 的 CLUSTER SLOTS（所有 slot 指向自己）。
+ * 需要 Lua 或 Stream 的測試請設定 REDIS_URL 連到真正的 Redis
+ */
+export class FakeRedis {
+  readonly data: Map<string, string> = new Map();
+  /** 收到的指令，指令名稱為大寫 */
+  readonly commands: string[][] = [];
+  /** Sentinel 模式下各 master 的位址 */
+  readonly masters: Map<string, { host: string; port: number }> = new Map();
+  /** ROLE 回報的角色，模擬故障轉移後降級為 replica 的舊 master */
+  role: 'master' | 'slave' = 'master';
+
+  private server: net.Server | null = null;
+  private sockets: Set<net.Socket> = new Set();
+  private channels: Map<string, Set<net.Socket>> = new Map();
+  private listenPort = 0;
+  /** 各鍵值的過期時間（毫秒時間戳） */
+  private expires: Map<string, number> = new Map();
+
+  get port(): number {
+    return this.listenPort;
+  }
+
+  async start(port: number = this.listenPort): Promise<this> {
+    const server = net.createServer((socket) => this.accept(socket));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => resolve());
+    });
+    this.server = server;
+    this.listenPort = (server.address() as AddressInfo).port;
+    return this;
+  }
+
+  /** 關閉伺服器並中斷所有連線，模擬節點當機 */
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    this.dropConnections();
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  /** 中斷所有連線但繼續接受新連線 */
+  dropConnections(): void {
+    for (const socket of this.sockets) socket.destroy();
+    this.sockets.clear();
+    this.channels.clear();
+  }
+
+  /** 發布訊息給訂閱者，例如 Sentinel 的 +switch-master */
+  publish(channel: string, message: string): number {
+    const subscribers = this.channels.get(channel) ?? new Set();
+    for (const socket of subscribers) {
+      socket.write(encode(['message', channel, message]));
+    }
+    return subscribers.size;
+  }
+
+  /** 模擬 Sentinel 完成故障轉移：更新 master 位址並發出 +switch-master */
+  failover(masterName: string, next: { host: string; port: number }): void {
+    const previous = this.masters.get(masterName);
+    this.masters.set(masterName, next);
+    this.publish('+switch-master', [masterName, previous?.host, previous?.port, next.host, next.port].join(' '));
+  }
+
+  subscriberCount(channel: string): number {
+    return this.channels.get(channel)?.size ?? 0;
+  }
+
+  private accept(socket: net.Socket): void {
+    this.sockets.add(socket);
+    let buffer: Buffer = Buffer.alloc(0);
+    socket.on('data', (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      let parsed: { args: string[]; rest: Buffer } | null;
+      while ((parsed = parseCommand(buffer))) {
+        buffer = parsed.rest;
+        this.commands.push([parsed.args[0].toUpperCase(), ...parsed.args.slice(1)]);
+        const reply = this.execute(socket, parsed.args);
+        if (reply !== undefined) socket.write(encode(reply));
+      }
+    });
+    socket.on('error', () => undefined);
+    socket.on('close', () => {
+      this.sockets.delete(socket);
+      for (const subscribers of this.channels.values()) subscribers.delete(socket);
+    });
+  }
+
+  /** 執行指令，回傳 undefined 表示已自行寫出回應 */
+  private execute(socket: net.Socket, [name, ...args]: string[]): Reply | undefined {
+    switch (name.toUpperCase()) {
+      case 'PING':
+        return { status: 'PONG' };
+      case 'AUTH':
+      case 'SELECT':
+      case 'CLIENT':
+      case 'READONLY':
+        return { status: 'OK' };
+      case 'QUIT':
+        socket.end(encode({ status: 'OK' }));
+        return undefined;
+      case 'GET':
+        return this.read(args[0]);
+      case 'SET': {
+        const [key, value, ...flags] = args.map((arg, index) => (index > 1 ? arg.toUpperCase() : arg));
+        if (flags.includes('NX') && this.read(key) !== null) return null;
+        const px = flags.indexOf('PX');
+        const ex = flags.indexOf('EX');
+        this.write(key, value, px >= 0 ? Number(flags[px + 1]) : ex >= 0 ? Number(flags[ex + 1]) * 1000 : undefined);
+        return { status: 'OK' };
+      }
+      case 'SETEX':
+        this.write(args[0], args[2], Number(args[1]) * 1000);
+        return { status: 'OK' };
+      case 'DEL':
+        return args.filter((key) => this.read(key) !== null && this.data.delete(key)).length;
+      case 'PUBLISH':
+        return this.publish(args[0], args[1]);
+      case 'SUBSCRIBE':
+        for (const channel of args) {
+          if (!this.channels.has(channel)) this.channels.set(channel, new Set());
+          this.channels.get(channel)!.add(socket);
+          socket.write(encode(['subscribe', channel, this.countSubscriptions(socket)]));
+        }
+        return undefined;
+      case 'UNSUBSCRIBE':
+        for (const channel of args) {
+          this.channels.get(channel)?.delete(socket);
+          socket.write(encode(['unsubscribe', channel, this.countSubscriptions(socket)]));
+        }
+        return undefined;
+      case 'ROLE':
+        return this.role === 'master' ? ['master', 0, []] : ['slave', '127.0.0.1', 0, 'connected', 0];
+      case 'SENTINEL': {
+        const master = args[0]?.toLowerCase() === 'get-master-addr-by-name' ? this.masters.get(args[1]) : undefined;
+        return master ? [master.host, String(master.port)] : null;
+      }
+      case 'CLUSTER':
+        if (args[0]?.toUpperCase() === 'SLOTS') {
+          return [[0, 16383, ['127.0.0.1', this.port, `fake-${this.port}`]]];
+        }
+        return new Error('ERR unsupported CLUSTER subcommand');
+      default:
+        return new Error(`ERR unknown command '${name}'`);
+    }
+  }
+
+  private read(key: string): string | null {
+    const expiresAt = this.expires.get(key);
+    if (expiresAt !== undefined && expiresAt <= Date.now()) {
+      this.data.delete(key);
+      this.expires.delete(key);
+    }
+    return this.data.get(key) ?? null;
+  }
+
+  private write(key: string, value: string, ttlMs?: number): void {
+    this.data.set(key, value);
+    if (ttlMs === undefined) {
+      this.expires.delete(key);
+    } else {
+      this.expires.set(key, Date.now() + ttlMs);
+    }
+  }
+
+  private countSubscriptions(socket: net.Socket): number {
+    return [...this.channels.values()].filter((subscribers) => subscribers.has(socket)).length;
+  }
+}
+
+function parseCommand(buffer: Buffer): { args: string[]; rest: Buffer } | null {
+  if (buffer.length === 0 || buffer[0] !== 42 /* '*' */) return null;
+  let end = buffer.indexOf('\r\n');
+  if (end < 0) return null;
+  const count = parseInt(buffer.subarray(1, end).toString(), 10);
+  let offset = end + 2;
+  const args: string[] = [];
+  for (let i = 0; i < count; i++) {
+    end = buffer.indexOf('\r\n', offset);
+    if (end < 0) return null;
+    const length = parseInt(buffer.subarray(offset + 1, end).toString(), 10);
+    offset = end + 2;
+    if (buffer.length < offset + length + 2) return null;
+    args.push(buffer.subarray(offset, offset + length).toString());
+    offset += length + 2;
+  }
+  return { args, rest: buffer.subarray(offset) };
+}
+
+function encode(reply: Reply): string {
+  if (reply === null) return '$-1\r\n';
+  if (Array.isArray(reply)) return `*${reply.length}\r\n${reply.map(encode).join('')}`;
+  if (typeof reply === 'number') return `:${reply}\r\n`;
+  if (reply instanceof Error) return `-${reply.message}\r\n`;
+  if (typeof reply === 'object') return `+${reply.status}\r\n`;
+  return `$${Buffer.byteLength(reply)}\r\n${reply}\r\n`;
+}
@@ -0,0 +1,22 @@
+import { redisConnectionManager } from '../../services/redis/RedisConnectionManager.js';
+
+/**
+ * 需要真正 Redis（Lua 腳本、Stream）的測試連線位址，未設定時跳過這些測試
+ *
+ * @example REDIS_URL=redis://127.0.0.1:6379/15 npm test
+ */
+export const REDIS_URL = process.env.REDIS_URL;
+
+/**
+ * 以 REDIS_URL 建立具名連線
+ */
+export async function connectTestRedis(name: string): Promise<void> {
+  const url = new URL(REDIS_URL!);
+  await redisConnectionManager.connect(name, {
+    host: url.hostname,
+    port: url.port ? parseInt(url.port, 10) : 6379,
+    username: url.username || undefined,
+    password: url.password ? decodeURIComponent(url.password) : undefined,
+    database: url.pathname.length > 1 ? parseInt(url.pathname.slice(1), 10) : 0,
+  });
+}
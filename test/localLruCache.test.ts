@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LocalLruCache, globToRegExp } from '../services/redis/LocalLruCache.js';
+
+describe('LocalLruCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('evicts the least recently used entry when full', () => {
+    const cache = new LocalLruCache<number>({ maxEntries: 2 });
+    cache.set('a', 1);
+    cache.set('b', 2);
+    expect(cache.get('a')).toEqual({ found: true, value: 1 });
+
+    cache.set('c', 3);
+
+    expect(cache.get('b')).toEqual({ found: false });
+    expect(cache.get('a').found).toBe(true);
+    expect(cache.get('c').found).toBe(true);
+  });
+
+  it('expires entries and never keeps them longer than the configured TTL', () => {
+    const cache = new LocalLruCache<string>({ ttlMs: 1000 });
+    cache.set('short', 'x', 100);
+    cache.set('long', 'y', 60000);
+
+    vi.advanceTimersByTime(100);
+    expect(cache.get('short').found).toBe(false);
+    expect(cache.get('long').found).toBe(true);
+
+    vi.advanceTimersByTime(900);
+    expect(cache.get('long').found).toBe(false);
+  });
+
+  it('deletes entries matching a Redis glob pattern', () => {
+    const cache = new LocalLruCache<number>();
+    ['drone:1', 'drone:2', 'drone:10', 'user:1'].forEach((key, index) => cache.set(key, index));
+
+    expect(cache.deleteMatching('drone:?')).toBe(2);
+    expect(cache.get('drone:10').found).toBe(true);
+    expect(cache.get('user:1').found).toBe(true);
+  });
+});
+
+describe('globToRegExp', () => {
+  it.each([
+    ['drone:*', 'drone:42:status', true],
+    ['drone:?', 'drone:42', false],
+    ['drone:[12]', 'drone:2', true],
+    ['drone:[0-9]', 'drone:x', false],
+    ['drone:[^12]', 'drone:3', true],
+    ['drone:[^12]', 'drone:1', false],
+    ['drone:[!12]', '!', false],
+    ['drone:[!12]', 'drone:!', true],
+    ['drone:\\*', 'drone:*', true],
+    ['drone:\\*', 'drone:1', false],
+    ['drone.(1)', 'drone.(1)', true],
+    ['drone:[1', 'drone:[1', true],
+  ])('%s matches %s: %s', (pattern, key, expected) => {
+    expect(globToRegExp(pattern).test(key)).toBe(expected);
+  });
+});
@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { MessageCatalog } from '../utils/messages.js';
+import { Schemas, ValidationRules, Validator } from '../utils/validation.js';
+import { ReqResult } from '../utils/ReqResult.js';
+import { ResResult } from '../utils/ResResult.js';
+
+const messagesOf = (errors: Array<{ message: string }>) => errors.map(({ message }) => message);
+
+describe('default validation messages', () => {
+  it('keeps the English defaults of rules declared directly', () => {
+    const errors = Validator.validateField('x', [
+      { type: 'email' },
+      { type: 'minLength', value: 3 },
+      { type: 'maxLength', value: 0 },
+      { type: 'pattern', value: '^\\d+$' },
+      { type: 'custom', validator: () => false },
+    ]);
+
+    expect(messagesOf(Validator.validateField('', [{ type: 'required' }]))).toEqual(['Field is required']);
+    expect(messagesOf(errors)).toEqual([
+      'Invalid email format',
+      'Minimum length is 3',
+      'Maximum length is 0',
+      'Value does not match required pattern',
+      'Custom validation failed',
+    ]);
+  });
+
+  it('keeps the English defaults of ValidationRules builders', () => {
+    const errors = Validator.validateField('x', [
+      ValidationRules.email(),
+      ValidationRules.minLength(3),
+      ValidationRules.maxLength(0),
+      ValidationRules.pattern('^\\d+$'),
+      ValidationRules.custom(() => false),
+    ]);
+
+    expect(messagesOf(Validator.validateField('', [ValidationRules.required()]))).toEqual(['This field is required']);
+    expect(messagesOf(errors)).toEqual([
+      'Please enter a valid email address',
+      'Must be at least 3 characters long',
+      'Must not exceed 0 characters',
+      'Invalid format',
+      'Validation failed',
+    ]);
+  });
+
+  it('keeps the English defaults of schemas', () => {
+    const schema = Schemas.object({
+      name: Schemas.string(),
+      callsign: Schemas.string(),
+      altitude: Schemas.integer({ min: 0 }),
+      priority: Schemas.enum(['low', 'high']),
+      waypoints: Schemas.array(Schemas.number(), { minItems: 2 }),
+    });
+
+    expect(messagesOf(Validator.validateObject({ callsign: null, altitude: -1, priority: 'mid', waypoints: [1] }, schema))).toEqual([
+      'Field is required',
+      'Field cannot be null',
+      'Must be at least 0',
+      'Must be one of: low, high',
+      'Must contain at least 2 items',
+    ]);
+  });
+
+  it('returns the same codes whichever way a rule is declared', () => {
+    const codes = (rules: Parameters<typeof Validator.validateField>[1]) => Validator.validateField('', rules).map(({ code }) => code);
+
+    expect(codes([{ type: 'required' }])).toEqual(['validation.required']);
+    expect(codes([ValidationRules.required()])).toEqual(['validation.required']);
+    expect(Validator.validateSchema(undefined, Schemas.string())[0].code).toBe('validation.required');
+  });
+});
+
+describe('MessageCatalog', () => {
+  afterEach(() => {
+    MessageCatalog.setResolver(null);
+    MessageCatalog.setDefaultLocale('en');
+  });
+
+  it('translates per call and interpolates rule parameters', () => {
+    expect(Validator.validateField('ab', [ValidationRules.minLength(8)], undefined, { locale: 'zh-TW' })).toEqual([
+      { field: '', message: '長度至少需要 8 個字元', code: 'validation.minLength', params: { length: 8 } },
+    ]);
+    expect(messagesOf(Validator.validateField('ab', [{ type: 'minLength', value: 8 }], undefined, { locale: 'zh-TW' })))
+      .toEqual(['長度至少需要 8 個字元']);
+  });
+
+  it('lets services override messages, codes and the default locale', () => {
+    MessageCatalog.register('fr', { 'validation.required': 'Champ obligatoire', 'mission.endBeforeStart': 'Fin avant début' });
+    MessageCatalog.setDefaultLocale('fr');
+
+    const endTimeRule = { ...ValidationRules.custom(() => false), code: 'mission.endBeforeStart' };
+    expect(Validator.validateField(undefined, [{ type: 'required' }, endTimeRule])).toMatchObject([
+      { message: 'Champ obligatoire', code: 'validation.required' },
+      { message: 'Fin avant début', code: 'mission.endBeforeStart' },
+    ]);
+    // 未翻譯的訊息退回 en
+    expect(MessageCatalog.translate('validation.email')).toBe('Invalid email format');
+
+    MessageCatalog.setResolver((code, params) => (code === 'validation.max' ? `<= ${params.max}` : undefined));
+    expect(messagesOf(Validator.validateSchema(5, Schemas.number({ max: 3 })))).toEqual(['<= 3']);
+  });
+
+  it('picks a locale from Accept-Language', () => {
+    expect(MessageCatalog.resolveLocale('zh-Hant-TW,zh;q=0.9,en;q=0.8')).toBe('zh-TW');
+    expect(MessageCatalog.resolveLocale('de-DE,en-US;q=0.5')).toBe('en');
+    expect(MessageCatalog.resolveLocale('en;q=0.2,zh-TW;q=0.8')).toBe('zh-TW');
+    expect(MessageCatalog.resolveLocale(undefined)).toBe('en');
+  });
+});
+
+describe('result default messages', () => {
+  it('keeps ReqResult.fromError in Chinese and the status helpers in English', () => {
+    expect(ReqResult.fromError(new Error('')).message).toBe('發生未知錯誤');
+    expect(ReqResult.fromError(new Error('timeout')).message).toBe('timeout');
+    expect(ResResult.unauthorized().message).toBe('Unauthorized');
+    expect(ReqResult.notFound().message).toBe('Not Found');
+  });
+});
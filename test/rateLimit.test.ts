@@ -0,0 +1,238 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { randomUUID } from 'node:crypto';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import express from 'express';
+import * as grpc from '@grpc/grpc-js';
+import { GrpcClientManager, GrpcStatus } from '../utils/grpc.js';
+import { createGrpcServer, type GrpcServerInstance } from '../utils/grpcServer.js';
+import {
+  createRateLimitMiddleware,
+  createRateLimitInterceptor,
+  RateLimitKeys,
+  GrpcRateLimitKeys,
+} from '../utils/rateLimit.js';
+import {
+  SlidingWindowRateLimiter,
+  TokenBucketRateLimiter,
+  type RateLimiter,
+  type RateLimitResult,
+} from '../services/redis/RedisRateLimiter.js';
+import { redisConnectionManager } from '../services/redis/RedisConnectionManager.js';
+import { ECHO_SERVICE } from './helpers/echoServer.js';
+import { REDIS_URL, connectTestRedis } from './helpers/redisUrl.js';
+
+/**
+ * 以記憶體計數的固定額度限制器，記錄收到的鍵值
+ */
+class MemoryRateLimiter implements RateLimiter {
+  readonly keys: string[] = [];
+  private counts: Map<string, number> = new Map();
+
+  constructor(private readonly limit: number) {}
+
+  async consume(key: string, cost: number = 1): Promise<RateLimitResult> {
+    this.keys.push(key);
+    const used = (this.counts.get(key) ?? 0) + cost;
+    const allowed = used <= this.limit;
+    if (allowed) this.counts.set(key, used);
+    const remaining = this.limit - (allowed ? used : used - cost);
+    return { allowed, limit: this.limit, remaining, retryAfterMs: allowed ? 0 : 2500, resetMs: 4000 };
+  }
+}
+
+const silentLogger = { info: () => undefined, error: () => undefined };
+
+describe('createRateLimitMiddleware', () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    await new Promise((resolve) => server?.close(resolve) ?? resolve(undefined));
+    server = undefined;
+  });
+
+  const start = async (middleware: express.RequestHandler) => {
+    const app = express();
+    app.get('/drones', middleware, (_req, res) => {
+      res.json({ ok: true });
+    });
+    server = app.listen(0, '127.0.0.1');
+    await new Promise((resolve) => server!.once('listening', resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}/drones`;
+  };
+
+  it('sets RateLimit headers and answers 429 with Retry-After once the quota is spent', async () => {
+    const limiter = new MemoryRateLimiter(1);
+    const url = await start(createRateLimitMiddleware({ limiter }));
+
+    const first = await fetch(url);
+    expect(first.status).toBe(200);
+    expect(first.headers.get('ratelimit-limit')).toBe('1');
+    expect(first.headers.get('ratelimit-remaining')).toBe('0');
+    expect(first.headers.get('ratelimit-reset')).toBe('4');
+
+    const second = await fetch(url, { headers: { 'Accept-Language': 'zh-TW' } });
+    expect(second.status).toBe(429);
+    expect(second.headers.get('retry-after')).toBe('3');
+    expect(await second.json()).toMatchObject({ status: 429, message: '請求過於頻繁', data: { retryAfter: 3 } });
+    expect(limiter.keys).toEqual(['ip:127.0.0.1', 'ip:127.0.0.1']);
+  });
+
+  it('limits by API key and skips requests without one', async () => {
+    const limiter = new MemoryRateLimiter(1);
+    const url = await start(createRateLimitMiddleware({ limiter, key: RateLimitKeys.apiKey(), headers: false }));
+
+    expect((await fetch(url)).status).toBe(200);
+    expect((await fetch(url)).status).toBe(200);
+    const limited = await fetch(url, { headers: { 'x-api-key': 'k1' } });
+    expect(limited.status).toBe(200);
+    expect(limited.headers.has('ratelimit-limit')).toBe(false);
+    expect((await fetch(url, { headers: { 'x-api-key': 'k1' } })).status).toBe(429);
+    expect((await fetch(url, { headers: { 'x-api-key': 'k2' } })).status).toBe(200);
+    expect(limiter.keys).toEqual(['apikey:k1', 'apikey:k1', 'apikey:k2']);
+  });
+
+  it('limits by the user the auth middleware attached and skips anonymous requests', () => {
+    const key = RateLimitKeys.userId();
+
+    expect(key({ user: { id: 42 } } as unknown as express.Request)).toBe('user:42');
+    expect(key({ user: {} } as unknown as express.Request)).toBeNull();
+    expect(key({} as express.Request)).toBeNull();
+  });
+});
+
+describe('createRateLimitInterceptor', () => {
+  let instance: GrpcServerInstance | undefined;
+  let clients: GrpcClientManager;
+
+  afterEach(async () => {
+    clients.closeAllClients();
+    await instance?.shutdown();
+    instance = undefined;
+  });
+
+  const start = async (interceptor: grpc.ServerInterceptor) => {
+    clients = new GrpcClientManager();
+    instance = await createGrpcServer({
+      port: 0,
+      host: '127.0.0.1',
+      services: [{
+        ...ECHO_SERVICE,
+        implementation: { Echo: async (call: grpc.ServerUnaryCall<any, any>) => ({ message: call.request.message }) },
+      }],
+      logger: silentLogger,
+      handleSignals: false,
+      interceptors: [interceptor],
+    });
+    return clients.createClient({ ...ECHO_SERVICE, host: '127.0.0.1', port: instance.port, deadlineMs: 2000 });
+  };
+
+  const echo = (client: any, metadata: grpc.Metadata = new grpc.Metadata()) =>
+    new Promise<any>((resolve, reject) => {
+      client.Echo({ message: 'hi' }, metadata, (error: grpc.ServiceError | null, response: any) =>
+        error ? reject(error) : resolve(response)
+      );
+    });
+
+  it('rejects with RESOURCE_EXHAUSTED and a retry-after trailer once the quota is spent', async () => {
+    const limiter = new MemoryRateLimiter(1);
+    const client = await start(createRateLimitInterceptor({ limiter }));
+
+    await expect(echo(client)).resolves.toMatchObject({ message: 'hi' });
+    const error: grpc.ServiceError = await echo(client).catch((e) => e);
+    expect(error.code).toBe(GrpcStatus.RESOURCE_EXHAUSTED);
+    expect(error.details).toBe('Too Many Requests');
+    expect(error.metadata.get('retry-after')).toEqual(['3']);
+    expect(limiter.keys).toEqual(['ip:127.0.0.1', 'ip:127.0.0.1']);
+  });
+
+  it('limits by metadata value and lets calls without it through', async () => {
+    const limiter = new MemoryRateLimiter(1);
+    const client = await start(createRateLimitInterceptor({ limiter, key: GrpcRateLimitKeys.metadata('x-user-id', 'user:') }));
+    const user = new grpc.Metadata();
+    user.set('x-user-id', '7');
+
+    await expect(echo(client)).resolves.toBeDefined();
+    await expect(echo(client)).resolves.toBeDefined();
+    await expect(echo(client, user)).resolves.toBeDefined();
+    await expect(echo(client, user)).rejects.toMatchObject({ code: GrpcStatus.RESOURCE_EXHAUSTED });
+    expect(limiter.keys).toEqual(['user:7', 'user:7']);
+  });
+
+  it('strips the port from IPv4 and IPv6 peers', () => {
+    const resolve = GrpcRateLimitKeys.peer();
+    const metadata = new grpc.Metadata();
+
+    expect(resolve(metadata, 'ipv4:10.0.0.5:51234', '/x')).toBe('ip:10.0.0.5');
+    expect(resolve(metadata, 'ipv6:[::1]:51234', '/x')).toBe('ip:::1');
+  });
+});
+
+describe('Redis rate limiters without Redis', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('allows requests by default and throws when failOpen is false', async () => {
+    const open = new SlidingWindowRateLimiter({ connectionName: 'ratelimit-offline', limit: 5, windowMs: 1000 });
+    const closed = new TokenBucketRateLimiter({
+      connectionName: 'ratelimit-offline', capacity: 5, refillPerSecond: 1, failOpen: false,
+    });
+
+    await expect(open.consume('ip:10.0.0.1')).resolves.toEqual({
+      allowed: true, limit: 5, remaining: 5, retryAfterMs: 0, resetMs: 0,
+    });
+    expect(console.warn).toHaveBeenCalled();
+    await expect(closed.consume('ip:10.0.0.1')).rejects.toThrow(/not connected/);
+  });
+});
+
+describe.skipIf(!REDIS_URL)('Redis rate limiters (REDIS_URL)', () => {
+  const prefix = `test:${randomUUID()}:ratelimit:`;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    await connectTestRedis('ratelimit');
+  });
+
+  afterAll(async () => {
+    await redisConnectionManager.disconnectAll();
+    vi.restoreAllMocks();
+  });
+
+  it('allows limit requests per sliding window', async () => {
+    const limiter = new SlidingWindowRateLimiter({
+      connectionName: 'ratelimit', keyPrefix: `${prefix}sw:`, limit: 2, windowMs: 300, failOpen: false,
+    });
+
+    await expect(limiter.consume('user:7')).resolves.toMatchObject({ allowed: true, remaining: 1 });
+    await expect(limiter.consume('user:7')).resolves.toMatchObject({ allowed: true, remaining: 0 });
+    const rejected = await limiter.consume('user:7');
+    expect(rejected).toMatchObject({ allowed: false, remaining: 0 });
+    expect(rejected.retryAfterMs).toBeGreaterThan(0);
+    expect(rejected.retryAfterMs).toBeLessThanOrEqual(300);
+    await expect(limiter.consume('user:8')).resolves.toMatchObject({ allowed: true });
+
+    await new Promise((resolve) => setTimeout(resolve, rejected.retryAfterMs + 20));
+    await expect(limiter.consume('user:7')).resolves.toMatchObject({ allowed: true });
+  });
+
+  it('allows bursts up to capacity and refills tokens over time', async () => {
+    const limiter = new TokenBucketRateLimiter({
+      connectionName: 'ratelimit', keyPrefix: `${prefix}tb:`, capacity: 3, refillPerSecond: 10, failOpen: false,
+    });
+
+    await expect(limiter.consume('user:7', 3)).resolves.toMatchObject({ allowed: true, remaining: 0 });
+    const rejected = await limiter.consume('user:7');
+    expect(rejected.allowed).toBe(false);
+    expect(rejected.retryAfterMs).toBeGreaterThan(0);
+    expect(rejected.retryAfterMs).toBeLessThanOrEqual(100);
+
+    await new Promise((resolve) => setTimeout(resolve, rejected.retryAfterMs + 20));
+    await expect(limiter.consume('user:7')).resolves.toMatchObject({ allowed: true });
+  });
+});
@@ -0,0 +1,260 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { redisConnectionManager, getRedisClient, initializeRedis } from '../services/redis/RedisConnectionManager.js';
+import { redisConfig, getRedisClient as getConfigRedisClient } from '../configs/RedisConfig.js';
+import { BaseRedisService } from '../services/redis/BaseRedisService.js';
+import { RedisSentinelConnector } from '../services/redis/RedisSentinelConnector.js';
+import type { RedisConnectionState } from '../services/redis/RedisConnectionManager.js';
+import { FakeRedis } from './helpers/fakeRedis.js';
+import { waitFor } from './helpers/waitFor.js';
+
+class ProfileCacheService extends BaseRedisService {
+  client() {
+    return this.getRedisClient();
+  }
+}
+
+const silentLogger = { info: () => undefined, warn: () => undefined, error: () => undefined, debug: () => undefined };
+
+describe('RedisConnectionManager registry', () => {
+  let primary: FakeRedis;
+  let telemetry: FakeRedis;
+  const env = { ...process.env };
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    primary = await new FakeRedis().start();
+    telemetry = await new FakeRedis().start();
+  });
+
+  afterEach(async () => {
+    await redisConnectionManager.disconnectAll();
+    process.env = { ...env };
+  });
+
+  afterAll(async () => {
+    await primary.stop();
+    await telemetry.stop();
+    vi.restoreAllMocks();
+  });
+
+  it('keeps named connections to different servers apart', async () => {
+    await redisConnectionManager.connect('registry-primary', { host: '127.0.0.1', port: primary.port });
+    redisConnectionManager.configure('registry-telemetry', { host: '127.0.0.1', port: telemetry.port, database: 2 });
+    await redisConnectionManager.connect('registry-telemetry');
+
+    await redisConnectionManager.getClient('registry-primary').set('drone:1', 'primary');
+    await redisConnectionManager.getClient('registry-telemetry').set('drone:1', 'telemetry');
+
+    expect(primary.data.get('drone:1')).toBe('primary');
+    expect(telemetry.data.get('drone:1')).toBe('telemetry');
+    expect(telemetry.commands).toContainEqual(['SELECT', '2']);
+    expect(redisConnectionManager.getConnectionNames()).toEqual(
+      expect.arrayContaining(['registry-primary', 'registry-telemetry'])
+    );
+  });
+
+  it('reads REDIS_<NAME>_* before REDIS_* and lets explicit options win', async () => {
+    process.env.REDIS_HOST = '127.0.0.1';
+    process.env.REDIS_PORT = String(primary.port);
+    process.env.REDIS_SCOPED_ENV_PORT = String(telemetry.port);
+
+    await redisConnectionManager.connect('scoped-env');
+    await redisConnectionManager.getClient('scoped-env').set('source', 'scoped');
+    expect(telemetry.data.get('source')).toBe('scoped');
+
+    await redisConnectionManager.connect('explicit-env', { port: primary.port });
+    await redisConnectionManager.getClient('explicit-env').set('source', 'explicit');
+    expect(primary.data.get('source')).toBe('explicit');
+  });
+
+  it('shares one client between RedisConfig, getRedisClient and BaseRedisService', async () => {
+    process.env.REDIS_HOST = '127.0.0.1';
+    process.env.REDIS_PORT = String(primary.port);
+
+    await Promise.all([redisConfig.connect(), redisConnectionManager.connect()]);
+    const service = new ProfileCacheService({ logger: silentLogger, autoRecover: false });
+
+    const client = getRedisClient();
+    expect(getConfigRedisClient()).toBe(client);
+    expect(redisConfig.getClient()).toBe(client);
+    expect(service.client()).toBe(client);
+    expect(redisConfig.isClientConnected()).toBe(true);
+
+    await redisConfig.disconnect();
+    expect(redisConnectionManager.isClientConnected()).toBe(false);
+    expect(() => getRedisClient()).toThrow(/not connected/);
+  });
+
+  it('lets initializeRedis fail without throwing', async () => {
+    await expect(
+      initializeRedis('unreachable', { host: '127.0.0.1', port: 1, reconnect: { maxRetries: 0 } })
+    ).resolves.toBeUndefined();
+    expect(redisConnectionManager.isClientConnected('unreachable')).toBe(false);
+  });
+});
+
+describe('RedisConnectionManager sentinel mode', () => {
+  let sentinel: FakeRedis;
+  let masterA: FakeRedis;
+  let masterB: FakeRedis;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    sentinel = await new FakeRedis().start();
+    masterA = await new FakeRedis().start();
+    masterB = await new FakeRedis().start();
+    masterA.data.set('role', 'a');
+    masterB.data.set('role', 'b');
+  });
+
+  afterEach(async () => {
+    await redisConnectionManager.disconnectAll();
+  });
+
+  afterAll(async () => {
+    await Promise.all([sentinel.stop(), masterA.stop(), masterB.stop()]);
+    vi.restoreAllMocks();
+  });
+
+  it('can be awaited and inspected before the master is connected', async () => {
+    const connector = new RedisSentinelConnector({
+      sentinels: [{ host: '127.0.0.1', port: sentinel.port }],
+      masterName: 'unknown-master',
+    });
+    const client = connector.getClient();
+
+    await expect(Promise.resolve(client)).resolves.toBe(client);
+    expect(client.isOpen).toBe(false);
+    expect(() => client.get('role')).toThrow(/not connected/);
+    await expect(connector.connect()).rejects.toThrow(/Unable to resolve Redis master/);
+  });
+
+  it('does not use a node that no longer reports itself as master', async () => {
+    const connector = new RedisSentinelConnector({
+      sentinels: [{ host: '127.0.0.1', port: sentinel.port }],
+      masterName: 'stale-master',
+    });
+    sentinel.masters.set('stale-master', { host: '127.0.0.1', port: masterB.port });
+    masterB.role = 'slave';
+
+    try {
+      await expect(connector.connect()).rejects.toThrow(/is not a master/);
+      expect(connector.getMasterAddress()).toBeNull();
+
+      sentinel.masters.set('stale-master', { host: '127.0.0.1', port: masterA.port });
+      await connector.connect();
+      expect(await connector.getClient().get('role')).toBe('a');
+    } finally {
+      masterB.role = 'master';
+      await connector.disconnect();
+    }
+  });
+
+  it('gives up on an unreachable master and asks Sentinel again', async () => {
+    const previous = await new FakeRedis().start();
+    const unreachable = await new FakeRedis().start();
+    await unreachable.stop();
+    sentinel.masters.set('flaky-master', { host: '127.0.0.1', port: previous.port });
+    const connector = new RedisSentinelConnector({
+      sentinels: [{ host: '127.0.0.1', port: sentinel.port }],
+      masterName: 'flaky-master',
+      reconnectStrategy: () => 20,
+      connectTimeoutMs: 200,
+      onClient: (client) => client.on('error', () => undefined),
+    });
+    await connector.connect();
+
+    try {
+      // Sentinel 先回報一個無法連線的位址，之後才指向真正的新 master
+      sentinel.masters.set('flaky-master', { host: '127.0.0.1', port: unreachable.port });
+      await previous.stop();
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      sentinel.masters.set('flaky-master', { host: '127.0.0.1', port: masterB.port });
+
+      await waitFor(() => connector.getMasterAddress()?.port === masterB.port, 3000);
+      expect(await connector.getClient().get('role')).toBe('b');
+    } finally {
+      await connector.disconnect();
+    }
+  });
+
+  it('moves the client proxy and duplicated connections to the new master after failover', async () => {
+    sentinel.masters.set('mymaster', { host: '127.0.0.1', port: masterA.port });
+    await redisConnectionManager.connect('ha', {
+      mode: 'sentinel',
+      sentinels: [{ host: '127.0.0.1', port: sentinel.port }],
+      sentinelName: 'mymaster',
+    });
+
+    const client = redisConnectionManager.getClient('ha');
+    expect(await client.get('role')).toBe('a');
+
+    const reader = client.duplicate();
+    reader.on('error', () => undefined);
+    await reader.connect();
+    const subscriber = client.duplicate();
+    subscriber.on('error', () => undefined);
+    await subscriber.connect();
+    const messages: string[] = [];
+    await subscriber.subscribe('events', (message) => messages.push(message));
+    expect(await reader.get('role')).toBe('a');
+
+    await waitFor(() => sentinel.subscriberCount('+switch-master') === 1);
+    sentinel.failover('mymaster', { host: '127.0.0.1', port: masterB.port });
+    masterA.dropConnections();
+
+    await waitFor(async () => (await client.get('role').catch(() => null)) === 'b');
+    await waitFor(async () => (await reader.get('role').catch(() => null)) === 'b');
+    await waitFor(() => masterB.subscriberCount('events') === 1);
+    masterB.publish('events', 'after-failover');
+    await waitFor(() => messages.includes('after-failover'));
+
+    // 已退役 master 的連線不會回報錯誤狀態
+    expect(redisConnectionManager.isClientConnected('ha')).toBe(true);
+    await reader.quit();
+    await subscriber.quit();
+  });
+});
+
+describe('RedisConnectionManager cluster mode', () => {
+  let node: FakeRedis;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    node = await new FakeRedis().start();
+  });
+
+  afterAll(async () => {
+    await redisConnectionManager.disconnectAll();
+    await node.stop();
+    vi.restoreAllMocks();
+  });
+
+  it('exposes the cluster client separately and reports disconnects and recovery', async () => {
+    await redisConnectionManager.connect('grid', {
+      mode: 'cluster',
+      clusterNodes: [{ host: '127.0.0.1', port: node.port }],
+      reconnect: { initialDelayMs: 10, maxDelayMs: 50 },
+    });
+
+    const cluster = redisConnectionManager.getClusterClient('grid');
+    await cluster.set('drone:1', 'online');
+    expect(node.data.get('drone:1')).toBe('online');
+    expect(() => redisConnectionManager.getClient('grid')).toThrow(/cluster mode/);
+
+    const states: RedisConnectionState[] = [];
+    redisConnectionManager.watchConnection('grid', (event) => states.push(event.state));
+
+    const port = node.port;
+    await node.stop();
+    await waitFor(() => states.includes('disconnected'));
+    expect(redisConnectionManager.isClientConnected('grid')).toBe(false);
+
+    await node.start(port);
+    await waitFor(() => states[states.length - 1] === 'connected');
+    expect(await cluster.get('drone:1')).toBe('online');
+  });
+});
@@ -0,0 +1,92 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { randomUUID } from 'node:crypto';
+import { RedisEventBus, defineEventTopic, type StreamEvent } from '../services/redis/RedisEventBus.js';
+import { redisConnectionManager } from '../services/redis/RedisConnectionManager.js';
+import { REDIS_URL, connectTestRedis } from './helpers/redisUrl.js';
+import { waitFor } from './helpers/waitFor.js';
+
+interface DroneTelemetry {
+  droneId: string;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe.skipIf(!REDIS_URL)('RedisEventBus (REDIS_URL)', () => {
+  const streamPrefix = `test:${randomUUID()}:events:`;
+  const bus = new RedisEventBus({ connectionName: 'events', streamPrefix });
+  const topic = defineEventTopic<DroneTelemetry>('drone.telemetry');
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    await connectTestRedis('events');
+  });
+
+  afterAll(async () => {
+    await redisConnectionManager.disconnectAll();
+    vi.restoreAllMocks();
+  });
+
+  it('does not reclaim messages still queued behind a slow handler of the same consumer', async () => {
+    const handled: Array<StreamEvent<DroneTelemetry>> = [];
+    const subscription = await bus.subscribe(topic, 'archive', async (event) => {
+      await sleep(300);
+      handled.push(event);
+    }, { blockMs: 50, claimIdleMs: 50, claimIntervalMs: 20 });
+
+    await bus.publish(topic, { droneId: 'D-01' });
+    await bus.publish(topic, { droneId: 'D-02' });
+    await waitFor(() => handled.length === 2, 3000);
+    // 多留幾輪接手檢查的時間，確認沒有重複處理
+    await sleep(400);
+    await subscription.stop();
+
+    expect(handled.map((event) => event.payload.droneId)).toEqual(['D-01', 'D-02']);
+    expect(handled.map((event) => event.deliveryCount)).toEqual([1, 1]);
+  });
+
+  it('walks the pending list past batchSize instead of rescanning its head', async () => {
+    const redis = redisConnectionManager.getClient('events');
+    const streamKey = bus.getStreamKey(topic);
+    await redis.xGroupCreate(streamKey, 'audit', '$', { MKSTREAM: true });
+    for (let i = 1; i <= 6; i++) {
+      await bus.publish(topic, { droneId: `D-1${i}` });
+    }
+    // 讀取後就當機的消費者，訊息留在它的 pending 清單中
+    await redis.xReadGroup('audit', 'crashed', { key: streamKey, id: '>' }, { COUNT: 10 });
+
+    const consumer = new RedisEventBus({ connectionName: 'events', streamPrefix, consumerName: 'audit-1' });
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const handled: string[] = [];
+    const subscription = await consumer.subscribe(topic, 'audit', async (event) => {
+      await released;
+      handled.push(event.payload.droneId);
+    }, { blockMs: 50, batchSize: 2, claimIdleMs: 30, claimIntervalMs: 20 });
+
+    // 前兩筆卡在處理函式時，後面的訊息仍會被接手
+    await waitFor(async () => (await redis.xPendingRange(streamKey, 'audit', '-', '+', 10, { consumer: 'audit-1' })).length === 6, 2000);
+    release();
+    await waitFor(() => handled.length === 6, 3000);
+    await subscription.stop();
+
+    expect(handled).toEqual(['D-11', 'D-12', 'D-13', 'D-14', 'D-15', 'D-16']);
+  });
+
+  it('redelivers failed messages and moves them to the dead-letter stream', async () => {
+    const attempts: number[] = [];
+    const subscription = await bus.subscribe(topic, 'billing', async (event) => {
+      attempts.push(event.deliveryCount);
+      throw new Error('billing down');
+    }, { blockMs: 50, claimIdleMs: 50, claimIntervalMs: 20, maxDeliveries: 2 });
+
+    await bus.publish(topic, { droneId: 'D-03' });
+    const redis = redisConnectionManager.getClient('events');
+    await waitFor(async () => (await redis.xLen(bus.getDeadLetterKey(topic))) === 1, 3000);
+    await subscription.stop();
+
+    expect(attempts).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,81 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { randomUUID } from 'node:crypto';
+import { RedisJobQueue, type JobWorker } from '../services/redis/RedisJobQueue.js';
+import { redisConnectionManager } from '../services/redis/RedisConnectionManager.js';
+import { REDIS_URL, connectTestRedis } from './helpers/redisUrl.js';
+import { waitFor } from './helpers/waitFor.js';
+
+describe.skipIf(!REDIS_URL)('RedisJobQueue (REDIS_URL)', () => {
+  let worker: JobWorker | undefined;
+
+  const createQueue = () => new RedisJobQueue<{ reportId: number }>(`test-${randomUUID()}`, { connectionName: 'jobs' });
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    await connectTestRedis('jobs');
+  });
+
+  afterEach(async () => {
+    await worker?.close();
+    worker = undefined;
+  });
+
+  afterAll(async () => {
+    await redisConnectionManager.disconnectAll();
+    vi.restoreAllMocks();
+  });
+
+  it('completes jobs and retries failures until attempts run out', async () => {
+    const queue = createQueue();
+    const done = await queue.add('generate', { reportId: 1 });
+    const broken = await queue.add('generate', { reportId: 2 }, {
+      attempts: 2,
+      backoff: { type: 'fixed', delayMs: 10 },
+    });
+
+    worker = queue.process(async (job) => {
+      if (job.data.reportId === 2) throw new Error('renderer down');
+      return { pages: 3 };
+    }, { pollIntervalMs: 10 });
+
+    await waitFor(async () => (await queue.getJob(broken))?.state === 'failed');
+    await expect(queue.getJob(done)).resolves.toMatchObject({ state: 'completed', result: { pages: 3 } });
+    await expect(queue.getJob(broken)).resolves.toMatchObject({ attemptsMade: 2, failedReason: 'renderer down' });
+  });
+
+  it('pages by offset when one is given', async () => {
+    const queue = createQueue();
+    for (let reportId = 1; reportId <= 5; reportId++) {
+      await queue.add('generate', { reportId }, { jobId: `report-${reportId}` });
+    }
+
+    const middle = await queue.getJobs('waiting', { offset: 2, pageSize: 2 });
+    expect(middle.data.map((job) => job.id)).toEqual(['report-3', 'report-4']);
+    expect(middle.pagination).toMatchObject({ currentPage: 2, totalCount: 5, totalPages: 3, hasNext: true, hasPrevious: true });
+
+    const last = await queue.getJobs('waiting', { offset: 3, pageSize: 2, page: 1 });
+    expect(last.data.map((job) => job.id)).toEqual(['report-4', 'report-5']);
+    expect(last.pagination).toMatchObject({ hasNext: false, hasPrevious: true });
+
+    const first = await queue.getJobs('waiting', { page: 1, pageSize: 2 });
+    expect(first.pagination).toMatchObject({ currentPage: 1, hasNext: true, hasPrevious: false });
+  });
+
+  it('keeps a repeatable job running after scheduling its next run fails', async () => {
+    const queue = createQueue();
+    // 下一次排程先讀取週期性工作定義，讓第一次讀取失敗
+    const readDefinition = vi.spyOn(redisConnectionManager.getClient('jobs'), 'hGet')
+      .mockRejectedValueOnce(new Error('connection reset'));
+    const runs: number[] = [];
+
+    await queue.addRepeatable('cleanup', { reportId: 0 }, { everyMs: 100 });
+    worker = queue.process(async () => {
+      runs.push(Date.now());
+    }, { pollIntervalMs: 10, stalledCheckIntervalMs: 50 });
+
+    await waitFor(() => runs.length >= 3, 3000);
+    await expect(readDefinition.mock.results[0].value).rejects.toThrow('connection reset');
+    readDefinition.mockRestore();
+  });
+});
@@ -0,0 +1,108 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { randomUUID } from 'node:crypto';
+import {
+  RedisLock,
+  RedisLockTimeoutError,
+  RedisLockUnavailableError,
+  RedisLockLostError,
+} from '../services/redis/RedisLock.js';
+import { redisConnectionManager } from '../services/redis/RedisConnectionManager.js';
+import { REDIS_URL, connectTestRedis } from './helpers/redisUrl.js';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('RedisLock without Redis', () => {
+  const lock = new RedisLock({ connectionName: 'lock-offline' });
+
+  beforeAll(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('refuses to acquire when the connection is down', async () => {
+    await expect(lock.acquire('scheduler')).rejects.toBeInstanceOf(RedisLockUnavailableError);
+    await expect(lock.withLock('scheduler', async () => 'ran')).rejects.toBeInstanceOf(RedisLockUnavailableError);
+  });
+
+  it('runs without a lock when whenUnavailable is run', async () => {
+    const fn = vi.fn(async (handle: unknown) => handle);
+
+    await expect(lock.withLock('scheduler', fn, { whenUnavailable: 'run' })).resolves.toBeNull();
+    expect(fn).toHaveBeenCalledWith(null);
+  });
+});
+
+describe.skipIf(!REDIS_URL)('RedisLock (REDIS_URL)', () => {
+  const lock = new RedisLock({ connectionName: 'lock', keyPrefix: `test:${randomUUID()}:lock:` });
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    await connectTestRedis('lock');
+  });
+
+  afterAll(async () => {
+    await redisConnectionManager.disconnectAll();
+    vi.restoreAllMocks();
+  });
+
+  it('grants the lock to one holder at a time and waits for release', async () => {
+    const first = await lock.acquire('drone:1', { ttlMs: 5000 });
+    expect(first).not.toBeNull();
+    await expect(lock.acquire('drone:1')).resolves.toBeNull();
+
+    const waiting = lock.acquire('drone:1', { waitMs: 1000, retryDelayMs: 20 });
+    await sleep(50);
+    await expect(first!.release()).resolves.toBe(true);
+
+    const second = await waiting;
+    expect(second).not.toBeNull();
+    await second!.release();
+  });
+
+  it('does not release a lock held by someone else', async () => {
+    const first = await lock.acquire('drone:2', { ttlMs: 100 });
+    await sleep(150);
+    const second = await lock.acquire('drone:2', { ttlMs: 5000 });
+
+    await expect(first!.release()).resolves.toBe(false);
+    expect(second!.isHeld()).toBe(true);
+    await expect(lock.acquire('drone:2')).resolves.toBeNull();
+    await second!.release();
+  });
+
+  it('throws RedisLockTimeoutError from withLock when the wait runs out', async () => {
+    const holder = await lock.acquire('drone:3', { ttlMs: 5000 });
+
+    await expect(lock.withLock('drone:3', async () => 'ran', { waitMs: 50, retryDelayMs: 10 }))
+      .rejects.toBeInstanceOf(RedisLockTimeoutError);
+    await holder!.release();
+  });
+
+  it('extends the lease while work runs and releases it afterwards', async () => {
+    const result = await lock.withLock('drone:4', async (handle) => {
+      await sleep(350);
+      expect(handle!.isHeld()).toBe(true);
+      await expect(lock.acquire('drone:4')).resolves.toBeNull();
+      return 'done';
+    }, { ttlMs: 150 });
+
+    expect(result).toBe('done');
+    const next = await lock.acquire('drone:4');
+    expect(next).not.toBeNull();
+    await next!.release();
+  });
+
+  it('aborts the signal when the lease is lost', async () => {
+    const handle = await lock.acquire('drone:5', { ttlMs: 5000 });
+    await redisConnectionManager.getClient('lock').set(handle!.key, 'someone-else');
+
+    await expect(handle!.extend()).resolves.toBe(false);
+    expect(handle!.signal.aborted).toBe(true);
+    expect(handle!.signal.reason).toBeInstanceOf(RedisLockLostError);
+    expect(handle!.isHeld()).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import express from 'express';
+import { createValidationMiddleware, type ValidatedRequest } from '../utils/requestValidation.js';
+import { Schemas, ValidationRules } from '../utils/validation.js';
+
+const listSchemas = {
+  params: Schemas.object({ fleetId: Schemas.integer({ min: 1 }) }),
+  query: Schemas.object({
+    status: Schemas.optional(Schemas.enum([1, 2])),
+    mode: Schemas.optional(Schemas.enum(['auto', '1'])),
+    page: Schemas.optional(Schemas.integer({ min: 1 })),
+    active: Schemas.optional(Schemas.boolean()),
+    tags: Schemas.optional(Schemas.array(Schemas.string())),
+  }),
+};
+
+const createSchemas = {
+  body: Schemas.object({
+    name: Schemas.string([ValidationRules.required()]),
+    waypoints: Schemas.array(Schemas.object({ lat: Schemas.number({ min: -90, max: 90 }) })),
+  }),
+};
+
+describe('createValidationMiddleware', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.get('/fleets/:fleetId/drones', createValidationMiddleware(listSchemas), (req, res) => {
+      const { params, query } = req as unknown as ValidatedRequest<typeof listSchemas>;
+      res.json({ params, query });
+    });
+    app.post('/missions', createValidationMiddleware(createSchemas, { details: true }), (req, res) => {
+      res.json(req.body);
+    });
+    server = app.listen(0, '127.0.0.1');
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('coerces params and query strings, including numeric enums', async () => {
+    const response = await fetch(`${baseUrl}/fleets/7/drones?status=1&mode=1&page=2&active=true&tags=survey&extra=x`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      params: { fleetId: 7 },
+      query: { status: 1, mode: '1', page: 2, active: true, tags: ['survey'] },
+    });
+  });
+
+  it('answers 400 with prefixed, localized field errors', async () => {
+    const response = await fetch(`${baseUrl}/fleets/0/drones?status=3&page=abc`, {
+      headers: { 'Accept-Language': 'zh-TW' },
+    });
+
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body.message).toBe('資料驗證失敗');
+    expect(Object.keys(body.data)).toEqual(['params.fleetId', 'query.status', 'query.page']);
+    expect(body.data['params.fleetId']).toEqual(['不可小於 1']);
+  });
+
+  it('sanitizes the body, drops undeclared fields and reports error details', async () => {
+    const post = (body: unknown) => fetch(`${baseUrl}/missions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+    const accepted = await post({ name: ' <b>Survey</b> ', waypoints: [{ lat: 25 }], operator: 'x' });
+    expect(await accepted.json()).toEqual({ name: 'bSurvey/b', waypoints: [{ lat: 25 }] });
+
+    const rejected = await post({ name: 'Survey', waypoints: [{ lat: 25 }, { lat: 91 }] });
+    expect(rejected.status).toBe(400);
+    expect((await rejected.json()).data).toEqual({
+      'waypoints[1].lat': [{ code: 'validation.max', message: expect.any(String), params: { max: 90 } }],
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { Schemas, ValidationRules, Validator, type InferSchema } from '../utils/validation.js';
+
+const missionSchema = Schemas.object({
+  name: Schemas.string([ValidationRules.required(), ValidationRules.maxLength(20)]),
+  droneId: Schemas.uuid(),
+  priority: Schemas.enum(['low', 'normal', 'high']),
+  scheduledAt: Schemas.optional(Schemas.date()),
+  returnHome: Schemas.boolean(),
+  waypoints: Schemas.array(Schemas.object({
+    lat: Schemas.number({ min: -90, max: 90 }),
+    lng: Schemas.number({ min: -180, max: 180 }),
+    altitude: Schemas.nullable(Schemas.integer({ min: 0 })),
+  }), { minItems: 1, maxItems: 3 }),
+});
+
+const validMission = {
+  name: 'Survey A',
+  droneId: '1b4e28ba-2fa1-41d2-883f-0016d3cca427',
+  priority: 'high',
+  returnHome: true,
+  waypoints: [
+    { lat: 25.03, lng: 121.56, altitude: 120 },
+    { lat: 25.04, lng: 121.57, altitude: null },
+  ],
+};
+
+describe('Validator schemas', () => {
+  it('accepts a valid nested payload', () => {
+    expect(Validator.validateObject(validMission, missionSchema)).toEqual([]);
+  });
+
+  it('reports nested errors with dotted and indexed paths', () => {
+    const errors = Validator.validateObject({
+      ...validMission,
+      waypoints: [
+        { lat: 25.03, lng: 121.56, altitude: 120 },
+        { lat: 91, lng: 'east', altitude: 1.5 },
+      ],
+    }, missionSchema);
+
+    expect(errors.map(({ field, code }) => ({ field, code }))).toEqual([
+      { field: 'waypoints[1].lat', code: 'validation.max' },
+      { field: 'waypoints[1].lng', code: 'validation.number' },
+      { field: 'waypoints[1].altitude', code: 'validation.integer' },
+    ]);
+    expect(errors[0].params).toEqual({ max: 90 });
+    expect(Object.keys(Validator.formatValidationErrors(errors))).toEqual([
+      'waypoints[1].lat',
+      'waypoints[1].lng',
+      'waypoints[1].altitude',
+    ]);
+  });
+
+  it('checks types, enums, optional and nullable fields', () => {
+    const errors = Validator.validateObject({
+      name: '',
+      droneId: 'not-a-uuid',
+      priority: 'urgent',
+      scheduledAt: 'tomorrow',
+      returnHome: 'yes',
+      waypoints: null,
+    }, missionSchema);
+
+    expect(errors.map(({ field, code }) => ({ field, code }))).toEqual([
+      { field: 'name', code: 'validation.required' },
+      { field: 'droneId', code: 'validation.uuid' },
+      { field: 'priority', code: 'validation.enum' },
+      { field: 'scheduledAt', code: 'validation.date' },
+      { field: 'returnHome', code: 'validation.boolean' },
+      { field: 'waypoints', code: 'validation.notNull' },
+    ]);
+  });
+
+  it('enforces array bounds and reports missing required fields', () => {
+    const { waypoints: _waypoints, ...withoutWaypoints } = validMission;
+
+    expect(Validator.validateObject(withoutWaypoints, missionSchema)).toMatchObject([
+      { field: 'waypoints', code: 'validation.required' },
+    ]);
+    expect(Validator.validateObject({ ...validMission, waypoints: [] }, missionSchema)).toMatchObject([
+      { field: 'waypoints', code: 'validation.minItems', params: { min: 1 } },
+    ]);
+    const tooMany = Array.from({ length: 4 }, () => validMission.waypoints[0]);
+    expect(Validator.validateObject({ ...validMission, waypoints: tooMany }, missionSchema)).toMatchObject([
+      { field: 'waypoints', code: 'validation.maxItems', params: { max: 3 } },
+    ]);
+  });
+
+  it('prefixes paths with the given base path in validateSchema', () => {
+    expect(Validator.validateSchema({ lat: 100 }, Schemas.object({ lat: Schemas.number({ max: 90 }) }), 'home'))
+      .toMatchObject([{ field: 'home.lat', code: 'validation.max' }]);
+  });
+
+  it('keeps flat rule arrays working', () => {
+    const errors = Validator.validateObject({ email: 'pilot', password: 'short' }, [
+      { field: 'email', rules: [ValidationRules.required(), ValidationRules.email()] },
+      { field: 'password', rules: [ValidationRules.minLength(8)] },
+      { field: 'callsign', rules: [ValidationRules.required()] },
+    ]);
+
+    expect(errors.map(({ field, code }) => ({ field, code }))).toEqual([
+      { field: 'email', code: 'validation.email' },
+      { field: 'password', code: 'validation.minLength' },
+      { field: 'callsign', code: 'validation.required' },
+    ]);
+  });
+});
+
+describe('Validator.parse', () => {
+  it('returns typed data with dates converted and undeclared fields dropped', () => {
+    const result = Validator.parse(missionSchema, {
+      ...validMission,
+      scheduledAt: '2026-05-01T08:00:00Z',
+      operator: 'should be dropped',
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.scheduledAt).toEqual(new Date('2026-05-01T08:00:00Z'));
+    expect(result.data).not.toHaveProperty('operator');
+    expect(result.data.waypoints[1]).toEqual({ lat: 25.04, lng: 121.57, altitude: null });
+  });
+
+  it('leaves absent optional fields out of the output', () => {
+    const result = Validator.parse(missionSchema, validMission);
+
+    expect(result.success && Object.keys(result.data)).toEqual(['name', 'droneId', 'priority', 'returnHome', 'waypoints']);
+  });
+
+  it('returns the validation errors instead of data on failure', () => {
+    const result = Validator.parse(missionSchema, { ...validMission, priority: 'urgent' });
+
+    expect(result).toMatchObject({ success: false, errors: [{ field: 'priority', code: 'validation.enum' }] });
+    expect(result).not.toHaveProperty('data');
+  });
+
+  it('infers the output type from the schema', () => {
+    type Mission = InferSchema<typeof missionSchema>;
+
+    expectTypeOf<Mission['priority']>().toEqualTypeOf<'low' | 'normal' | 'high'>();
+    expectTypeOf<Mission['scheduledAt']>().toEqualTypeOf<Date | undefined>();
+    expectTypeOf<Mission['waypoints'][number]['altitude']>().toEqualTypeOf<number | null>();
+    expectTypeOf<Mission>().toHaveProperty('returnHome').toEqualTypeOf<boolean>();
+
+    const result = Validator.parse(missionSchema, validMission);
+    if (result.success) {
+      expectTypeOf(result.data).toEqualTypeOf<Mission>();
+    }
+  });
+});
+
+describe('Validator async and cross-field rules', () => {
+  const delayed = <T>(value: T, ms: number) => new Promise<T>((resolve) => setTimeout(() => resolve(value), ms));
+
+  it('passes the whole object and siblings to custom validators', () => {
+    const rules = [{
+      field: 'endTime',
+      rules: [ValidationRules.custom(
+        (end, { data, parent, field }) => field === 'endTime' && data === parent && new Date(end) > new Date(parent.startTime),
+        'endTime must be after startTime'
+      )],
+    }];
+
+    expect(Validator.validateObject({ startTime: '2026-05-01T08:00:00Z', endTime: '2026-05-01T09:00:00Z' }, rules)).toEqual([]);
+    expect(Validator.validateObject({ startTime: '2026-05-01T08:00:00Z', endTime: '2026-05-01T07:00:00Z' }, rules))
+      .toEqual([{ field: 'endTime', message: 'endTime must be after startTime', code: 'validation.custom' }]);
+  });
+
+  it('keeps errors in declaration order regardless of which validator settles first', async () => {
+    const errors = await Validator.validateObjectAsync({ serialNumber: 'SN-1', callsign: 'HAWK' }, [
+      { field: 'serialNumber', rules: [ValidationRules.custom(() => delayed(false, 40), 'Serial number already registered')] },
+      { field: 'callsign', rules: [ValidationRules.custom(() => delayed(false, 5), 'Callsign taken')] },
+      { field: 'model', rules: [ValidationRules.required()] },
+    ]);
+
+    expect(errors.map(({ field }) => field)).toEqual(['serialNumber', 'callsign', 'model']);
+  });
+
+  it('runs async validators concurrently', async () => {
+    const started = Date.now();
+    await Validator.validateObjectAsync({}, [
+      { field: 'a', rules: [ValidationRules.custom(() => delayed(true, 100))] },
+      { field: 'b', rules: [ValidationRules.custom(() => delayed(true, 100))] },
+      { field: 'c', rules: [ValidationRules.custom(() => delayed(true, 100))] },
+    ]);
+
+    expect(Date.now() - started).toBeLessThan(250);
+  });
+
+  it('fails validators that exceed their timeout', async () => {
+    const errors = await Validator.validateObjectAsync({ serialNumber: 'SN-1' }, [
+      { field: 'serialNumber', rules: [ValidationRules.custom(() => delayed(true, 200), undefined, 20)] },
+      { field: 'model', rules: [ValidationRules.custom(() => delayed(true, 200))] },
+    ], { timeoutMs: 30 });
+
+    expect(errors.map(({ field, code }) => ({ field, code }))).toEqual([
+      { field: 'serialNumber', code: 'validation.timeout' },
+      { field: 'model', code: 'validation.timeout' },
+    ]);
+  });
+
+  it('rejects async validators in synchronous validation', () => {
+    expect(() => Validator.validateObject({ serialNumber: 'SN-1' }, [
+      { field: 'serialNumber', rules: [ValidationRules.custom(async () => true)] },
+    ])).toThrow(/validateObjectAsync/);
+  });
+
+  it('propagates errors thrown by async validators', async () => {
+    await expect(Validator.validateObjectAsync({ serialNumber: 'SN-1' }, [
+      { field: 'serialNumber', rules: [ValidationRules.custom(async () => { throw new Error('redis down'); })] },
+    ])).rejects.toThrow('redis down');
+  });
+
+  it('runs async rules inside nested schemas with parseAsync', async () => {
+    const schema = Schemas.object({
+      waypoints: Schemas.array(Schemas.object({
+        lat: Schemas.number(),
+        zone: Schemas.string([ValidationRules.custom(async (zone, { data, parent, field }) => {
+          await delayed(null, 5);
+          expect(parent).toBe(data.waypoints[Number(field.match(/\[(\d+)\]/)![1])]);
+          return zone !== 'restricted' || parent.lat < 26;
+        }, 'Restricted zone')]),
+      })),
+    });
+
+    const result = await Validator.parseAsync(schema, {
+      waypoints: [{ lat: 25, zone: 'restricted' }, { lat: 26, zone: 'restricted' }],
+    });
+
+    expect(result).toMatchObject({ success: false, errors: [{ field: 'waypoints[1].zone', message: 'Restricted zone' }] });
+  });
+});
@@ -13,6 +13,7 @@
 
 import type { PaginationInfo } from '../types/PaginationTypes.js';
 import type { ApiResponseFormat } from '../types/ApiResponseTypes.js';
+import { MessageCatalog } from './messages.js';
 
 /**
  * 請求結果處理類別
@@ -139,7 +140,7 @@ export class ReqResult<T = any> {
      * 用於處理非 axios 錯誤的情況
      * 
      * @param {Error} error - 一般錯誤物件
-     * @param {string} [defaultMessage='發生未知錯誤'] - 預設錯誤訊息
+     * @param {string} [defaultMessage] - 預設錯誤訊息，預設為 zh-TW 的 result.unknownError（'發生未知錯誤'）
      * @returns {ReqResult} 包含錯誤資訊的 ReqResult 實例
      * 
      * @example
@@ -152,7 +153,7 @@ export class ReqResult<T = any> {
      * }
      * ```
      */
-    static fromError(error: Error, defaultMessage: string = '發生未知錯誤'): ReqResult {
+    static fromError(error: Error, defaultMessage: string = MessageCatalog.translate('result.unknownError', {}, 'zh-TW')): ReqResult {
         return new ReqResult(500, error.message || defaultMessage, undefined, undefined);
     }
 
@@ -186,12 +187,12 @@ export class ReqResult<T = any> {
      * 創建未授權回應（401 Unauthorized）
      *
      * @template T
-     * @param message 未授權訊息，預設為 'Unauthorized'
+     * @param message 未授權訊息，預設依 MessageCatalog 預設語系取用 result.unauthorized
      * @param data 回應資料（可選）
      * @param pagination 分頁資訊（可選）
      * @returns ReqResult 實例
      */
-    static unauthorized<T = any>(message: string = 'Unauthorized', data?: T, pagination?: PaginationInfo): ReqResult<T> {
+    static unauthorized<T = any>(message: string = MessageCatalog.translate('result.unauthorized'), data?: T, pagination?: PaginationInfo): ReqResult<T> {
         return new ReqResult(401, message, data, pagination);
     }
 
@@ -199,12 +200,12 @@ export class ReqResult<T = any> {
      * 創建禁止存取回應（403 Forbidden）
      *
      * @template T
-     * @param message 禁止存取訊息，預設為 'Forbidden'
+     * @param message 禁止存取訊息，預設依 MessageCatalog 預設語系取用 result.forbidden
      * @param data 回應資料（可選）
      * @param pagination 分頁資訊（可選）
      * @returns ReqResult 實例
      */
-    static forbidden<T = any>(message: string = 'Forbidden', data?: T, pagination?: PaginationInfo): ReqResult<T> {
+    static forbidden<T = any>(message: string = MessageCatalog.translate('result.forbidden'), data?: T, pagination?: PaginationInfo): ReqResult<T> {
         return new ReqResult(403, message, data, pagination);
     }
 
@@ -212,12 +213,12 @@ export class ReqResult<T = any> {
      * 創建找不到資源回應（404 Not Found）
      *
      * @template T
-     * @param message 找不到資源訊息，預設為 'Not Found'
+     * @param message 找不到資源訊息，預設依 MessageCatalog 預設語系取用 result.notFound
      * @param data 回應資料（可選）
      * @param pagination 分頁資訊（可選）
      * @returns ReqResult 實例
      */
-    static notFound<T = any>(message: string = 'Not Found', data?: T, pagination?: PaginationInfo): ReqResult<T> {
+    static notFound<T = any>(message: string = MessageCatalog.translate('result.notFound'), data?: T, pagination?: PaginationInfo): ReqResult<T> {
         return new ReqResult(404, message, data, pagination);
     }
 
@@ -225,12 +226,12 @@ export class ReqResult<T = any> {
      * 創建伺服器錯誤回應（500 Internal Server Error）
      *
      * @template T
-     * @param message 伺服器錯誤訊息，預設為 'Internal Server Error'
+     * @param message 伺服器錯誤訊息，預設依 MessageCatalog 預設語系取用 result.internalError
      * @param data 回應資料（可選）
      * @param pagination 分頁資訊（可選）
      * @returns ReqResult 實例
      */
-    static internalError<T = any>(message: string = 'Internal Server Error', data?: T, pagination?: PaginationInfo): ReqResult<T> {
+    static internalError<T = any>(message: string = MessageCatalog.translate('result.internalError'), data?: T, pagination?: PaginationInfo): ReqResult<T> {
         return new ReqResult(500, message, data, pagination);
     }
 
@@ -14,6 +14,7 @@
  */
 
 import type { PaginationInfo } from '../types/PaginationTypes';
+import { MessageCatalog } from './messages.js';
 
 /**
  * 控制器結果類別
@@ -156,36 +157,36 @@ export class ResResult<T = any> {
     /**
      * 創建未授權回應（401 Unauthorized）
      *
-     * @param message 未授權訊息，預設為 'Unauthorized'
+     * @param message 未授權訊息，預設依 MessageCatalog 預設語系取用 result.unauthorized
      * @param data 回應資料（可選）
      * @param pagination 分頁資訊（可選）
      * @returns ResResult 實例
      */
-    static unauthorized<T = any>(message: string = 'Unauthorized', data?: T, pagination?: PaginationInfo): ResResult<T> {
+    static unauthorized<T = any>(message: string = MessageCatalog.translate('result.unauthorized'), data?: T, pagination?: PaginationInfo): ResResult<T> {
         return new ResResult(401, message, data, pagination);
     }
 
     /**
      * 創建禁止存取回應（403 Forbidden）
      *
-     * @param message 禁止存取訊息，預設為 'Forbidden'
+     * @param message 禁止存取訊息，預設依 MessageCatalog 預設語系取用 result.forbidden
      * @param data 回應資料（可選）
      * @param pagination 分頁資訊（可選）
      * @returns ResResult 實例
      */
-    static forbidden<T = any>(message: string = 'Forbidden', data?: T, pagination?: PaginationInfo): ResResult<T> {
+    static forbidden<T = any>(message: string = MessageCatalog.translate('result.forbidden'), data?: T, pagination?: PaginationInfo): ResResult<T> {
         return new ResResult(403, message, data, pagination);
     }
 
     /**
      * 創建找不到資源回應（404 Not Found）
      *
-     * @param message 找不到資源訊息，預設為 'Not Found'
+     * @param message 找不到資源訊息，預設依 MessageCatalog 預設語系取用 result.notFound
      * @param data 回應資料（可選）
      * @param pagination 分頁資訊（可選）
      * @returns ResResult 實例
      */
-    static notFound<T = any>(message: string = 'Not Found', data?: T, pagination?: PaginationInfo): ResResult<T> {
+    static notFound<T = any>(message: string = MessageCatalog.translate('result.notFound'), data?: T, pagination?: PaginationInfo): ResResult<T> {
         return new ResResult(404, message, data, pagination);
     }
 
@@ -204,12 +205,12 @@ export class ResResult<T = any> {
     /**
      * 創建伺服器錯誤回應（500 Internal Server Error）
      *
-     * @param message 伺服器錯誤訊息，預設為 'Internal Server Error'
+     * @param message 伺服器錯誤訊息，預設依 MessageCatalog 預設語系取用 result.internalError
      * @param data 回應資料（可選）
      * @param pagination 分頁資訊（可選）
      * @returns ResResult 實例
      */
-    static internalError<T = any>(message: string = 'Internal Server Error', data?: T, pagination?: PaginationInfo): ResResult<T> {
+    static internalError<T = any>(message: string = MessageCatalog.translate('result.internalError'), data?: T, pagination?: PaginationInfo): ResResult<T> {
         return new ResResult(500, message, data, pagination);
     }
 
@@ -1,5 +1,8 @@
 // Consul 服務註冊和發現工具
 
+import * as http from 'http';
+import * as https from 'https';
+
 export interface ConsulServiceConfig {
   serviceName: string;
   serviceId: string;
@@ -11,27 +14,142 @@ export interface ConsulServiceConfig {
     http?: string;
     grpc?: string;
     tcp?: string;
+    /** TTL 檢查，服務需在期限內回報 pass，例如 '15s' */
+    ttl?: string;
     interval?: string;
     timeout?: string;
     deregisterCriticalServiceAfter?: string;
   };
 }
 
+/**
+ * Consul 中的服務實例
+ */
+export interface ConsulServiceInstance {
+  id: string;
+  name: string;
+  address: string;
+  port: number;
+  tags: string[];
+  meta: Record<string, string>;
+}
+
+/**
+ * 服務實例變更事件
+ */
+export interface ConsulServiceChange {
+  /** 目前所有健康實例 */
+  instances: ConsulServiceInstance[];
+  /** 新加入的實例 */
+  added: ConsulServiceInstance[];
+  /** 已離開的實例 */
+  removed: ConsulServiceInstance[];
+  /** Consul 索引（X-Consul-Index） */
+  index: number;
+}
+
+/**
+ * 服務監聽選項
+ */
+export interface ConsulWatchOptions {
+  /** 用於取消監聽 */
+  signal?: AbortSignal;
+  /** 阻塞查詢的最長等待時間，預設 5m */
+  wait?: string;
+  /** 錯誤重試的最小退避時間（毫秒），預設 1 秒 */
+  minBackoffMs?: number;
+  /** 錯誤重試的最大退避時間（毫秒），預設 30 秒 */
+  maxBackoffMs?: number;
+}
+
+/**
+ * Consul 連線選項
+ */
+export interface ConsulClientOptions {
+  /** ACL token，以 X-Consul-Token 標頭送出 */
+  token?: string;
+  /** 連線協定，預設 http */
+  scheme?: 'http' | 'https';
+  /** 自訂 CA 憑證（PEM），用於 HTTPS */
+  ca?: string | Buffer;
+  /** 查詢的資料中心（dc 參數），僅套用於 catalog/health/KV 查詢 */
+  datacenter?: string;
+  /** Consul Enterprise 命名空間（ns 參數） */
+  namespace?: string;
+  /** 單次請求逾時（毫秒），預設 10 秒；阻塞查詢會再加上 wait 時間 */
+  timeoutMs?: number;
+}
+
+/**
+ * Consul 請求錯誤
+ */
+export class ConsulError extends Error {
+  /** HTTP 狀態碼，連線失敗時為 undefined */
+  public readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'ConsulError';
+    this.status = status;
+  }
+}
+
+/**
+ * ACL 驗證失敗（401/403），通常為 token 無效或權限不足
+ */
+export class ConsulAuthError extends ConsulError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'ConsulAuthError';
+  }
+}
+
+/**
+ * 無法連線到 Consul agent（連線被拒、DNS 失敗或逾時）
+ */
+export class ConsulUnreachableError extends ConsulError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConsulUnreachableError';
+  }
+}
+
+interface ConsulRequestOptions {
+  query?: Record<string, string | number | boolean | undefined>;
+  body?: unknown;
+  signal?: AbortSignal;
+  /** 額外增加的逾時（毫秒），用於阻塞查詢 */
+  extraTimeoutMs?: number;
+  /** 是否帶入 dc 參數 */
+  scoped?: boolean;
+}
+
+interface ConsulResponse {
+  status: number;
+  statusText: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
 export class ConsulHelper {
   private consulHost: string;
   private consulPort: number;
+  private options: ConsulClientOptions;
+  /** 由 watchService 維護的健康實例快取 */
+  private watchedServices: Map<string, ConsulServiceInstance[]> = new Map();
+  /** 每個服務目前的監聽數 */
+  private watcherCounts: Map<string, number> = new Map();
 
-  constructor(consulHost = 'localhost', consulPort = 8500) {
+  constructor(consulHost = 'localhost', consulPort = 8500, options: ConsulClientOptions = {}) {
     this.consulHost = consulHost;
     this.consulPort = consulPort;
+    this.options = options;
   }
 
   /**
    * 註冊服務到 Consul
    */
   async registerService(config: ConsulServiceConfig): Promise<void> {
-    const consulUrl = `http://${this.consulHost}:${this.consulPort}`;
-    
     const serviceDefinition = {
       ID: config.serviceId,
       Name: config.serviceName,
@@ -43,24 +161,20 @@ export class ConsulHelper {
         HTTP: config.check.http,
         GRPC: config.check.grpc,
         TCP: config.check.tcp,
-        Interval: config.check.interval || '10s',
-        Timeout: config.check.timeout || '3s',
+        TTL: config.check.ttl,
+        // 純 TTL 檢查不需要輪詢間隔與逾時
+        Interval: isTtlOnlyCheck(config.check) ? undefined : (config.check.interval || '10s'),
+        Timeout: isTtlOnlyCheck(config.check) ? undefined : (config.check.timeout || '3s'),
         DeregisterCriticalServiceAfter: config.check.deregisterCriticalServiceAfter || '30s'
       } : undefined
     };
 
     try {
-      const response = await fetch(`${consulUrl}/v1/agent/service/register`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(serviceDefinition),
+      const response = await this.request('PUT', '/v1/agent/service/register', {
+        body: serviceDefinition,
       });
 
-      if (!response.ok) {
-        throw new Error(`Failed to register service: ${response.status} ${response.statusText}`);
-      }
+      ensureOk(response, 'register service');
 
       console.log(`✅ Service ${config.serviceName} registered successfully with Consul`);
     } catch (error) {
@@ -73,16 +187,10 @@ export class ConsulHelper {
    * 從 Consul 註銷服務
    */
   async deregisterService(serviceId: string): Promise<void> {
-    const consulUrl = `http://${this.consulHost}:${this.consulPort}`;
-    
     try {
-      const response = await fetch(`${consulUrl}/v1/agent/service/deregister/${serviceId}`, {
-        method: 'PUT',
-      });
+      const response = await this.request('PUT', `/v1/agent/service/deregister/${serviceId}`);
 
-      if (!response.ok) {
-        throw new Error(`Failed to deregister service: ${response.status} ${response.statusText}`);
-      }
+      ensureOk(response, 'deregister service');
 
       console.log(`✅ Service ${serviceId} deregistered successfully from Consul`);
     } catch (error) {
@@ -91,28 +199,47 @@ export class ConsulHelper {
     }
   }
 
+  /**
+   * 回報 TTL 檢查通過
+   *
+   * 服務的單一檢查在 Consul 中的 ID 為 `service:<serviceId>`
+   */
+  async passCheck(checkId: string, note?: string): Promise<void> {
+    const response = await this.request('PUT', `/v1/agent/check/pass/${checkId}`, {
+      query: { note },
+    });
+
+    ensureOk(response, `pass check ${checkId}`);
+  }
+
+  /**
+   * 檢查服務是否仍註冊在本地 agent
+   */
+  async isServiceRegistered(serviceId: string): Promise<boolean> {
+    const response = await this.request('GET', `/v1/agent/service/${serviceId}`);
+
+    if (response.status === 404) {
+      return false;
+    }
+
+    ensureOk(response, `read service ${serviceId}`);
+    return true;
+  }
+
   /**
    * 從 Consul 發現服務
    */
   async discoverService(serviceName: string): Promise<any[]> {
-    const consulUrl = `http://${this.consulHost}:${this.consulPort}`;
-    
     try {
-      const response = await fetch(`${consulUrl}/v1/health/service/${serviceName}?passing`);
-      
-      if (!response.ok) {
-        throw new Error(`Failed to discover service: ${response.status} ${response.statusText}`);
-      }
+      const response = await this.request('GET', `/v1/health/service/${serviceName}`, {
+        query: { passing: true },
+        scoped: true,
+      });
+
+      ensureOk(response, 'discover service');
 
-      const services: any[] = await response.json();
-      return services.map((service: any) => ({
-        id: service.Service.ID,
-        name: service.Service.Service,
-        address: service.Service.Address,
-        port: service.Service.Port,
-        tags: service.Service.Tags,
-        meta: service.Service.Meta,
-      }));
+      const services: any[] = JSON.parse(response.body);
+      return services.map(toServiceInstance);
     } catch (error) {
       console.error(`❌ Failed to discover service ${serviceName}:`, error);
       throw error;
@@ -124,7 +251,8 @@ export class ConsulHelper {
    */
   async getServiceEndpoint(serviceName: string): Promise<{ address: string; port: number } | null> {
     try {
-      const services = await this.discoverService(serviceName);
+      // 若服務正被監聽，直接使用記憶體中的實例清單
+      const services = this.watchedServices.get(serviceName) ?? await this.discoverService(serviceName);
       
       if (services.length === 0) {
         return null;
@@ -143,4 +271,339 @@ export class ConsulHelper {
       return null;
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * 監聽服務的健康實例變化
+   *
+   * 使用 Consul 阻塞查詢（index/wait 參數），每當實例清單改變時呼叫 onChange，
+   * 首次查詢會回報所有實例為新增。發生錯誤時以指數退避重試，
+   * 監聽期間 getServiceEndpoint 會直接使用記憶體中的實例清單。
+   *
+   * @returns 於 signal 取消後 resolve 的 Promise
+   *
+   * @example
+   * ```typescript
+   * const controller = new AbortController();
+   * consul.watchService('drone-service', ({ added, removed }) => {
+   *   console.log('added:', added, 'removed:', removed);
+   * }, { signal: controller.signal });
+   *
+   * // 停止監聽
+   * controller.abort();
+   * ```
+   */
+  async watchService(
+    serviceName: string,
+    onChange: (change: ConsulServiceChange) => void,
+    options: ConsulWatchOptions = {}
+  ): Promise<void> {
+    let current: ConsulServiceInstance[] | null = null;
+
+    this.watcherCounts.set(serviceName, (this.watcherCounts.get(serviceName) || 0) + 1);
+
+    try {
+      await this.runBlockingQuery(
+        `/v1/health/service/${serviceName}`,
+        { passing: true },
+        `service ${serviceName}`,
+        (body, index) => {
+          const instances = ((body || []) as any[]).map(toServiceInstance);
+          const { added, removed } = diffInstances(current ?? [], instances);
+
+          if (current === null || added.length > 0 || removed.length > 0) {
+            current = instances;
+            this.watchedServices.set(serviceName, instances);
+            onChange({ instances, added, removed, index });
+          }
+        },
+        options
+      );
+    } finally {
+      const remaining = (this.watcherCounts.get(serviceName) || 1) - 1;
+      if (remaining > 0) {
+        this.watcherCounts.set(serviceName, remaining);
+      } else {
+        this.watcherCounts.delete(serviceName);
+        this.watchedServices.delete(serviceName);
+      }
+    }
+  }
+
+  /**
+   * 讀取 KV 中指定前綴下的所有鍵值
+   *
+   * @returns 以去除前綴後的鍵名為 key 的字串值
+   */
+  async getKeyValues(prefix: string): Promise<Record<string, string>> {
+    try {
+      const response = await this.request('GET', `/v1/kv/${prefix}`, {
+        query: { recurse: true },
+        scoped: true,
+      });
+
+      // 前綴下沒有任何鍵時 Consul 回應 404
+      if (response.status === 404) {
+        return {};
+      }
+
+      ensureOk(response, 'read key values');
+
+      return toKeyValues(prefix, JSON.parse(response.body));
+    } catch (error) {
+      console.error(`❌ Failed to read key values under ${prefix}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * 監聽 KV 前綴下的鍵值變化
+   *
+   * 使用阻塞查詢，首次查詢及之後每次內容改變時呼叫 onChange，
+   * 錯誤處理與取消方式與 watchService 相同。
+   *
+   * @returns 於 signal 取消後 resolve 的 Promise
+   */
+  async watchKeyPrefix(
+    prefix: string,
+    onChange: (values: Record<string, string>, index: number) => void,
+    options: ConsulWatchOptions = {}
+  ): Promise<void> {
+    let lastIndex: number | null = null;
+
+    await this.runBlockingQuery(
+      `/v1/kv/${prefix}`,
+      { recurse: true },
+      `key prefix ${prefix}`,
+      (body, index) => {
+        // 阻塞查詢逾時時索引不變，內容也不會改變
+        if (index === lastIndex) return;
+        lastIndex = index;
+        onChange(toKeyValues(prefix, body || []), index);
+      },
+      options
+    );
+  }
+
+  /**
+   * 執行 Consul 阻塞查詢迴圈
+   *
+   * 依 X-Consul-Index 帶入 index/wait 參數，錯誤時以指數退避重試，直到 signal 取消。
+   * 404 回應視為空結果（body 為 null），供 KV 查詢使用。
+   */
+  private async runBlockingQuery(
+    path: string,
+    query: Record<string, string | number | boolean>,
+    label: string,
+    onResult: (body: any, index: number) => void,
+    options: ConsulWatchOptions
+  ): Promise<void> {
+    const { signal, wait = '5m', minBackoffMs = 1000, maxBackoffMs = 30000 } = options;
+    // Consul 會在 wait 上加入最多 wait/16 的隨機延遲
+    const waitMs = parseConsulDuration(wait) * 17 / 16;
+
+    let index = 0;
+    let backoffMs = minBackoffMs;
+
+    while (!signal?.aborted) {
+      try {
+        const blocking = index > 0;
+        const response = await this.request('GET', path, {
+          query: blocking ? { ...query, index, wait } : query,
+          signal,
+          extraTimeoutMs: blocking ? waitMs : 0,
+          scoped: true,
+        });
+
+        if (response.status !== 404) {
+          ensureOk(response, `watch ${label}`);
+        }
+
+        const nextIndex = parseInt(String(response.headers['x-consul-index'] || '0'), 10);
+        const body = response.status === 404 ? null : JSON.parse(response.body);
+
+        // 索引倒退時（例如 Consul 重啟）需重設，且必須大於 0 才會阻塞
+        index = nextIndex < index ? 0 : Math.max(nextIndex, 1);
+        backoffMs = minBackoffMs;
+
+        try {
+          onResult(body, index);
+        } catch (error) {
+          console.error(`❌ Watch handler for ${label} failed:`, error);
+        }
+      } catch (error) {
+        if (signal?.aborted) break;
+
+        console.error(`❌ Failed to watch ${label}, retrying in ${backoffMs}ms:`, error);
+        index = 0;
+        await sleep(backoffMs, signal);
+        backoffMs = Math.min(backoffMs * 2, maxBackoffMs);
+      }
+    }
+  }
+
+  /**
+   * 發送 Consul HTTP API 請求
+   *
+   * 統一處理 ACL token、HTTPS CA、資料中心、命名空間與逾時，
+   * 連線失敗或逾時時拋出 ConsulUnreachableError
+   */
+  private request(method: string, path: string, options: ConsulRequestOptions = {}): Promise<ConsulResponse> {
+    const { scheme = 'http', token, ca, datacenter, namespace, timeoutMs = 10000 } = this.options;
+
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(options.query || {})) {
+      if (value === undefined || value === false) continue;
+      params.append(key, value === true ? '' : String(value));
+    }
+    if (options.scoped && datacenter) params.append('dc', datacenter);
+    if (namespace) params.append('ns', namespace);
+
+    const search = params.toString().replace(/=(?=&|$)/g, '');
+    const headers: http.OutgoingHttpHeaders = {};
+    if (token) headers['X-Consul-Token'] = token;
+
+    const payload = options.body === undefined ? undefined : JSON.stringify(options.body);
+    if (payload !== undefined) {
+      headers['Content-Type'] = 'application/json';
+      headers['Content-Length'] = Buffer.byteLength(payload);
+    }
+
+    const transport = scheme === 'https' ? https : http;
+    const target = `${scheme}://${this.consulHost}:${this.consulPort}`;
+
+    return new Promise((resolve, reject) => {
+      const req = transport.request({
+        method,
+        host: this.consulHost,
+        port: this.consulPort,
+        path: search ? `${path}?${search}` : path,
+        headers,
+        ca,
+        signal: options.signal,
+        timeout: timeoutMs + (options.extraTimeoutMs || 0),
+      }, (res) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('error', reject);
+        res.on('end', () => resolve({
+          status: res.statusCode || 0,
+          statusText: res.statusMessage || '',
+          headers: res.headers,
+          body: Buffer.concat(chunks).toString('utf8'),
+        }));
+      });
+
+      req.on('timeout', () => {
+        req.destroy(new ConsulUnreachableError(`Consul request to ${target}${path} timed out`));
+      });
+
+      req.on('error', (error: any) => {
+        if (error instanceof ConsulError || options.signal?.aborted) {
+          reject(error);
+        } else {
+          reject(new ConsulUnreachableError(`Consul agent at ${target} is unreachable: ${error.message}`));
+        }
+      });
+
+      req.end(payload);
+    });
+  }
+}
+
+/**
+ * 檢查回應狀態，非 2xx 時拋出對應的 Consul 錯誤
+ */
+function ensureOk(response: ConsulResponse, action: string): void {
+  if (response.status >= 200 && response.status < 300) {
+    return;
+  }
+
+  const message = `Failed to ${action}: ${response.status} ${response.statusText}`;
+  if (response.status === 401 || response.status === 403) {
+    throw new ConsulAuthError(message, response.status);
+  }
+
+  throw new ConsulError(message, response.status);
+}
+
+/**
+ * 解析 Consul 時間字串（例如 '500ms'、'15s'、'1m'）為毫秒
+ */
+export function parseConsulDuration(duration: string): number {
+  const units: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000 };
+  const pattern = /(\d+(?:\.\d+)?)(ms|s|m|h)/g;
+
+  let total = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(duration)) !== null) {
+    total += parseFloat(match[1]) * units[match[2]];
+  }
+
+  return total;
+}
+
+/**
+ * 檢查是否只設定了 TTL 檢查
+ */
+function isTtlOnlyCheck(check: NonNullable<ConsulServiceConfig['check']>): boolean {
+  return !!check.ttl && !check.http && !check.grpc && !check.tcp;
+}
+
+/**
+ * 將 Consul 健康檢查回應轉換為服務實例
+ */
+function toServiceInstance(service: any): ConsulServiceInstance {
+  return {
+    id: service.Service.ID,
+    name: service.Service.Service,
+    address: service.Service.Address,
+    port: service.Service.Port,
+    tags: service.Service.Tags,
+    meta: service.Service.Meta,
+  };
+}
+
+/**
+ * 將 Consul KV 回應轉換為鍵值表，值以 base64 解碼，略過目錄節點
+ */
+function toKeyValues(prefix: string, entries: any[]): Record<string, string> {
+  const values: Record<string, string> = {};
+
+  for (const entry of entries) {
+    const key: string = entry.Key.startsWith(prefix) ? entry.Key.slice(prefix.length) : entry.Key;
+    if (!key || key.endsWith('/')) continue;
+
+    values[key] = entry.Value === null ? '' : Buffer.from(entry.Value, 'base64').toString('utf8');
+  }
+
+  return values;
+}
+
+/**
+ * 比較兩份實例清單，以 ID、位址與埠號判斷差異
+ */
+function diffInstances(previous: ConsulServiceInstance[], next: ConsulServiceInstance[]) {
+  const key = (instance: ConsulServiceInstance) => `${instance.id}@${instance.address}:${instance.port}`;
+  const previousKeys = new Set(previous.map(key));
+  const nextKeys = new Set(next.map(key));
+
+  return {
+    added: next.filter(instance => !previousKeys.has(key(instance))),
+    removed: previous.filter(instance => !nextKeys.has(key(instance))),
+  };
+}
+
+/**
+ * 可被 AbortSignal 中斷的延遲
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
@@ -0,0 +1,155 @@
+// Consul 服務註冊生命週期管理
+
+import { ConsulHelper, ConsulServiceConfig, parseConsulDuration } from './consul.js';
+
+export interface ConsulRegistrationOptions {
+  /**
+   * 心跳間隔（毫秒）
+   * TTL 檢查預設為 TTL 的三分之一，其他檢查預設 15 秒
+   */
+  heartbeatIntervalMs?: number;
+  /** 是否在 SIGTERM/SIGINT 時自動註銷，預設 true */
+  handleSignals?: boolean;
+  /**
+   * 收到訊號並註銷後是否結束程序，預設 false
+   *
+   * 註冊訊號監聽後 Node.js 不會再自動結束，由應用程式自行完成關閉流程後結束程序；
+   * 沒有其他關閉流程的服務可設為 true
+   */
+  exitOnSignal?: boolean;
+}
+
+/**
+ * Consul 服務註冊管理器
+ *
+ * 負責服務的完整註冊生命週期：
+ * - 啟動時註冊服務
+ * - 定期心跳：TTL 檢查透過 /v1/agent/check/pass 回報通過，其他檢查確認服務仍在 agent 上
+ * - agent 重啟導致註冊遺失時自動重新註冊
+ * - 收到 SIGTERM/SIGINT 時註銷服務，避免留下 critical 殭屍服務；是否結束程序由應用程式決定（exitOnSignal）
+ *
+ * @example
+ * ```typescript
+ * const registration = new ConsulRegistrationManager(consul, {
+ *   serviceName: 'drone-service',
+ *   serviceId: `drone-service-${process.env.HOSTNAME}`,
+ *   address: 'drone-service',
+ *   port: 50051,
+ *   check: { ttl: '15s', deregisterCriticalServiceAfter: '1m' }
+ * });
+ *
+ * await registration.start();
+ * ```
+ */
+export class ConsulRegistrationManager {
+  private consul: ConsulHelper;
+  private config: ConsulServiceConfig;
+  private options: ConsulRegistrationOptions;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private registered = false;
+  private signalHandler: ((signal: NodeJS.Signals) => void) | null = null;
+
+  constructor(consul: ConsulHelper, config: ConsulServiceConfig, options: ConsulRegistrationOptions = {}) {
+    this.consul = consul;
+    this.config = config;
+    this.options = options;
+  }
+
+  /**
+   * 註冊服務並開始心跳
+   */
+  async start(): Promise<void> {
+    await this.register();
+
+    if (!this.heartbeatTimer) {
+      this.heartbeatTimer = setInterval(() => {
+        this.heartbeat().catch(() => {
+          // 錯誤已在 heartbeat 中記錄，下次心跳會再重試
+        });
+      }, this.getHeartbeatInterval());
+      this.heartbeatTimer.unref();
+    }
+
+    if (this.options.handleSignals !== false && !this.signalHandler) {
+      this.signalHandler = (signal) => {
+        console.log(`Received ${signal}, deregistering ${this.config.serviceId} from Consul`);
+        this.stop()
+          .catch(() => {
+            // 錯誤已在 stop 中記錄
+          })
+          .finally(() => {
+            if (this.options.exitOnSignal === true) {
+              process.exit(0);
+            }
+          });
+      };
+      process.once('SIGTERM', this.signalHandler);
+      process.once('SIGINT', this.signalHandler);
+    }
+  }
+
+  /**
+   * 停止心跳並從 Consul 註銷服務
+   */
+  async stop(): Promise<void> {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    if (this.signalHandler) {
+      process.removeListener('SIGTERM', this.signalHandler);
+      process.removeListener('SIGINT', this.signalHandler);
+      this.signalHandler = null;
+    }
+
+    if (this.registered) {
+      this.registered = false;
+      await this.consul.deregisterService(this.config.serviceId);
+    }
+  }
+
+  /**
+   * 服務目前是否已註冊
+   */
+  isRegistered(): boolean {
+    return this.registered;
+  }
+
+  /**
+   * 執行一次心跳
+   *
+   * 心跳失敗時視為 agent 已遺失註冊（例如 agent 重啟），嘗試重新註冊
+   */
+  async heartbeat(): Promise<void> {
+    try {
+      if (this.config.check?.ttl) {
+        await this.consul.passCheck(`service:${this.config.serviceId}`);
+      } else if (!(await this.consul.isServiceRegistered(this.config.serviceId))) {
+        throw new Error(`Service ${this.config.serviceId} is no longer registered`);
+      }
+    } catch (error) {
+      console.error(`❌ Consul heartbeat failed for ${this.config.serviceId}, re-registering:`, error);
+      await this.register();
+    }
+  }
+
+  private async register(): Promise<void> {
+    await this.consul.registerService(this.config);
+    this.registered = true;
+
+    // 註冊後立即回報通過，避免 TTL 檢查在第一次心跳前處於 critical
+    if (this.config.check?.ttl) {
+      await this.consul.passCheck(`service:${this.config.serviceId}`);
+    }
+  }
+
+  private getHeartbeatInterval(): number {
+    if (this.options.heartbeatIntervalMs) {
+      return this.options.heartbeatIntervalMs;
+    }
+
+    const ttlMs = this.config.check?.ttl ? parseConsulDuration(this.config.check.ttl) : 0;
+    return ttlMs > 0 ? Math.max(Math.floor(ttlMs / 3), 1000) : 15000;
+  }
+}
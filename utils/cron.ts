@@ -0,0 +1,161 @@
+// Cron 排程表達式解析
+
+/**
+ * 五欄位 cron 表達式：分 時 日 月 週
+ *
+ * 支援 *、數字、範圍（1-5）、間隔（*\/15、0-30/5）與逗號列表，月與週可使用英文縮寫（JAN-DEC、SUN-SAT，不分大小寫），
+ * 週的 0 與 7 皆代表星期日。日與週都不以 * 開頭時，符合其一即可；
+ * 任一欄位以 * 開頭（包含 *\/2 這類間隔）時兩者都需符合，與 crontab 相同。
+ * 時間以伺服器本地時區計算。
+ *
+ * @example
+ * ```typescript
+ * const cron = CronExpression.parse('0 2 * * 1-5'); // 平日凌晨兩點
+ * const nextRun = cron.next(new Date());
+ * ```
+ */
+export class CronExpression {
+  private constructor(
+    public readonly source: string,
+    private readonly minutes: Set<number>,
+    private readonly hours: Set<number>,
+    private readonly daysOfMonth: Set<number>,
+    private readonly months: Set<number>,
+    private readonly daysOfWeek: Set<number>,
+    private readonly dayOfMonthRestricted: boolean,
+    private readonly dayOfWeekRestricted: boolean
+  ) {}
+
+  /**
+   * 解析 cron 表達式
+   *
+   * @throws {Error} 表達式格式錯誤時拋出
+   */
+  static parse(expression: string): CronExpression {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) {
+      throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+    }
+
+    const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+    const daysOfWeek = parseField(replaceNames(dayOfWeek, DAY_NAMES, 0, expression), 0, 7, expression);
+    if (daysOfWeek.delete(7)) {
+      daysOfWeek.add(0);
+    }
+
+    return new CronExpression(
+      expression,
+      parseField(minute, 0, 59, expression),
+      parseField(hour, 0, 23, expression),
+      parseField(dayOfMonth, 1, 31, expression),
+      parseField(replaceNames(month, MONTH_NAMES, 1, expression), 1, 12, expression),
+      daysOfWeek,
+      !dayOfMonth.startsWith('*'),
+      !dayOfWeek.startsWith('*')
+    );
+  }
+
+  /**
+   * 計算指定時間之後的下一次執行時間
+   *
+   * @throws {Error} 五年內沒有符合的時間時拋出（例如 2 月 30 日）
+   */
+  next(after: Date = new Date()): Date {
+    const date = new Date(after.getTime());
+    date.setSeconds(0, 0);
+    date.setMinutes(date.getMinutes() + 1);
+    const limitYear = date.getFullYear() + 5;
+
+    while (date.getFullYear() <= limitYear) {
+      if (!this.months.has(date.getMonth() + 1)) {
+        date.setMonth(date.getMonth() + 1, 1);
+        date.setHours(0, 0, 0, 0);
+        continue;
+      }
+      if (!this.matchesDay(date)) {
+        date.setDate(date.getDate() + 1);
+        date.setHours(0, 0, 0, 0);
+        continue;
+      }
+      if (!this.hours.has(date.getHours())) {
+        date.setHours(date.getHours() + 1, 0, 0, 0);
+        continue;
+      }
+      if (!this.minutes.has(date.getMinutes())) {
+        date.setMinutes(date.getMinutes() + 1, 0, 0);
+        continue;
+      }
+      return date;
+    }
+
+    throw new Error(`Cron expression "${this.source}" has no upcoming run time`);
+  }
+
+  /**
+   * 日期是否符合日與週欄位
+   */
+  private matchesDay(date: Date): boolean {
+    const dayOfMonth = this.daysOfMonth.has(date.getDate());
+    const dayOfWeek = this.daysOfWeek.has(date.getDay());
+
+    if (this.dayOfMonthRestricted && this.dayOfWeekRestricted) {
+      return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+  }
+}
+
+/** 月份縮寫，依序對應 1-12 */
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+/** 星期縮寫，依序對應 0-6 */
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+/**
+ * 將欄位中的英文縮寫換成數字
+ */
+function replaceNames(field: string, names: string[], offset: number, expression: string): string {
+  return field.replace(/[a-z]+/gi, (name) => {
+    const index = names.indexOf(name.toUpperCase());
+    if (index < 0) {
+      throw new Error(`Invalid cron expression "${expression}": unknown name "${name}"`);
+    }
+    return String(index + offset);
+  });
+}
+
+/**
+ * 解析單一欄位
+ */
+function parseField(field: string, min: number, max: number, expression: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid cron expression "${expression}": unexpected "${part}"`);
+    }
+
+    const [, range, stepText] = match;
+    const step = stepText ? parseInt(stepText, 10) : 1;
+    let start = min;
+    let end = max;
+
+    if (range !== '*') {
+      const [from, to] = range.split('-').map((value) => parseInt(value, 10));
+      start = from;
+      // 單一數字搭配間隔（如 5/15）表示從該值到最大值
+      end = to ?? (stepText ? max : from);
+    }
+
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Invalid cron expression "${expression}": "${part}" is out of range ${min}-${max}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
@@ -1,15 +1,102 @@
 // gRPC 客戶端和服務器工具
 
+import * as grpc from '@grpc/grpc-js';
+import * as protoLoader from '@grpc/proto-loader';
+import { ResResult } from './ResResult.js';
+import type { Logger } from '../patterns/LoggerDecorator.js';
+
+/**
+ * gRPC TLS 憑證配置
+ */
+export interface GrpcTlsConfig {
+  /** CA 根憑證（PEM） */
+  rootCerts?: string | Buffer;
+  /** 客戶端私鑰（PEM，mTLS 時使用） */
+  privateKey?: string | Buffer;
+  /** 客戶端憑證鏈（PEM，mTLS 時使用） */
+  certChain?: string | Buffer;
+}
+
 export interface GrpcServiceConfig {
   serviceName: string;
   protoPath: string;
   packageName: string;
   host?: string;
   port?: number;
+  /** TLS 憑證，未設定時使用非加密連線 */
+  tls?: GrpcTlsConfig;
+  /** 每次嘗試的預設逾時（毫秒），呼叫端自行指定 deadline 時不覆蓋 */
+  deadlineMs?: number;
+  /** 此客戶端專用的攔截器，位於管理器註冊的攔截器之後 */
+  interceptors?: grpc.Interceptor[];
+  /** gRPC channel 選項，例如 grpc.keepalive_time_ms */
+  channelOptions?: grpc.ChannelOptions;
+  /** proto-loader 載入選項，會覆蓋預設值 */
+  loaderOptions?: protoLoader.Options;
 }
 
+/** proto-loader 預設載入選項 */
+const DEFAULT_LOADER_OPTIONS: protoLoader.Options = {
+  keepCase: true,
+  longs: String,
+  enums: String,
+  defaults: true,
+  oneofs: true
+};
+
 export class GrpcClientManager {
   private clients: Map<string, any> = new Map();
+  /** 套用到所有客戶端的攔截器 */
+  private globalInterceptors: grpc.Interceptor[] = [];
+  /** 依服務名稱套用的攔截器 */
+  private serviceInterceptors: Map<string, grpc.Interceptor[]> = new Map();
+
+  /**
+   * 註冊攔截器
+   *
+   * 未指定 serviceName 時套用到所有服務；攔截器依註冊順序由外而內執行。
+   * 攔截器在建立客戶端時綁定，需在 createClient 之前註冊。
+   *
+   * @example
+   * ```typescript
+   * grpcClients
+   *   .use(createTracingInterceptor())
+   *   .use(createLoggingInterceptor(logger, 'DroneService'), 'DroneService')
+   *   .use(createRetryInterceptor({ maxAttempts: 5 }), 'DroneService');
+   * ```
+   */
+  use(interceptor: grpc.Interceptor, serviceName?: string): this {
+    if (!serviceName) {
+      this.globalInterceptors.push(interceptor);
+      return this;
+    }
+
+    if (!this.serviceInterceptors.has(serviceName)) {
+      this.serviceInterceptors.set(serviceName, []);
+    }
+    this.serviceInterceptors.get(serviceName)!.push(interceptor);
+    return this;
+  }
+
+  /**
+   * 取得服務的完整攔截器鏈
+   *
+   * 順序：全域 → 服務專用 → 客戶端配置 → 預設 deadline
+   */
+  getInterceptors(config: Pick<GrpcServiceConfig, 'serviceName' | 'interceptors' | 'deadlineMs'>): grpc.Interceptor[] {
+    const interceptors = [
+      ...this.globalInterceptors,
+      ...(this.serviceInterceptors.get(config.serviceName) || []),
+      ...(config.interceptors || []),
+    ];
+
+    // deadline 放在最內層，讓重試的每次嘗試各自計時
+    if (config.deadlineMs) {
+      interceptors.push(createDeadlineInterceptor(config.deadlineMs));
+    }
+
+    return interceptors;
+  }
 
   /**
    * 創建 gRPC 客戶端
@@ -23,35 +110,62 @@ export class GrpcClientManager {
     }
 
     try {
-      // 這裡應該導入 grpc 相關的庫，但為了避免依賴問題，先提供接口
-      // const grpc = require('@grpc/grpc-js');
-      // const protoLoader = require('@grpc/proto-loader');
-      
-      // const packageDefinition = protoLoader.loadSync(config.protoPath, {
-      //   keepCase: true,
-      //   longs: String,
-      //   enums: String,
-      //   defaults: true,
-      //   oneofs: true
-      // });
-      
-      // const proto = grpc.loadPackageDefinition(packageDefinition);
-      // const client = new proto[config.packageName][config.serviceName](
-      //   `${config.host}:${config.port}`,
-      //   grpc.credentials.createInsecure()
-      // );
-
-      // this.clients.set(clientKey, client);
-      // return client;
-
-      console.log(`gRPC client would be created for ${config.serviceName}`);
-      return null;
+      const ServiceClient = GrpcClientManager.loadServiceClient(config);
+      const address = `${config.host || 'localhost'}:${config.port}`;
+
+      const client = new ServiceClient(
+        address,
+        GrpcClientManager.createCredentials(config.tls),
+        { ...config.channelOptions, interceptors: this.getInterceptors(config) }
+      );
+
+      this.clients.set(clientKey, client);
+      return client;
     } catch (error) {
       console.error(`❌ Failed to create gRPC client for ${config.serviceName}:`, error);
       throw error;
     }
   }
 
+  /**
+   * 載入 proto 並取得服務的客戶端建構函式
+   */
+  static loadServiceClient(config: Pick<GrpcServiceConfig, 'protoPath' | 'packageName' | 'serviceName' | 'loaderOptions'>): grpc.ServiceClientConstructor {
+    const packageDefinition = protoLoader.loadSync(config.protoPath, {
+      ...DEFAULT_LOADER_OPTIONS,
+      ...config.loaderOptions
+    });
+    const proto = grpc.loadPackageDefinition(packageDefinition);
+
+    // packageName 可能為巢狀命名空間，例如 aiot.drone.v1
+    let namespace: any = proto;
+    for (const segment of config.packageName.split('.').filter(Boolean)) {
+      namespace = namespace?.[segment];
+    }
+
+    const ServiceClient = namespace?.[config.serviceName];
+    if (typeof ServiceClient !== 'function' || !ServiceClient.service) {
+      throw new Error(`Service ${config.packageName}.${config.serviceName} not found in ${config.protoPath}`);
+    }
+
+    return ServiceClient as grpc.ServiceClientConstructor;
+  }
+
+  /**
+   * 依 TLS 配置建立 channel 憑證
+   */
+  static createCredentials(tls?: GrpcTlsConfig): grpc.ChannelCredentials {
+    if (!tls) {
+      return grpc.credentials.createInsecure();
+    }
+
+    return grpc.credentials.createSsl(
+      toBuffer(tls.rootCerts),
+      toBuffer(tls.privateKey),
+      toBuffer(tls.certChain)
+    );
+  }
+
   /**
    * 關閉所有客戶端連接
    */
@@ -77,19 +191,214 @@ export class GrpcClientManager {
   }
 }
 
+/**
+ * 建立預設 deadline 攔截器
+ *
+ * 呼叫端未指定 deadline 時，套用 deadlineMs 作為逾時
+ */
+export function createDeadlineInterceptor(deadlineMs: number): grpc.Interceptor {
+  return (options, nextCall) => {
+    if (!options.deadline) {
+      options = { ...options, deadline: Date.now() + deadlineMs };
+    }
+    return new grpc.InterceptingCall(nextCall(options));
+  };
+}
+
+function toBuffer(value?: string | Buffer): Buffer | null {
+  if (value === undefined) return null;
+  return typeof value === 'string' ? Buffer.from(value) : value;
+}
+
+/**
+ * gRPC 健康檢查狀態（grpc.health.v1.HealthCheckResponse.ServingStatus）
+ */
+export type GrpcServingStatus = 'UNKNOWN' | 'SERVING' | 'NOT_SERVING' | 'SERVICE_UNKNOWN';
+
+/**
+ * grpc.health.v1 的 proto 定義（protobufjs JSON 格式），避免額外發佈 .proto 檔
+ */
+const HEALTH_PROTO_JSON = {
+  nested: {
+    grpc: { nested: { health: { nested: { v1: { nested: {
+      HealthCheckRequest: {
+        fields: { service: { type: 'string', id: 1 } }
+      },
+      HealthCheckResponse: {
+        fields: { status: { type: 'ServingStatus', id: 1 } },
+        nested: {
+          ServingStatus: {
+            values: { UNKNOWN: 0, SERVING: 1, NOT_SERVING: 2, SERVICE_UNKNOWN: 3 }
+          }
+        }
+      },
+      Health: {
+        methods: {
+          Check: { requestType: 'HealthCheckRequest', responseType: 'HealthCheckResponse' },
+          Watch: { requestType: 'HealthCheckRequest', responseType: 'HealthCheckResponse', responseStream: true }
+        }
+      }
+    } } } } } }
+  }
+};
+
+/**
+ * 可回報 Redis 狀態的服務，例如 BaseRedisService
+ */
+export interface RedisStatusProvider {
+  getServiceStatus(): { redisAvailable: boolean };
+}
+
 /**
  * gRPC 健康檢查實現
+ *
+ * 實作 grpc.health.v1.Health 協定：
+ * - 每個服務名稱各自維護狀態，空字串代表整個伺服器
+ * - setStatus 會即時推送給所有進行中的 Watch 串流
+ * - shutdown 時所有服務轉為 NOT_SERVING
+ * - 可選擇連結 BaseRedisService，Redis 不可用時回報 NOT_SERVING
+ *
+ * @example
+ * ```typescript
+ * const health = new GrpcHealthCheck();
+ * health.addToServer(server);
+ * health.setStatus('aiot.drone.DroneService', 'SERVING');
+ * health.monitorRedis('aiot.drone.DroneService', droneCacheService);
+ *
+ * // 關閉前
+ * health.shutdown();
+ * ```
  */
 export class GrpcHealthCheck {
+  /** grpc.health.v1.Health 服務定義 */
+  static readonly serviceDefinition: grpc.ServiceDefinition = (
+    grpc.loadPackageDefinition(protoLoader.fromJSON(HEALTH_PROTO_JSON as any, DEFAULT_LOADER_OPTIONS)) as any
+  ).grpc.health.v1.Health.service;
+
+  private statuses: Map<string, GrpcServingStatus> = new Map([['', 'SERVING']]);
+  private watchers: Map<string, Set<grpc.ServerWritableStream<any, any>>> = new Map();
+  private redisMonitors: Map<string, NodeJS.Timeout> = new Map();
+  private isShutdown = false;
+
+  /**
+   * 建立健康檢查服務實作（向後相容）
+   */
   static createHealthService() {
+    return new GrpcHealthCheck().getImplementation();
+  }
+
+  /**
+   * 設定服務狀態並通知 Watch 串流
+   */
+  setStatus(service: string, status: GrpcServingStatus): void {
+    // 關閉後狀態固定為 NOT_SERVING
+    if (this.isShutdown && status !== 'NOT_SERVING') {
+      return;
+    }
+
+    const previous = this.statuses.get(service);
+    this.statuses.set(service, status);
+
+    if (previous !== status) {
+      for (const call of this.watchers.get(service) || []) {
+        call.write({ status });
+      }
+    }
+  }
+
+  /**
+   * 取得服務狀態，未登記的服務回傳 SERVICE_UNKNOWN
+   */
+  getStatus(service: string): GrpcServingStatus {
+    return this.statuses.get(service) ?? 'SERVICE_UNKNOWN';
+  }
+
+  /**
+   * 將所有服務轉為 NOT_SERVING 並結束 Watch 串流
+   */
+  shutdown(): void {
+    for (const timer of this.redisMonitors.values()) {
+      clearInterval(timer);
+    }
+    this.redisMonitors.clear();
+
+    for (const service of this.statuses.keys()) {
+      this.setStatus(service, 'NOT_SERVING');
+    }
+    this.isShutdown = true;
+
+    for (const calls of this.watchers.values()) {
+      for (const call of calls) {
+        call.end();
+      }
+    }
+    this.watchers.clear();
+  }
+
+  /**
+   * 依 Redis 可用性更新服務狀態
+   *
+   * 定期讀取 getServiceStatus().redisAvailable，Redis 不可用時回報 NOT_SERVING
+   */
+  monitorRedis(service: string, redisService: RedisStatusProvider, intervalMs = 5000): void {
+    const update = () => {
+      const { redisAvailable } = redisService.getServiceStatus();
+      this.setStatus(service, redisAvailable ? 'SERVING' : 'NOT_SERVING');
+    };
+
+    const existing = this.redisMonitors.get(service);
+    if (existing) {
+      clearInterval(existing);
+    }
+
+    update();
+    const timer = setInterval(update, intervalMs);
+    timer.unref();
+    this.redisMonitors.set(service, timer);
+  }
+
+  /**
+   * 將健康檢查服務掛載到 gRPC 伺服器
+   */
+  addToServer(server: grpc.Server): void {
+    server.addService(GrpcHealthCheck.serviceDefinition, this.getImplementation());
+  }
+
+  /**
+   * 取得 Health 服務的方法實作
+   */
+  getImplementation(): grpc.UntypedServiceImplementation {
     return {
-      check: (call: any, callback: any) => {
-        // 實現健康檢查邏輯
-        callback(null, { status: 'SERVING' });
+      check: (call: grpc.ServerUnaryCall<any, any>, callback: grpc.sendUnaryData<any>) => {
+        const service = call.request.service || '';
+        const status = this.statuses.get(service);
+
+        if (!status) {
+          callback({ code: GrpcStatus.NOT_FOUND, details: `Unknown service: ${service}` });
+          return;
+        }
+
+        callback(null, { status });
       },
-      watch: (call: any) => {
-        // 實現健康狀態監控
-        call.write({ status: 'SERVING' });
+      watch: (call: grpc.ServerWritableStream<any, any>) => {
+        const service = call.request.service || '';
+
+        if (this.isShutdown) {
+          call.write({ status: 'NOT_SERVING' });
+          call.end();
+          return;
+        }
+
+        if (!this.watchers.has(service)) {
+          this.watchers.set(service, new Set());
+        }
+        this.watchers.get(service)!.add(call);
+
+        const remove = () => this.watchers.get(service)?.delete(call);
+        call.on('cancelled', remove);
+        call.on('close', remove);
+
+        call.write({ status: this.getStatus(service) });
       }
     };
   }
@@ -99,8 +408,20 @@ export class GrpcHealthCheck {
  * gRPC 錯誤處理工具
  */
 export class GrpcErrorHandler {
+  /** 回應資料在 metadata 中的鍵，用於 ResResult 與 gRPC 錯誤互轉時保留 data */
+  static readonly DATA_METADATA_KEY = 'x-result-data';
+
+  private static logger: Logger = console;
+
+  /**
+   * 設定錯誤日誌使用的 Logger，預設為 console
+   */
+  static setLogger(logger: Logger): void {
+    GrpcErrorHandler.logger = logger;
+  }
+
   static handleError(error: any) {
-    console.error('gRPC Error:', {
+    GrpcErrorHandler.logger.error('gRPC Error:', {
       code: error.code,
       message: error.message,
       details: error.details,
@@ -112,6 +433,93 @@ export class GrpcErrorHandler {
       details: error.details || 'An unexpected error occurred',
     };
   }
+
+  /**
+   * 將 gRPC 錯誤轉換為 ResResult
+   *
+   * 狀態碼依 grpcStatusToHttp 對應，訊息取自 details；
+   * 若 metadata 中帶有 x-result-data 則還原為 data，否則 data 為其餘 metadata
+   */
+  static toResResult<T = any>(error: Partial<grpc.ServiceError>): ResResult<T> {
+    const code = typeof error.code === 'number' ? error.code : GrpcStatus.UNKNOWN;
+    const message = error.details || error.message || 'Internal Server Error';
+
+    let data: any;
+    if (error.metadata) {
+      const [encoded] = error.metadata.get(GrpcErrorHandler.DATA_METADATA_KEY);
+      if (encoded !== undefined) {
+        try {
+          data = JSON.parse(encoded.toString());
+        } catch {
+          data = encoded.toString();
+        }
+      } else {
+        const metadata = error.metadata.getMap();
+        if (Object.keys(metadata).length > 0) {
+          data = metadata;
+        }
+      }
+    }
+
+    return new ResResult<T>(grpcStatusToHttp(code), message, data);
+  }
+
+  /**
+   * 將 ResResult 轉換為 gRPC ServiceError
+   *
+   * data 會以 JSON 存入 metadata 的 x-result-data，可由 toResResult 還原；
+   * 傳入的 metadata 會先複製，不會被修改
+   */
+  static fromResResult(result: ResResult, metadata?: grpc.Metadata): grpc.ServiceError {
+    const trailers = metadata ? metadata.clone() : new grpc.Metadata();
+    if (result.data !== undefined) {
+      trailers.set(GrpcErrorHandler.DATA_METADATA_KEY, JSON.stringify(result.data));
+    }
+
+    return createServiceError(httpStatusToGrpc(result.status), result.message, trailers);
+  }
+
+  /**
+   * 將拋出的錯誤轉換為 gRPC ServiceError
+   *
+   * - 已帶有 gRPC 狀態碼的錯誤保留原狀態碼、details 與 metadata（OK 不是錯誤狀態，轉為 UNKNOWN）
+   * - 帶有 HTTP status/statusCode 的錯誤（例如 http-errors）依對應表轉換
+   * - 其他錯誤視為 INTERNAL
+   */
+  static fromError(error: any): grpc.ServiceError {
+    if (error instanceof ResResult) {
+      return GrpcErrorHandler.fromResResult(error);
+    }
+
+    const metadata = error?.metadata instanceof grpc.Metadata ? error.metadata : new grpc.Metadata();
+    const message = error?.details || error?.message || 'Internal server error';
+
+    if (typeof error?.code === 'number' && error.code >= GrpcStatus.OK && error.code <= GrpcStatus.UNAUTHENTICATED) {
+      return createServiceError(error.code, message, metadata);
+    }
+
+    const httpStatus = error?.status ?? error?.statusCode;
+    if (typeof httpStatus === 'number') {
+      return createServiceError(httpStatusToGrpc(httpStatus), message, metadata);
+    }
+
+    return createServiceError(GrpcStatus.INTERNAL, message, metadata);
+  }
+}
+
+/**
+ * 建立 gRPC ServiceError，OK 不能作為錯誤狀態回傳，一律轉為 UNKNOWN
+ */
+function createServiceError(code: number, details: string, metadata: grpc.Metadata): grpc.ServiceError {
+  if (code === GrpcStatus.OK) {
+    code = GrpcStatus.UNKNOWN;
+  }
+
+  return Object.assign(new Error(`${code} ${GRPC_STATUS_NAMES[code] ?? 'UNKNOWN'}: ${details}`), {
+    code,
+    details,
+    metadata,
+  });
 }
 
 // gRPC 狀態碼常量
@@ -133,4 +541,61 @@ export const GrpcStatus = {
   UNAVAILABLE: 14,
   DATA_LOSS: 15,
   UNAUTHENTICATED: 16,
-};
\ No newline at end of file
+};
+
+const GRPC_STATUS_NAMES: Record<number, string> = Object.fromEntries(
+  Object.entries(GrpcStatus).map(([name, code]) => [code, name])
+);
+
+/** gRPC 狀態碼對應的 HTTP 狀態碼 */
+const GRPC_TO_HTTP: Record<number, number> = {
+  [GrpcStatus.OK]: 200,
+  [GrpcStatus.CANCELLED]: 499,
+  [GrpcStatus.UNKNOWN]: 500,
+  [GrpcStatus.INVALID_ARGUMENT]: 400,
+  [GrpcStatus.DEADLINE_EXCEEDED]: 504,
+  [GrpcStatus.NOT_FOUND]: 404,
+  [GrpcStatus.ALREADY_EXISTS]: 409,
+  [GrpcStatus.PERMISSION_DENIED]: 403,
+  [GrpcStatus.RESOURCE_EXHAUSTED]: 429,
+  [GrpcStatus.FAILED_PRECONDITION]: 400,
+  [GrpcStatus.ABORTED]: 409,
+  [GrpcStatus.OUT_OF_RANGE]: 400,
+  [GrpcStatus.UNIMPLEMENTED]: 501,
+  [GrpcStatus.INTERNAL]: 500,
+  [GrpcStatus.UNAVAILABLE]: 503,
+  [GrpcStatus.DATA_LOSS]: 500,
+  [GrpcStatus.UNAUTHENTICATED]: 401,
+};
+
+/** HTTP 狀態碼對應的 gRPC 狀態碼 */
+const HTTP_TO_GRPC: Record<number, number> = {
+  400: GrpcStatus.INVALID_ARGUMENT,
+  401: GrpcStatus.UNAUTHENTICATED,
+  403: GrpcStatus.PERMISSION_DENIED,
+  404: GrpcStatus.NOT_FOUND,
+  409: GrpcStatus.ALREADY_EXISTS,
+  412: GrpcStatus.FAILED_PRECONDITION,
+  429: GrpcStatus.RESOURCE_EXHAUSTED,
+  499: GrpcStatus.CANCELLED,
+  501: GrpcStatus.UNIMPLEMENTED,
+  503: GrpcStatus.UNAVAILABLE,
+  504: GrpcStatus.DEADLINE_EXCEEDED,
+};
+
+/**
+ * gRPC 狀態碼轉 HTTP 狀態碼
+ */
+export function grpcStatusToHttp(code: number): number {
+  return GRPC_TO_HTTP[code] ?? 500;
+}
+
+/**
+ * HTTP 狀態碼轉 gRPC 狀態碼，未列出的 2xx 視為 OK、4xx 視為 FAILED_PRECONDITION、其餘為 INTERNAL
+ */
+export function httpStatusToGrpc(status: number): number {
+  if (HTTP_TO_GRPC[status] !== undefined) return HTTP_TO_GRPC[status];
+  if (status >= 200 && status < 300) return GrpcStatus.OK;
+  if (status >= 400 && status < 500) return GrpcStatus.FAILED_PRECONDITION;
+  return GrpcStatus.INTERNAL;
+}
@@ -0,0 +1,235 @@
+// gRPC 客戶端攔截器：重試、追蹤與日誌
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+import * as grpc from '@grpc/grpc-js';
+import { GrpcStatus } from './grpc.js';
+import type { Logger } from '../patterns/LoggerDecorator.js';
+
+export interface GrpcRetryOptions {
+  /** 最多嘗試次數（含第一次），預設 3 */
+  maxAttempts?: number;
+  /** 第一次重試前的等待時間（毫秒），預設 100 */
+  initialBackoffMs?: number;
+  /** 重試等待時間上限（毫秒），預設 2000 */
+  maxBackoffMs?: number;
+  /** 每次重試等待時間的倍數，預設 2 */
+  backoffMultiplier?: number;
+  /** 可重試的狀態碼，預設 UNAVAILABLE 與 DEADLINE_EXCEEDED */
+  retryableCodes?: number[];
+}
+
+/**
+ * 重試攔截器中單次嘗試的監聽器
+ */
+interface AttemptListener {
+  onReceiveMessage(message: any): void;
+  onReceiveStatus(status: grpc.StatusObject): void;
+}
+
+/**
+ * W3C Trace Context
+ */
+export interface GrpcTraceContext {
+  traceparent: string;
+  tracestate?: string;
+}
+
+/**
+ * 目前非同步流程中的追蹤上下文
+ */
+const traceContextStorage = new AsyncLocalStorage<GrpcTraceContext>();
+
+/**
+ * 在指定追蹤上下文中執行函式，期間發出的 gRPC 呼叫都會帶上同一個 trace id
+ */
+export function runWithTraceContext<T>(context: GrpcTraceContext, fn: () => T): T {
+  return traceContextStorage.run(context, fn);
+}
+
+/**
+ * 取得目前的追蹤上下文
+ */
+export function getTraceContext(): GrpcTraceContext | undefined {
+  return traceContextStorage.getStore();
+}
+
+/**
+ * 建立重試攔截器
+ *
+ * 僅重試 unary 呼叫；每次重試間以指數退避加上隨機抖動等待，
+ * 呼叫端指定的 deadline 到期後不再重試。
+ */
+export function createRetryInterceptor(options: GrpcRetryOptions = {}): grpc.Interceptor {
+  const {
+    maxAttempts = 3,
+    initialBackoffMs = 100,
+    maxBackoffMs = 2000,
+    backoffMultiplier = 2,
+    retryableCodes = [GrpcStatus.UNAVAILABLE, GrpcStatus.DEADLINE_EXCEEDED],
+  } = options;
+
+  return (callOptions, nextCall) => {
+    const definition = callOptions.method_definition;
+    if (definition.requestStream || definition.responseStream) {
+      return new grpc.InterceptingCall(nextCall(callOptions));
+    }
+
+    let savedMetadata: grpc.Metadata;
+    let savedMessage: any;
+    let attempt = 1;
+    let cancelled = false;
+    let retryCall: ReturnType<grpc.NextCall> | null = null;
+
+    const deadlinePassed = () => {
+      const deadline = callOptions.deadline;
+      if (!deadline) return false;
+      const deadlineMs = deadline instanceof Date ? deadline.getTime() : deadline;
+      return deadlineMs <= Date.now();
+    };
+
+    return new grpc.InterceptingCall(nextCall(callOptions), {
+      start(metadata, listener, next) {
+        savedMetadata = metadata;
+
+        const createAttemptListener = (): AttemptListener => {
+          let received: any;
+          let hasMessage = false;
+
+          return {
+            onReceiveMessage(message: any) {
+              received = message;
+              hasMessage = true;
+            },
+            onReceiveStatus(status: grpc.StatusObject) {
+              if (!cancelled && retryableCodes.includes(status.code) && attempt < maxAttempts && !deadlinePassed()) {
+                const backoff = Math.min(initialBackoffMs * Math.pow(backoffMultiplier, attempt - 1), maxBackoffMs);
+                attempt++;
+
+                setTimeout(() => {
+                  if (cancelled) {
+                    listener.onReceiveStatus(status);
+                    return;
+                  }
+                  retryCall = nextCall(callOptions);
+                  retryCall.start(savedMetadata.clone(), createAttemptListener());
+                  retryCall.sendMessage(savedMessage);
+                  retryCall.halfClose();
+                }, backoff / 2 + Math.random() * backoff / 2);
+                return;
+              }
+
+              if (hasMessage) {
+                listener.onReceiveMessage(received);
+              }
+              listener.onReceiveStatus(status);
+            },
+          };
+        };
+
+        next(metadata, createAttemptListener());
+      },
+      sendMessage(message, next) {
+        savedMessage = message;
+        next(message);
+      },
+      cancel(next) {
+        cancelled = true;
+        retryCall?.cancelWithStatus(GrpcStatus.CANCELLED, 'Cancelled on client');
+        next();
+      },
+    });
+  };
+}
+
+/**
+ * 建立追蹤上下文傳遞攔截器
+ *
+ * 依 W3C Trace Context 在 metadata 加入 traceparent/tracestate：
+ * 若目前流程已有追蹤上下文則沿用 trace id 並產生新的 span id，否則開始新的 trace
+ */
+export function createTracingInterceptor(): grpc.Interceptor {
+  return (callOptions, nextCall) =>
+    new grpc.InterceptingCall(nextCall(callOptions), {
+      start(metadata, listener, next) {
+        if (metadata.get('traceparent').length === 0) {
+          const parent = getTraceContext();
+          const traceId = parent?.traceparent.split('-')[1] || randomBytes(16).toString('hex');
+          const spanId = randomBytes(8).toString('hex');
+
+          metadata.set('traceparent', `00-${traceId}-${spanId}-01`);
+          if (parent?.tracestate) {
+            metadata.set('tracestate', parent.tracestate);
+          }
+        }
+        next(metadata, listener);
+      },
+    });
+}
+
+/**
+ * 建立呼叫日誌攔截器
+ *
+ * 每次呼叫結束時記錄結構化資訊：服務、方法、狀態碼、耗時與 traceparent
+ */
+export function createLoggingInterceptor(logger: Logger, serviceName: string): grpc.Interceptor {
+  return (callOptions, nextCall) => {
+    const method = callOptions.method_definition.path;
+    const startTime = Date.now();
+    let traceparent: string | undefined;
+
+    return new grpc.InterceptingCall(nextCall(callOptions), {
+      start(metadata, listener, next) {
+        traceparent = metadata.get('traceparent')[0]?.toString();
+
+        next(metadata, {
+          onReceiveStatus(status, nextStatus) {
+            const entry = {
+              service: serviceName,
+              method,
+              code: status.code,
+              durationMs: Date.now() - startTime,
+              traceparent,
+            };
+
+            if (status.code === GrpcStatus.OK) {
+              logger.info('gRPC call completed', entry);
+            } else {
+              logger.error('gRPC call failed', { ...entry, details: status.details });
+            }
+            nextStatus(status);
+          },
+        });
+      },
+    });
+  };
+}
+
+/**
+ * 建立伺服器端呼叫日誌攔截器
+ *
+ * 每次呼叫回傳狀態時記錄方法、狀態碼、耗時與來源
+ */
+export function createServerLoggingInterceptor(logger: Logger): grpc.ServerInterceptor {
+  return (methodDescriptor, call) => {
+    const startTime = Date.now();
+
+    return new grpc.ServerInterceptingCall(call, {
+      sendStatus(status, next) {
+        const entry = {
+          method: methodDescriptor.path,
+          code: status.code,
+          durationMs: Date.now() - startTime,
+          peer: call.getPeer(),
+        };
+
+        if (status.code === GrpcStatus.OK) {
+          logger.info('gRPC request handled', entry);
+        } else {
+          logger.error('gRPC request failed', { ...entry, details: status.details });
+        }
+        next(status);
+      },
+    });
+  };
+}
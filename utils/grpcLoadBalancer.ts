@@ -0,0 +1,301 @@
+// 以 Consul 服務發現為基礎的 gRPC 客戶端負載均衡工具
+
+import * as grpc from '@grpc/grpc-js';
+import { ConsulHelper } from './consul.js';
+import {
+  GrpcClientManager,
+  GrpcServiceConfig,
+  GrpcStatus
+} from './grpc.js';
+import type { Logger } from '../patterns/LoggerDecorator.js';
+
+/**
+ * 負載均衡策略
+ * - round-robin：依序輪流分配
+ * - least-outstanding：選擇進行中呼叫最少的實例
+ */
+export type GrpcLoadBalancingPolicy = 'round-robin' | 'least-outstanding';
+
+export interface ConsulGrpcClientConfig extends Omit<GrpcServiceConfig, 'host' | 'port'> {
+  /** Consul 中註冊的服務名稱 */
+  consulServiceName: string;
+  /** 負載均衡策略，預設 round-robin */
+  policy?: GrpcLoadBalancingPolicy;
+  /** 監聽失敗時的最大退避時間（毫秒），預設 30 秒 */
+  maxBackoffMs?: number;
+  /** 提供全域與服務專用攔截器（GrpcClientManager.use）的客戶端管理器 */
+  clientManager?: GrpcClientManager;
+  /** 日誌，預設為 console */
+  logger?: Logger;
+}
+
+/**
+ * 連線池中的單一實例
+ */
+export interface GrpcEndpoint {
+  id: string;
+  address: string;
+  port: number;
+  client: grpc.Client;
+  /** 進行中的呼叫數 */
+  outstanding: number;
+}
+
+/**
+ * Consul 解析的 gRPC 客戶端
+ *
+ * 為每個通過健康檢查的實例維持一個 channel，並依策略分配每次呼叫。
+ * 透過 Consul 阻塞查詢監聽實例變化，實例離開健康清單時關閉連線，新實例加入時自動建立連線。
+ *
+ * @example
+ * ```typescript
+ * const droneClient = new ConsulGrpcClient(consul, {
+ *   consulServiceName: 'drone-service',
+ *   serviceName: 'DroneService',
+ *   packageName: 'aiot.drone',
+ *   protoPath: './protos/drone.proto',
+ *   policy: 'least-outstanding'
+ * });
+ * await droneClient.start();
+ *
+ * droneClient.getClient().GetDrone({ id: 42 }, (err, drone) => { ... });
+ * ```
+ *
+ * 沒有健康實例時，呼叫會以 UNAVAILABLE 狀態失敗（unary 透過 callback、串流透過 error 事件），不會同步拋出
+ */
+export class ConsulGrpcClient {
+  private endpoints: Map<string, GrpcEndpoint> = new Map();
+  private roundRobinIndex = 0;
+  private watchController: AbortController | null = null;
+  private readonly consul: ConsulHelper;
+  private readonly config: ConsulGrpcClientConfig;
+  private readonly ServiceClient: grpc.ServiceClientConstructor;
+  private readonly dispatcher: any;
+  private readonly interceptors: grpc.Interceptor[];
+  private readonly logger: Logger;
+  /** 沒有可用實例時使用的客戶端，所有呼叫都以 UNAVAILABLE 結束 */
+  private unavailableClient: grpc.Client | null = null;
+
+  constructor(consul: ConsulHelper, config: ConsulGrpcClientConfig) {
+    this.consul = consul;
+    this.config = config;
+    this.logger = config.logger || console;
+    this.ServiceClient = GrpcClientManager.loadServiceClient(config);
+    this.interceptors = (config.clientManager ?? new GrpcClientManager()).getInterceptors(config);
+    this.dispatcher = this.createDispatcher();
+  }
+
+  /**
+   * 執行首次服務發現並開始監聽實例變化
+   */
+  async start(): Promise<void> {
+    await this.refresh();
+
+    if (!this.watchController) {
+      this.watchController = new AbortController();
+      // 監聽期間的錯誤由 watchService 退避重試，保留現有連線池
+      this.consul.watchService(
+        this.config.consulServiceName,
+        ({ instances }) => this.syncEndpoints(instances),
+        { signal: this.watchController.signal, maxBackoffMs: this.config.maxBackoffMs }
+      ).catch(error => {
+        this.logger.error(`gRPC endpoint watch for ${this.config.consulServiceName} stopped:`, error);
+      });
+    }
+  }
+
+  /**
+   * 重新查詢 Consul 並同步連線池
+   */
+  async refresh(): Promise<void> {
+    try {
+      const instances = await this.consul.discoverService(this.config.consulServiceName);
+      this.syncEndpoints(instances);
+    } catch (error) {
+      this.logger.error(`Failed to refresh gRPC endpoints for ${this.config.consulServiceName}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * 依健康實例清單新增或移除連線
+   */
+  protected syncEndpoints(instances: Array<{ id: string; address: string; port: number }>): void {
+    const seen = new Set<string>();
+
+    for (const instance of instances) {
+      const key = `${instance.address}:${instance.port}`;
+      seen.add(key);
+
+      if (!this.endpoints.has(key)) {
+        this.endpoints.set(key, this.createEndpoint(instance));
+        this.logger.info(`gRPC endpoint ${key} added for ${this.config.consulServiceName}`);
+      }
+    }
+
+    for (const [key, endpoint] of this.endpoints) {
+      if (!seen.has(key)) {
+        endpoint.client.close();
+        this.endpoints.delete(key);
+        this.logger.info(`gRPC endpoint ${key} removed for ${this.config.consulServiceName}`);
+      }
+    }
+  }
+
+  /**
+   * 建立單一實例的 channel，並以攔截器追蹤進行中的呼叫數
+   *
+   * 攔截器順序：進行中呼叫計數 → GrpcClientManager 的全域與服務攔截器 → 客戶端配置 → 預設 deadline
+   */
+  private createEndpoint(instance: { id: string; address: string; port: number }): GrpcEndpoint {
+    const endpoint = {
+      id: instance.id,
+      address: instance.address,
+      port: instance.port,
+      outstanding: 0
+    } as GrpcEndpoint;
+
+    const trackOutstanding: grpc.Interceptor = (options, nextCall) =>
+      new grpc.InterceptingCall(nextCall(options), {
+        start: (metadata, listener, next) => {
+          endpoint.outstanding++;
+          next(metadata, {
+            onReceiveStatus: (status, nextStatus) => {
+              endpoint.outstanding--;
+              nextStatus(status);
+            }
+          });
+        }
+      });
+
+    endpoint.client = new this.ServiceClient(
+      `${instance.address}:${instance.port}`,
+      GrpcClientManager.createCredentials(this.config.tls),
+      { ...this.config.channelOptions, interceptors: [trackOutstanding, ...this.interceptors] }
+    );
+
+    return endpoint;
+  }
+
+  /**
+   * 取得沒有可用實例時使用的客戶端
+   *
+   * 最內層攔截器不建立連線，直接回報 UNAVAILABLE，
+   * 讓呼叫端依呼叫型別收到錯誤，外層的日誌、追蹤與重試攔截器也照常執行
+   */
+  private getUnavailableClient(): grpc.Client {
+    if (!this.unavailableClient) {
+      const details = `No healthy instances available for ${this.config.consulServiceName}`;
+      const rejectUnavailable: grpc.Interceptor = (options, nextCall) =>
+        new grpc.InterceptingCall(nextCall(options), {
+          start: (_metadata, listener) => {
+            // 延後回報，讓呼叫端先掛上 callback 與事件監聽
+            setImmediate(() => listener.onReceiveStatus({
+              code: GrpcStatus.UNAVAILABLE,
+              details,
+              metadata: new grpc.Metadata()
+            }));
+          },
+          sendMessage: () => undefined,
+          halfClose: () => undefined
+        });
+
+      this.unavailableClient = new this.ServiceClient(
+        `${this.config.consulServiceName}.unavailable:1`,
+        grpc.credentials.createInsecure(),
+        { interceptors: [...this.interceptors, rejectUnavailable] }
+      );
+    }
+
+    return this.unavailableClient;
+  }
+
+  /**
+   * 依負載均衡策略選擇實例
+   *
+   * @throws {Error} 沒有可用實例時拋出 UNAVAILABLE 錯誤
+   */
+  pick(): GrpcEndpoint {
+    const endpoint = this.tryPick();
+
+    if (!endpoint) {
+      const error: any = new Error(`No healthy instances available for ${this.config.consulServiceName}`);
+      error.code = GrpcStatus.UNAVAILABLE;
+      throw error;
+    }
+
+    return endpoint;
+  }
+
+  /**
+   * 依負載均衡策略選擇實例，沒有可用實例時回傳 null
+   */
+  private tryPick(): GrpcEndpoint | null {
+    const endpoints = Array.from(this.endpoints.values());
+
+    if (endpoints.length === 0) {
+      return null;
+    }
+
+    if (this.config.policy === 'least-outstanding') {
+      return endpoints.reduce((best, endpoint) =>
+        endpoint.outstanding < best.outstanding ? endpoint : best
+      );
+    }
+
+    const endpoint = endpoints[this.roundRobinIndex % endpoints.length];
+    this.roundRobinIndex = (this.roundRobinIndex + 1) % endpoints.length;
+    return endpoint;
+  }
+
+  /**
+   * 取得負載均衡客戶端
+   *
+   * 回傳物件擁有與服務定義相同的方法，每次呼叫都會重新選擇實例
+   */
+  getClient(): any {
+    return this.dispatcher;
+  }
+
+  /**
+   * 取得目前連線池中的實例
+   */
+  getEndpoints(): GrpcEndpoint[] {
+    return Array.from(this.endpoints.values());
+  }
+
+  /**
+   * 停止監聽並關閉所有連線
+   */
+  close(): void {
+    if (this.watchController) {
+      this.watchController.abort();
+      this.watchController = null;
+    }
+
+    for (const endpoint of this.endpoints.values()) {
+      endpoint.client.close();
+    }
+    this.endpoints.clear();
+
+    this.unavailableClient?.close();
+    this.unavailableClient = null;
+  }
+
+  private createDispatcher(): any {
+    const dispatcher: Record<string, (...args: any[]) => any> = {};
+
+    for (const [methodName, definition] of Object.entries(this.ServiceClient.service)) {
+      const names = new Set([methodName, definition.originalName].filter(Boolean) as string[]);
+
+      for (const name of names) {
+        dispatcher[name] = (...args: any[]) => {
+          const client: any = this.tryPick()?.client ?? this.getUnavailableClient();
+          return client[name](...args);
+        };
+      }
+    }
+
+    return dispatcher;
+  }
+}
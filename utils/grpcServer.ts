@@ -0,0 +1,265 @@
+// gRPC 伺服器啟動與優雅關閉工具
+
+import * as grpc from '@grpc/grpc-js';
+import { ConsulHelper, ConsulServiceConfig } from './consul.js';
+import { ConsulRegistrationManager } from './consulRegistration.js';
+import { GrpcClientManager, GrpcErrorHandler, GrpcHealthCheck, GrpcServiceConfig } from './grpc.js';
+import { createServerLoggingInterceptor, runWithTraceContext } from './grpcInterceptors.js';
+import type { Logger } from '../patterns/LoggerDecorator.js';
+
+/**
+ * 要掛載到伺服器的服務
+ */
+export interface GrpcServiceRegistration extends Pick<GrpcServiceConfig, 'serviceName' | 'protoPath' | 'packageName' | 'loaderOptions'> {
+  /**
+   * 方法實作，鍵為 proto 中的方法名稱
+   * unary 與 client streaming 方法可回傳 Promise，resolve 的值會作為回應；
+   * resolve 為 undefined 時回應空訊息
+   */
+  implementation: Record<string, (...args: any[]) => any>;
+}
+
+export interface GrpcServerOptions {
+  /** 要掛載的服務 */
+  services: GrpcServiceRegistration[];
+  /** 監聽埠號，0 代表隨機 */
+  port: number;
+  /** 監聽位址，預設 0.0.0.0 */
+  host?: string;
+  /** 伺服器憑證，預設不加密 */
+  credentials?: grpc.ServerCredentials;
+  /** gRPC 伺服器選項 */
+  channelOptions?: grpc.ChannelOptions;
+  /** 呼叫日誌使用的 Logger，預設 console */
+  logger?: Logger;
+  /** 額外的伺服器攔截器，位於內建日誌攔截器之後 */
+  interceptors?: grpc.ServerInterceptor[];
+  /** 啟動後向 Consul 註冊；未指定 check 時使用 gRPC 健康檢查 */
+  consul?: {
+    helper: ConsulHelper;
+    registration: Omit<ConsulServiceConfig, 'port'> & { port?: number };
+  };
+  /** 關閉時等待進行中呼叫完成的時間（毫秒），預設 10 秒 */
+  shutdownTimeoutMs?: number;
+  /** 是否在 SIGTERM/SIGINT 時自動關閉，預設 true */
+  handleSignals?: boolean;
+  /**
+   * 收到訊號並關閉後是否結束程序，預設 false
+   *
+   * 註冊訊號監聽後 Node.js 不會再自動結束，由應用程式自行完成關閉流程後結束程序；
+   * 沒有其他關閉流程的服務可設為 true
+   */
+  exitOnSignal?: boolean;
+}
+
+/**
+ * 已啟動的 gRPC 伺服器
+ */
+export interface GrpcServerInstance {
+  server: grpc.Server;
+  health: GrpcHealthCheck;
+  /** 實際監聽的埠號 */
+  port: number;
+  /** 優雅關閉伺服器 */
+  shutdown(): Promise<void>;
+}
+
+/**
+ * 建立並啟動 gRPC 伺服器
+ *
+ * - 依 GrpcServiceConfig 的方式載入 proto 並掛載服務實作
+ * - 自動掛載 grpc.health.v1 健康檢查，所有服務標記為 SERVING
+ * - 內建呼叫日誌攔截器，並將處理函式拋出的錯誤轉換為 gRPC 狀態
+ * - 可選擇向 Consul 註冊
+ * - 關閉時依序：健康檢查轉為 NOT_SERVING → 從 Consul 註銷 → 等待進行中呼叫完成
+ * - 收到 SIGTERM/SIGINT 時關閉伺服器；是否結束程序由應用程式決定（exitOnSignal）
+ *
+ * @example
+ * ```typescript
+ * const { shutdown } = await createGrpcServer({
+ *   port: 50051,
+ *   services: [{
+ *     serviceName: 'DroneService',
+ *     packageName: 'aiot.drone',
+ *     protoPath: './protos/drone.proto',
+ *     implementation: {
+ *       GetDrone: async (call) => droneService.getById(call.request.id)
+ *     }
+ *   }],
+ *   consul: {
+ *     helper: new ConsulHelper('aiot-consul', 8500),
+ *     registration: { serviceName: 'drone-service', serviceId: 'drone-service-1', address: 'drone-service' }
+ *   }
+ * });
+ * ```
+ */
+export async function createGrpcServer(options: GrpcServerOptions): Promise<GrpcServerInstance> {
+  const logger = options.logger || console;
+  const server = new grpc.Server({
+    ...options.channelOptions,
+    interceptors: [createServerLoggingInterceptor(logger), ...(options.interceptors || [])],
+  });
+  const health = new GrpcHealthCheck();
+
+  for (const service of options.services) {
+    const ServiceClient = GrpcClientManager.loadServiceClient(service);
+    server.addService(ServiceClient.service, wrapImplementation(ServiceClient.service, service.implementation));
+    health.setStatus(`${service.packageName}.${service.serviceName}`, 'SERVING');
+  }
+  health.addToServer(server);
+
+  const port = await new Promise<number>((resolve, reject) => {
+    server.bindAsync(
+      `${options.host || '0.0.0.0'}:${options.port}`,
+      options.credentials || grpc.ServerCredentials.createInsecure(),
+      (error, boundPort) => (error ? reject(error) : resolve(boundPort))
+    );
+  });
+  logger.info(`gRPC server listening on port ${port}`);
+
+  let registration: ConsulRegistrationManager | null = null;
+  if (options.consul) {
+    const config: ConsulServiceConfig = {
+      ...options.consul.registration,
+      port: options.consul.registration.port ?? port,
+    };
+    config.check = config.check || { grpc: `${config.address}:${config.port}`, interval: '10s' };
+
+    registration = new ConsulRegistrationManager(options.consul.helper, config, { handleSignals: false });
+    await registration.start();
+  }
+
+  let shutdownPromise: Promise<void> | null = null;
+  let onSignal: ((signal: NodeJS.Signals) => void) | null = null;
+  const shutdown = (): Promise<void> => {
+    if (onSignal) {
+      process.off('SIGTERM', onSignal);
+      process.off('SIGINT', onSignal);
+      onSignal = null;
+    }
+
+    if (!shutdownPromise) {
+      shutdownPromise = (async () => {
+        health.shutdown();
+
+        if (registration) {
+          try {
+            await registration.stop();
+          } catch (error) {
+            logger.error('Failed to deregister gRPC server from Consul:', error);
+          }
+        }
+
+        await drainServer(server, options.shutdownTimeoutMs ?? 10000);
+        logger.info('gRPC server shut down');
+      })();
+    }
+    return shutdownPromise;
+  };
+
+  if (options.handleSignals !== false) {
+    onSignal = (signal: NodeJS.Signals) => {
+      logger.info(`Received ${signal}, shutting down gRPC server`);
+      shutdown().finally(() => {
+        if (options.exitOnSignal === true) {
+          process.exit(0);
+        }
+      });
+    };
+    process.once('SIGTERM', onSignal);
+    process.once('SIGINT', onSignal);
+  }
+
+  return { server, health, port, shutdown };
+}
+
+/**
+ * 等待進行中的呼叫完成，逾時則強制關閉
+ */
+function drainServer(server: grpc.Server, timeoutMs: number): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      server.forceShutdown();
+      resolve();
+    }, timeoutMs);
+
+    server.tryShutdown(() => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+}
+
+/**
+ * 包裝服務實作
+ *
+ * - 在呼叫端的追蹤上下文中執行處理函式
+ * - 處理函式拋出或 reject 的錯誤以 GrpcErrorHandler.fromError 轉換為 gRPC 狀態
+ * - unary 與 client streaming 方法回傳 Promise 時，以 resolve 的值回應；
+ *   resolve 為 undefined（例如回傳 Empty 或忘了 return）時回應空訊息，避免呼叫端等到 deadline。
+ *   處理函式已自行呼叫 callback 時以先回應者為準
+ */
+function wrapImplementation(
+  definition: grpc.ServiceDefinition,
+  implementation: Record<string, (...args: any[]) => any>
+): grpc.UntypedServiceImplementation {
+  const wrapped: grpc.UntypedServiceImplementation = {};
+
+  for (const [methodName, method] of Object.entries(definition)) {
+    const handler = implementation[methodName] ?? (method.originalName ? implementation[method.originalName] : undefined);
+    if (!handler) continue;
+
+    if (!method.responseStream) {
+      wrapped[methodName] = (call: any, callback: grpc.sendUnaryData<any>) => {
+        let responded = false;
+        const respond: grpc.sendUnaryData<any> = (error, value, trailer, flags) => {
+          if (responded) return;
+          responded = true;
+          callback(error ? GrpcErrorHandler.fromError(error) : null, value, trailer, flags);
+        };
+
+        runInTraceContext(call, () => {
+          try {
+            const result = handler(call, respond);
+            if (result && typeof result.then === 'function') {
+              result.then(
+                (value: any) => respond(null, value ?? {}),
+                (error: unknown) => respond(GrpcErrorHandler.fromError(error))
+              );
+            }
+          } catch (error) {
+            respond(GrpcErrorHandler.fromError(error));
+          }
+        });
+      };
+    } else {
+      wrapped[methodName] = (call: any) => {
+        const fail = (error: any) => call.emit('error', GrpcErrorHandler.fromError(error));
+
+        runInTraceContext(call, () => {
+          try {
+            const result = handler(call);
+            if (result && typeof result.then === 'function') {
+              result.catch(fail);
+            }
+          } catch (error) {
+            fail(error);
+          }
+        });
+      };
+    }
+  }
+
+  return wrapped;
+}
+
+function runInTraceContext(call: { metadata: grpc.Metadata }, fn: () => void): void {
+  const traceparent = call.metadata.get('traceparent')[0]?.toString();
+  if (!traceparent) {
+    fn();
+    return;
+  }
+
+  const tracestate = call.metadata.get('tracestate')[0]?.toString();
+  runWithTraceContext({ traceparent, tracestate }, fn);
+}
@@ -0,0 +1,256 @@
+// 多語系訊息目錄：驗證錯誤與回應訊息
+
+/**
+ * 內建訊息代碼
+ *
+ * 代碼為穩定的識別字，會隨 ValidationError 一起回傳，前端可依代碼自行翻譯。
+ * validationRules.* 只用於查詢 ValidationRules 建立的規則的預設訊息，錯誤代碼仍為 validation.*
+ */
+export type MessageCode =
+  | 'validation.required'
+  | 'validation.notNull'
+  | 'validation.email'
+  | 'validation.minLength'
+  | 'validation.maxLength'
+  | 'validation.pattern'
+  | 'validation.custom'
+  | 'validation.timeout'
+  | 'validation.string'
+  | 'validation.number'
+  | 'validation.integer'
+  | 'validation.boolean'
+  | 'validation.date'
+  | 'validation.uuid'
+  | 'validation.object'
+  | 'validation.array'
+  | 'validation.enum'
+  | 'validation.min'
+  | 'validation.max'
+  | 'validation.minItems'
+  | 'validation.maxItems'
+  | 'validationRules.required'
+  | 'validationRules.email'
+  | 'validationRules.minLength'
+  | 'validationRules.maxLength'
+  | 'validationRules.pattern'
+  | 'validationRules.custom'
+  | 'result.validationFailed'
+  | 'result.unknownError'
+  | 'result.unauthorized'
+  | 'result.forbidden'
+  | 'result.notFound'
+  | 'result.internalError'
+  | 'result.tooManyRequests';
+
+/**
+ * 訊息插值參數，陣列會以逗號串接
+ */
+export type MessageParams = Record<string, unknown>;
+
+/**
+ * 自訂訊息解析函式，回傳 undefined 時使用訊息目錄
+ */
+export type MessageResolver = (code: string, params: MessageParams, locale: string) => string | undefined;
+
+const en: Record<MessageCode, string> = {
+  'validation.required': 'Field is required',
+  'validation.notNull': 'Field cannot be null',
+  'validation.email': 'Invalid email format',
+  'validation.minLength': 'Minimum length is {length}',
+  'validation.maxLength': 'Maximum length is {length}',
+  'validation.pattern': 'Value does not match required pattern',
+  'validation.custom': 'Custom validation failed',
+  'validation.timeout': 'Validation timed out',
+  'validation.string': 'Expected string',
+  'validation.number': 'Expected number',
+  'validation.integer': 'Expected integer',
+  'validation.boolean': 'Expected boolean',
+  'validation.date': 'Expected a valid date',
+  'validation.uuid': 'Expected UUID',
+  'validation.object': 'Expected object',
+  'validation.array': 'Expected array',
+  'validation.enum': 'Must be one of: {values}',
+  'validation.min': 'Must be at least {min}',
+  'validation.max': 'Must be at most {max}',
+  'validation.minItems': 'Must contain at least {min} items',
+  'validation.maxItems': 'Must contain at most {max} items',
+  'validationRules.required': 'This field is required',
+  'validationRules.email': 'Please enter a valid email address',
+  'validationRules.minLength': 'Must be at least {length} characters long',
+  'validationRules.maxLength': 'Must not exceed {length} characters',
+  'validationRules.pattern': 'Invalid format',
+  'validationRules.custom': 'Validation failed',
+  'result.validationFailed': 'Validation failed',
+  'result.unknownError': 'An unknown error occurred',
+  'result.unauthorized': 'Unauthorized',
+  'result.forbidden': 'Forbidden',
+  'result.notFound': 'Not Found',
+  'result.internalError': 'Internal Server Error',
+  'result.tooManyRequests': 'Too Many Requests',
+};
+
+const zhTW: Record<MessageCode, string> = {
+  'validation.required': '此欄位為必填',
+  'validation.notNull': '此欄位不可為 null',
+  'validation.email': '請輸入有效的電子郵件地址',
+  'validation.minLength': '長度至少需要 {length} 個字元',
+  'validation.maxLength': '長度不可超過 {length} 個字元',
+  'validation.pattern': '格式不正確',
+  'validation.custom': '驗證失敗',
+  'validation.timeout': '驗證逾時',
+  'validation.string': '必須為字串',
+  'validation.number': '必須為數字',
+  'validation.integer': '必須為整數',
+  'validation.boolean': '必須為布林值',
+  'validation.date': '必須為有效的日期',
+  'validation.uuid': '必須為 UUID',
+  'validation.object': '必須為物件',
+  'validation.array': '必須為陣列',
+  'validation.enum': '必須為下列其中之一：{values}',
+  'validation.min': '不可小於 {min}',
+  'validation.max': '不可大於 {max}',
+  'validation.minItems': '至少需要 {min} 個項目',
+  'validation.maxItems': '最多只能有 {max} 個項目',
+  'validationRules.required': '此欄位為必填',
+  'validationRules.email': '請輸入有效的電子郵件地址',
+  'validationRules.minLength': '長度至少需要 {length} 個字元',
+  'validationRules.maxLength': '長度不可超過 {length} 個字元',
+  'validationRules.pattern': '格式不正確',
+  'validationRules.custom': '驗證失敗',
+  'result.validationFailed': '資料驗證失敗',
+  'result.unknownError': '發生未知錯誤',
+  'result.unauthorized': '未授權',
+  'result.forbidden': '禁止存取',
+  'result.notFound': '找不到資源',
+  'result.internalError': '伺服器內部錯誤',
+  'result.tooManyRequests': '請求過於頻繁',
+};
+
+/**
+ * 訊息目錄
+ *
+ * 內建 en 與 zh-TW，預設語系為 en。服務可註冊新語系、覆寫個別訊息，
+ * 或設定自訂解析函式（例如從資料庫讀取訊息）。
+ *
+ * @example
+ * ```typescript
+ * MessageCatalog.setDefaultLocale('zh-TW');
+ * MessageCatalog.register('zh-TW', { 'validation.required': '請填寫此欄位' });
+ *
+ * MessageCatalog.translate('validation.minLength', { length: 8 }, 'en'); // 'Minimum length is 8'
+ * MessageCatalog.resolveLocale('zh-Hant-TW,zh;q=0.9,en;q=0.8');          // 'zh-TW'
+ * ```
+ */
+export class MessageCatalog {
+  private static readonly catalogs: Map<string, Record<string, string>> = new Map([
+    ['en', { ...en }],
+    ['zh-TW', { ...zhTW }],
+  ]);
+
+  private static defaultLocale = 'en';
+
+  private static resolver: MessageResolver | null = null;
+
+  /**
+   * 取得訊息並代入參數
+   *
+   * 依序使用：自訂解析函式 → 指定語系 → 預設語系 → en → 訊息代碼本身
+   */
+  static translate(code: MessageCode | string, params: MessageParams = {}, locale: string = this.defaultLocale): string {
+    const template = this.resolver?.(code, params, locale)
+      ?? this.catalogs.get(locale)?.[code]
+      ?? this.catalogs.get(this.defaultLocale)?.[code]
+      ?? this.catalogs.get('en')?.[code]
+      ?? code;
+
+    return interpolate(template, params);
+  }
+
+  /**
+   * 註冊語系或覆寫既有訊息
+   */
+  static register(locale: string, messages: Partial<Record<MessageCode, string>> & Record<string, string>): void {
+    this.catalogs.set(locale, { ...this.catalogs.get(locale), ...messages });
+  }
+
+  /**
+   * 設定自訂訊息解析函式，傳入 null 取消
+   */
+  static setResolver(resolver: MessageResolver | null): void {
+    this.resolver = resolver;
+  }
+
+  /**
+   * 設定預設語系
+   *
+   * @throws {Error} 語系未註冊時拋出
+   */
+  static setDefaultLocale(locale: string): void {
+    if (!this.catalogs.has(locale)) {
+      throw new Error(`Locale ${locale} is not registered`);
+    }
+    this.defaultLocale = locale;
+  }
+
+  static getDefaultLocale(): string {
+    return this.defaultLocale;
+  }
+
+  /**
+   * 已註冊的語系
+   */
+  static getLocales(): string[] {
+    return [...this.catalogs.keys()];
+  }
+
+  /**
+   * 依 Accept-Language 標頭選擇語系
+   *
+   * 依 q 值排序後，先找完全相符的語系，再依主要語言比對（如 en-US → en、zh-Hant → zh-TW），
+   * 都沒有時使用預設語系
+   */
+  static resolveLocale(acceptLanguage?: string | null): string {
+    if (!acceptLanguage) {
+      return this.defaultLocale;
+    }
+
+    const requested = acceptLanguage
+      .split(',')
+      .map((part, index) => {
+        const [tag, ...attributes] = part.trim().split(';');
+        const quality = attributes.map((attribute) => /^\s*q=([\d.]+)\s*$/.exec(attribute)).find(Boolean);
+        return { tag: tag.trim().toLowerCase(), q: quality ? parseFloat(quality[1]) : 1, index };
+      })
+      .filter(({ tag, q }) => tag && tag !== '*' && q > 0)
+      .sort((a, b) => b.q - a.q || a.index - b.index);
+
+    const locales = this.getLocales();
+    for (const { tag } of requested) {
+      const exact = locales.find((locale) => locale.toLowerCase() === tag);
+      if (exact) {
+        return exact;
+      }
+
+      const language = tag.split('-')[0];
+      const sameLanguage = locales.find((locale) => locale.toLowerCase().split('-')[0] === language);
+      if (sameLanguage) {
+        return sameLanguage;
+      }
+    }
+
+    return this.defaultLocale;
+  }
+}
+
+/**
+ * 代入 {name} 形式的參數，未提供的參數保留原樣
+ */
+function interpolate(template: string, params: MessageParams): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    if (!(name in params)) {
+      return placeholder;
+    }
+    const value = params[name];
+    return Array.isArray(value) ? value.join(', ') : String(value);
+  });
+}
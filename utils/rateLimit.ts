@@ -0,0 +1,205 @@
+// 速率限制：Express 中間件與 gRPC 伺服器攔截器
+
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import * as grpc from '@grpc/grpc-js';
+import { ResResult } from './ResResult.js';
+import { GrpcStatus } from './grpc.js';
+import { MessageCatalog } from './messages.js';
+import type { RateLimiter, RateLimitResult } from '../services/redis/RedisRateLimiter.js';
+
+/**
+ * 由 Express 請求取得限流鍵值，回傳 null/undefined 表示不限流
+ */
+export type RateLimitKeyResolver = (req: Request) => string | null | undefined;
+
+/**
+ * 驗證中間件在請求上掛上使用者後的請求型別
+ */
+type RequestWithUser = Request & { user?: { id?: string | number } };
+
+/**
+ * 由 gRPC 呼叫取得限流鍵值，回傳 null/undefined 表示不限流
+ */
+export type GrpcRateLimitKeyResolver = (metadata: grpc.Metadata, peer: string, method: string) => string | null | undefined;
+
+export interface RateLimitMiddlewareOptions {
+  /** 速率限制器 */
+  limiter: RateLimiter;
+  /** 限流鍵值，預設依來源 IP */
+  key?: RateLimitKeyResolver;
+  /** 本次請求消耗的額度，預設 1 */
+  cost?: (req: Request) => number;
+  /** 被限流時的回應訊息，預設依 Accept-Language 標頭取用 result.tooManyRequests */
+  message?: string;
+  /** 是否加上 RateLimit-Limit / RateLimit-Remaining / RateLimit-Reset 標頭，預設 true */
+  headers?: boolean;
+}
+
+export interface GrpcRateLimitOptions {
+  /** 速率限制器 */
+  limiter: RateLimiter;
+  /** 限流鍵值，預設依來源位址 */
+  key?: GrpcRateLimitKeyResolver;
+  /** 不限流的方法，預設略過 grpc.health.v1 */
+  skip?: (method: string) => boolean;
+  /** 被限流時的狀態訊息，預設 Too Many Requests */
+  message?: string;
+}
+
+/**
+ * 常用的限流鍵值
+ *
+ * 鍵值會加上類型前綴（ip: / user: / apikey:），不同類型的額度互不影響
+ */
+export const RateLimitKeys = {
+  /** 依來源 IP，需視部署情況設定 Express 的 trust proxy */
+  ip: (): RateLimitKeyResolver => (req) => {
+    const ip = req.ip || req.socket?.remoteAddress;
+    return ip ? `ip:${ip}` : null;
+  },
+
+  /** 依使用者 ID，未登入的請求不限流 */
+  userId: (getUserId: (req: Request) => string | number | null | undefined = (req) => (req as RequestWithUser).user?.id): RateLimitKeyResolver =>
+    (req) => {
+      const userId = getUserId(req);
+      return userId !== null && userId !== undefined ? `user:${userId}` : null;
+    },
+
+  /** 依 API key 標頭，預設 x-api-key */
+  apiKey: (header: string = 'x-api-key'): RateLimitKeyResolver => (req) => {
+    const apiKey = req.get(header);
+    return apiKey ? `apikey:${apiKey}` : null;
+  },
+};
+
+/**
+ * 常用的 gRPC 限流鍵值
+ */
+export const GrpcRateLimitKeys = {
+  /** 依來源位址（不含埠號） */
+  peer: (): GrpcRateLimitKeyResolver => (_metadata, peer) => {
+    const host = peer.replace(/^ipv[46]:/, '').replace(/:\d+$/, '').replace(/^\[(.*)\]$/, '$1');
+    return host ? `ip:${host}` : null;
+  },
+
+  /** 依 metadata 中的值，例如 x-user-id */
+  metadata: (key: string, prefix: string = `${key}:`): GrpcRateLimitKeyResolver => (metadata) => {
+    const value = metadata.get(key)[0];
+    return value !== undefined ? `${prefix}${value.toString()}` : null;
+  },
+
+  /** 依 API key metadata，預設 x-api-key */
+  apiKey: (key: string = 'x-api-key'): GrpcRateLimitKeyResolver => GrpcRateLimitKeys.metadata(key, 'apikey:'),
+};
+
+/**
+ * 建立 Express 速率限制中間件
+ *
+ * 被限流時回應 ResResult.error(429, ...) 並加上 Retry-After 標頭（秒）
+ *
+ * @example
+ * ```typescript
+ * const limiter = new SlidingWindowRateLimiter({ limit: 100, windowMs: 60000 });
+ * app.use('/api', createRateLimitMiddleware({ limiter }));
+ * app.post('/api/commands', createRateLimitMiddleware({ limiter: commandLimiter, key: RateLimitKeys.userId() }), handler);
+ * ```
+ */
+export function createRateLimitMiddleware(options: RateLimitMiddlewareOptions): RequestHandler {
+  const resolveKey = options.key ?? RateLimitKeys.ip();
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const key = resolveKey(req);
+      if (!key) {
+        return next();
+      }
+
+      const result = await options.limiter.consume(key, options.cost ? options.cost(req) : 1);
+
+      if (options.headers !== false) {
+        res.set({
+          'RateLimit-Limit': String(result.limit),
+          'RateLimit-Remaining': String(Math.max(result.remaining, 0)),
+          'RateLimit-Reset': String(Math.ceil(result.resetMs / 1000)),
+        });
+      }
+
+      if (result.allowed) {
+        return next();
+      }
+
+      const retryAfterSeconds = toRetryAfterSeconds(result);
+      res.set('Retry-After', String(retryAfterSeconds));
+      const message = options.message
+        ?? MessageCatalog.translate('result.tooManyRequests', {}, MessageCatalog.resolveLocale(req.get('accept-language')));
+      const response = ResResult.error(429, message, { retryAfter: retryAfterSeconds });
+      res.status(response.status).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * 建立 gRPC 伺服器速率限制攔截器
+ *
+ * 被限流時回傳 RESOURCE_EXHAUSTED，並在 trailing metadata 加上 retry-after（秒）
+ *
+ * @example
+ * ```typescript
+ * createGrpcServer({
+ *   ...,
+ *   interceptors: [createRateLimitInterceptor({ limiter, key: GrpcRateLimitKeys.apiKey() })]
+ * });
+ * ```
+ */
+export function createRateLimitInterceptor(options: GrpcRateLimitOptions): grpc.ServerInterceptor {
+  const resolveKey = options.key ?? GrpcRateLimitKeys.peer();
+  const skip = options.skip ?? ((method: string) => method.startsWith('/grpc.health.v1.'));
+  const message = options.message ?? 'Too Many Requests';
+
+  return (methodDescriptor, call) => {
+    if (skip(methodDescriptor.path)) {
+      return new grpc.ServerInterceptingCall(call);
+    }
+
+    return new grpc.ServerInterceptingCall(call, {
+      start(next) {
+        next({
+          onReceiveMetadata(metadata, nextMetadata) {
+            // 判斷完成前 grpc-js 會暫存後續訊息
+            Promise.resolve()
+              .then(() => {
+                const key = resolveKey(metadata, call.getPeer(), methodDescriptor.path);
+                return key ? options.limiter.consume(key) : null;
+              })
+              .then((result) => {
+                if (!result || result.allowed) {
+                  nextMetadata(metadata);
+                  return;
+                }
+
+                const trailers = new grpc.Metadata();
+                trailers.set('retry-after', String(toRetryAfterSeconds(result)));
+                call.sendStatus({ code: GrpcStatus.RESOURCE_EXHAUSTED, details: message, metadata: trailers });
+              })
+              .catch((error) => {
+                call.sendStatus({
+                  code: GrpcStatus.INTERNAL,
+                  details: error instanceof Error ? error.message : String(error),
+                  metadata: new grpc.Metadata(),
+                });
+              });
+          },
+        });
+      },
+    });
+  };
+}
+
+/**
+ * 將重試等待時間轉為 Retry-After 秒數，至少 1 秒
+ */
+function toRetryAfterSeconds(result: RateLimitResult): number {
+  return Math.max(Math.ceil(result.retryAfterMs / 1000), 1);
+}
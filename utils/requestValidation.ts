@@ -0,0 +1,214 @@
+// Express 請求驗證中間件
+
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ResResult } from './ResResult.js';
+import { MessageCatalog } from './messages.js';
+import {
+  Validator,
+  DataSanitizer,
+  type FieldSchema,
+  type ObjectFieldSchema,
+  type InferSchema,
+  type ValidationError,
+  type ValidationOptions,
+} from './validation.js';
+
+/**
+ * 各請求位置的結構描述
+ */
+export interface RequestValidationSchemas {
+  body?: ObjectFieldSchema;
+  query?: ObjectFieldSchema;
+  params?: ObjectFieldSchema;
+}
+
+export interface RequestValidationOptions extends Omit<ValidationOptions, 'locale'> {
+  /** 驗證失敗時的回應訊息，預設依語系取用 result.validationFailed */
+  message?: string;
+  /** 是否以 DataSanitizer.sanitizeString 清理字串欄位，預設 true */
+  sanitize?: boolean;
+  /** 錯誤訊息語系，預設依 Accept-Language 標頭選擇 */
+  locale?: string | ((req: Request) => string);
+  /** 回應 data 是否包含錯誤代碼與參數（formatValidationErrorDetails），預設 false */
+  details?: boolean;
+}
+
+type InferLocation<S> = S extends ObjectFieldSchema ? InferSchema<S> : any;
+
+/**
+ * 驗證後的請求型別
+ *
+ * @example
+ * ```typescript
+ * const listMissionsSchemas = {
+ *   query: Schemas.object({ page: Schemas.optional(Schemas.integer({ min: 1 })) }),
+ * };
+ *
+ * router.get('/missions', createValidationMiddleware(listMissionsSchemas), (req: Request, res: Response) => {
+ *   const { query } = req as ValidatedRequest<typeof listMissionsSchemas>;
+ * });
+ * ```
+ */
+export type ValidatedRequest<S extends RequestValidationSchemas> = Request<
+  InferLocation<S['params']>,
+  any,
+  InferLocation<S['body']>,
+  InferLocation<S['query']>
+>;
+
+/** 依序驗證的請求位置，query 與 params 的錯誤路徑會加上位置前綴 */
+const LOCATIONS = ['params', 'query', 'body'] as const;
+
+/** 可轉為數字的字串 */
+const NUMERIC_REGEX = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+/** 可轉為布林值的字串 */
+const BOOLEAN_REGEX = /^(true|false|1|0)$/i;
+
+/**
+ * 建立 Express 請求驗證中間件
+ *
+ * 依結構描述驗證 req.body、req.query 與 req.params：
+ * - query 與 params 的字串依欄位型別轉為數字或布林值（DataSanitizer.sanitizeNumber / sanitizeBoolean），
+ *   數字列舉值也會轉換，陣列欄位可接受單一值
+ * - 字串欄位以 DataSanitizer.sanitizeString 清理
+ * - 驗證通過後以轉換後的資料取代原本的值，未宣告的欄位會被移除
+ * - 驗證失敗時回應 ResResult.badRequest，data 為 formatValidationErrors 的結果；
+ *   details 為 true 時改為 formatValidationErrorDetails，包含錯誤代碼與參數
+ * - 錯誤訊息依 Accept-Language 標頭選擇語系（MessageCatalog.resolveLocale）
+ *
+ * query 與 params 的錯誤路徑會加上 query. / params. 前綴，body 的錯誤路徑不加前綴
+ *
+ * @example
+ * ```typescript
+ * router.post('/missions', createValidationMiddleware({
+ *   body: missionSchema,
+ *   query: Schemas.object({ dryRun: Schemas.optional(Schemas.boolean()) }),
+ * }), missionController.create);
+ *
+ * // 400 { status: 400, message: 'Validation failed', data: { 'waypoints[3].lat': ['Must be at most 90'] } }
+ * // Accept-Language: zh-TW
+ * // 400 { status: 400, message: '資料驗證失敗', data: { 'waypoints[3].lat': ['不可大於 90'] } }
+ * ```
+ */
+export function createValidationMiddleware<S extends RequestValidationSchemas>(
+  schemas: S,
+  options: RequestValidationOptions = {}
+): RequestHandler<InferLocation<S['params']>, any, InferLocation<S['body']>, InferLocation<S['query']>> {
+  const sanitize = options.sanitize ?? true;
+
+  return (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const locale = typeof options.locale === 'function'
+        ? options.locale(req)
+        : options.locale ?? MessageCatalog.resolveLocale(req.get('accept-language'));
+      const errors: ValidationError[] = [];
+      const parsed: Partial<Record<(typeof LOCATIONS)[number], unknown>> = {};
+
+      for (const location of LOCATIONS) {
+        const schema = schemas[location];
+        if (!schema) {
+          continue;
+        }
+
+        const input = prepareValue(req[location] ?? {}, schema, location !== 'body', sanitize);
+        const result = await Validator.parseAsync(schema, input, { timeoutMs: options.timeoutMs, locale });
+
+        if (result.success) {
+          parsed[location] = result.data;
+        } else {
+          const prefix = location === 'body' ? '' : location;
+          errors.push(...result.errors.map((error) => ({
+            ...error,
+            field: prefix && error.field ? `${prefix}.${error.field}` : prefix || error.field,
+          })));
+        }
+      }
+
+      if (Validator.hasValidationErrors(errors)) {
+        const response = ResResult.badRequest(
+          options.message ?? MessageCatalog.translate('result.validationFailed', {}, locale),
+          options.details ? Validator.formatValidationErrorDetails(errors) : Validator.formatValidationErrors(errors)
+        );
+        res.status(response.status).json(response);
+        return;
+      }
+
+      for (const location of LOCATIONS) {
+        if (location in parsed) {
+          Object.assign(req, { [location]: parsed[location] });
+        }
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  }) as RequestHandler<InferLocation<S['params']>, any, InferLocation<S['body']>, InferLocation<S['query']>>;
+}
+
+/**
+ * 依結構描述轉換與清理輸入值
+ *
+ * @param value 輸入值
+ * @param schema 結構描述
+ * @param coerce 是否將字串轉為數字或布林值（用於 query 與 params）
+ * @param sanitize 是否清理字串欄位
+ */
+function prepareValue(value: any, schema: FieldSchema, coerce: boolean, sanitize: boolean): any {
+  if (value === undefined || value === null) {
+    return value;
+  }
+
+  // 查詢字串中的空值（?page=）視為未提供
+  if (coerce && value === '' && schema.type !== 'string') {
+    return undefined;
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return sanitize && typeof value === 'string' ? DataSanitizer.sanitizeString(value) : value;
+
+    case 'number':
+    case 'integer':
+      return coerce && typeof value === 'string' && NUMERIC_REGEX.test(value.trim())
+        ? DataSanitizer.sanitizeNumber(value)
+        : value;
+
+    case 'boolean':
+      return coerce && typeof value === 'string' && BOOLEAN_REGEX.test(value)
+        ? DataSanitizer.sanitizeBoolean(value)
+        : value;
+
+    case 'enum': {
+      // 數字列舉值在查詢字串中是字串，字串本身不是列舉值時才轉換
+      if (!coerce || typeof value !== 'string' || schema.values.includes(value) || !NUMERIC_REGEX.test(value.trim())) {
+        return value;
+      }
+      const num = DataSanitizer.sanitizeNumber(value);
+      return num !== null && schema.values.includes(num) ? num : value;
+    }
+
+    case 'array': {
+      const items = Array.isArray(value) ? value : coerce ? [value] : value;
+      return Array.isArray(items)
+        ? items.map((item) => prepareValue(item, schema.items, coerce, sanitize))
+        : items;
+    }
+
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        return value;
+      }
+      const prepared: Record<string, any> = { ...value };
+      for (const [key, propertySchema] of Object.entries(schema.properties)) {
+        if (key in prepared) {
+          prepared[key] = prepareValue(prepared[key], propertySchema, coerce, sanitize);
+        }
+      }
+      return prepared;
+    }
+
+    default:
+      return value;
+  }
+}
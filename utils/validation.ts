@@ -1,51 +1,218 @@
 // 通用驗證工具
 
+import { MessageCatalog, type MessageCode, type MessageParams } from './messages.js';
+
 export interface ValidationRule {
   field: string;
   rules: Array<{
     type: 'required' | 'email' | 'minLength' | 'maxLength' | 'pattern' | 'custom';
     value?: any;
+    /** 錯誤訊息，未指定時依語系取用訊息目錄 */
     message?: string;
-    validator?: (value: any) => boolean;
+    /** 錯誤代碼，預設為 validation.<type>；未指定 message 時也用來查詢訊息目錄 */
+    code?: string;
+    /** 未指定 message 與 code 時查詢訊息目錄的代碼，ValidationRules 建立的規則為 validationRules.<type> */
+    messageCode?: string;
+    /** 自訂驗證函式，可回傳 Promise（需使用 validateObjectAsync / parseAsync） */
+    validator?: (value: any, context: ValidationContext) => boolean | Promise<boolean>;
+    /** 非同步驗證的逾時時間（毫秒），預設使用 ValidationOptions.timeoutMs */
+    timeoutMs?: number;
   }>;
 }
 
+/**
+ * 自訂驗證函式可取得的上下文，用於跨欄位驗證
+ */
+export interface ValidationContext {
+  /** 被驗證的完整資料 */
+  data: any;
+  /** 欄位所在的物件，可取得同層欄位 */
+  parent: any;
+  /** 欄位路徑 */
+  field: string;
+}
+
+/**
+ * 驗證選項
+ */
+export interface ValidationOptions {
+  /** 非同步規則的預設逾時時間（毫秒），逾時視為驗證失敗，預設 5000；同步驗證不使用 */
+  timeoutMs?: number;
+  /** 錯誤訊息語系，預設 MessageCatalog.getDefaultLocale() */
+  locale?: string;
+}
+
 export interface ValidationError {
+  /** 欄位路徑，巢狀欄位以點與索引表示，例如 waypoints[3].lat */
   field: string;
   message: string;
+  /** 穩定的錯誤代碼（例如 validation.minLength），前端可依代碼自行翻譯 */
+  code?: string;
+  /** 訊息插值參數（例如 { length: 8 }） */
+  params?: MessageParams;
+}
+
+/**
+ * 欄位結構描述共用設定
+ */
+interface BaseFieldSchema {
+  /** 允許 undefined（欄位不存在） */
+  optional?: boolean;
+  /** 允許 null */
+  nullable?: boolean;
+  /** 型別檢查通過後套用的規則（email、minLength、pattern、custom 等） */
+  rules?: ValidationRule['rules'];
+}
+
+export interface StringFieldSchema extends BaseFieldSchema {
+  type: 'string';
+}
+
+export interface NumberFieldSchema extends BaseFieldSchema {
+  type: 'number' | 'integer';
+  min?: number;
+  max?: number;
 }
 
+export interface BooleanFieldSchema extends BaseFieldSchema {
+  type: 'boolean';
+}
+
+/** Date 物件或可解析的日期字串 */
+export interface DateFieldSchema extends BaseFieldSchema {
+  type: 'date';
+}
+
+export interface UuidFieldSchema extends BaseFieldSchema {
+  type: 'uuid';
+}
+
+export interface EnumFieldSchema<V extends string | number = string | number> extends BaseFieldSchema {
+  type: 'enum';
+  values: readonly V[];
+}
+
+export interface ObjectFieldSchema<P extends Record<string, FieldSchema> = Record<string, FieldSchema>> extends BaseFieldSchema {
+  type: 'object';
+  properties: P;
+}
+
+export interface ArrayFieldSchema<I extends FieldSchema = FieldSchema> extends BaseFieldSchema {
+  type: 'array';
+  items: I;
+  minItems?: number;
+  maxItems?: number;
+}
+
+/**
+ * 欄位結構描述，可巢狀組合
+ */
+export type FieldSchema =
+  | StringFieldSchema
+  | NumberFieldSchema
+  | BooleanFieldSchema
+  | DateFieldSchema
+  | UuidFieldSchema
+  | EnumFieldSchema
+  | ObjectFieldSchema
+  | ArrayFieldSchema;
+
+/**
+ * 由結構描述推導資料型別（Validator.parse 的輸出型別，日期為 Date）
+ *
+ * @example
+ * ```typescript
+ * type Mission = InferSchema<typeof missionSchema>;
+ * ```
+ */
+export type InferSchema<S extends FieldSchema> =
+  S extends { optional: true } ? InferNullable<S> | undefined : InferNullable<S>;
+
+type InferNullable<S extends FieldSchema> =
+  S extends { nullable: true } ? InferValue<S> | null : InferValue<S>;
+
+type InferValue<S extends FieldSchema> =
+  S extends StringFieldSchema | UuidFieldSchema ? string
+  : S extends NumberFieldSchema ? number
+  : S extends BooleanFieldSchema ? boolean
+  : S extends DateFieldSchema ? Date
+  : S extends EnumFieldSchema<infer V> ? V
+  : S extends ArrayFieldSchema<infer I> ? InferSchema<I>[]
+  : S extends ObjectFieldSchema<infer P> ? InferObject<P>
+  : never;
+
+type InferObject<P extends Record<string, FieldSchema>> = Simplify<
+  { [K in keyof P as P[K] extends { optional: true } ? never : K]: InferSchema<P[K]> } &
+  { [K in keyof P as P[K] extends { optional: true } ? K : never]?: InferSchema<P[K]> }
+>;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/**
+ * Validator.parse 的結果
+ */
+export type ParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: ValidationError[] };
+
+/**
+ * 驗證過程中收集的錯誤，非同步規則的結果以 Promise 佔位以維持順序
+ */
+interface ErrorSink {
+  entries: Array<ValidationError | Promise<ValidationError[]>>;
+  /** 非同步模式的預設逾時時間；undefined 表示同步模式 */
+  timeoutMs?: number;
+  /** 錯誤訊息語系 */
+  locale?: string;
+}
+
+const DEFAULT_ASYNC_TIMEOUT_MS = 5000;
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-8][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
 export class Validator {
   /**
    * 驗證單個字段
+   *
+   * @throws {Error} 規則回傳 Promise 時拋出，請改用 validateObjectAsync
    */
-  static validateField(value: any, rules: ValidationRule['rules']): ValidationError[] {
-    const errors: ValidationError[] = [];
+  static validateField(
+    value: any,
+    rules: ValidationRule['rules'],
+    context?: ValidationContext,
+    options: ValidationOptions = {}
+  ): ValidationError[] {
+    const sink: ErrorSink = { entries: [], locale: options.locale };
+    this.checkRules(value, rules, context ?? { data: value, parent: undefined, field: '' }, sink);
+    return sink.entries as ValidationError[];
+  }
 
+  /**
+   * 依序檢查規則，非同步規則的結果以 Promise 加入 sink
+   */
+  private static checkRules(value: any, rules: ValidationRule['rules'], context: ValidationContext, sink: ErrorSink): void {
     for (const rule of rules) {
       let isValid = true;
-      let errorMessage = rule.message || `Validation failed for rule: ${rule.type}`;
+      let params: MessageParams | undefined;
 
       switch (rule.type) {
         case 'required':
           isValid = value !== null && value !== undefined && value !== '';
-          errorMessage = rule.message || 'Field is required';
           break;
 
         case 'email':
           const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
           isValid = !value || emailRegex.test(value);
-          errorMessage = rule.message || 'Invalid email format';
           break;
 
         case 'minLength':
           isValid = !value || (typeof value === 'string' && value.length >= (rule.value || 0));
-          errorMessage = rule.message || `Minimum length is ${rule.value}`;
+          params = { length: rule.value };
           break;
 
         case 'maxLength':
           isValid = !value || (typeof value === 'string' && value.length <= (rule.value || 0));
-          errorMessage = rule.message || `Maximum length is ${rule.value}`;
+          params = { length: rule.value };
           break;
 
         case 'pattern':
@@ -53,47 +220,310 @@ export class Validator {
             const regex = new RegExp(rule.value);
             isValid = regex.test(value);
           }
-          errorMessage = rule.message || 'Value does not match required pattern';
+          params = { pattern: String(rule.value) };
           break;
 
         case 'custom':
           if (rule.validator) {
-            isValid = rule.validator(value);
+            const result = rule.validator(value, context);
+            if (result instanceof Promise) {
+              if (sink.timeoutMs === undefined) {
+                result.catch(() => undefined);
+                throw new Error(`Async validator on "${context.field}" requires Validator.validateObjectAsync or Validator.parseAsync`);
+              }
+              sink.entries.push(this.settleAsyncRule(
+                result,
+                rule.timeoutMs ?? sink.timeoutMs,
+                this.createError(context.field, rule.code ?? 'validation.custom', undefined, sink, rule.message, rule.code ?? rule.messageCode),
+                this.createError(context.field, 'validation.timeout', undefined, sink)
+              ));
+              continue;
+            }
+            isValid = result;
           }
-          errorMessage = rule.message || 'Custom validation failed';
           break;
       }
 
       if (!isValid) {
-        errors.push({
-          field: '', // 將在上層設置
-          message: errorMessage,
-        });
+        sink.entries.push(this.createError(
+          context.field,
+          rule.code ?? `validation.${rule.type}`,
+          params,
+          sink,
+          rule.message,
+          rule.code ?? rule.messageCode
+        ));
       }
     }
+  }
 
-    return errors;
+  /**
+   * 建立驗證錯誤，未指定訊息時依語系以 messageCode（預設為 code）查詢訊息目錄
+   */
+  private static createError(
+    field: string,
+    code: MessageCode | string,
+    params: MessageParams | undefined,
+    sink: ErrorSink,
+    message?: string,
+    messageCode: MessageCode | string = code
+  ): ValidationError {
+    return {
+      field,
+      message: message || MessageCatalog.translate(messageCode, params, sink.locale),
+      code,
+      ...(params && { params }),
+    };
+  }
+
+  /**
+   * 等待非同步規則結果，逾時視為驗證失敗；驗證函式拋出的錯誤會往上拋
+   */
+  private static async settleAsyncRule(
+    result: Promise<boolean>,
+    timeoutMs: number,
+    failure: ValidationError,
+    timeoutFailure: ValidationError
+  ): Promise<ValidationError[]> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<'timeout'>((resolve) => {
+      timer = setTimeout(() => resolve('timeout'), timeoutMs);
+    });
+
+    try {
+      const outcome = await Promise.race([result, timeout]);
+      if (outcome === 'timeout') {
+        return [timeoutFailure];
+      }
+      return outcome ? [] : [failure];
+    } finally {
+      clearTimeout(timer);
+    }
   }
 
   /**
    * 驗證對象
+   *
+   * 可傳入欄位規則陣列，或以 Schemas.object 建立的結構描述
+   */
+  static validateObject(
+    data: any,
+    validationRules: ValidationRule[] | ObjectFieldSchema,
+    options: ValidationOptions = {}
+  ): ValidationError[] {
+    const sink: ErrorSink = { entries: [], locale: options.locale };
+    this.collectObject(data, validationRules, sink);
+    return sink.entries as ValidationError[];
+  }
+
+  /**
+   * 驗證對象，支援非同步與跨欄位規則
+   *
+   * 所有規則同時執行，錯誤順序與規則宣告順序相同，不受完成先後影響
+   *
+   * @example
+   * ```typescript
+   * const errors = await Validator.validateObjectAsync(req.body, [
+   *   { field: 'endTime', rules: [ValidationRules.custom((end, { parent }) => new Date(end) > new Date(parent.startTime), 'endTime must be after startTime')] },
+   *   { field: 'serialNumber', rules: [ValidationRules.custom(async (serial) => !(await redis.exists(`drone:serial:${serial}`)), 'Serial number already registered')] },
+   * ]);
+   * ```
    */
-  static validateObject(data: any, validationRules: ValidationRule[]): ValidationError[] {
-    const errors: ValidationError[] = [];
+  static async validateObjectAsync(
+    data: any,
+    validationRules: ValidationRule[] | ObjectFieldSchema,
+    options: ValidationOptions = {}
+  ): Promise<ValidationError[]> {
+    const sink: ErrorSink = { entries: [], timeoutMs: options.timeoutMs ?? DEFAULT_ASYNC_TIMEOUT_MS, locale: options.locale };
+    this.collectObject(data, validationRules, sink);
+    return await this.settle(sink);
+  }
+
+  /**
+   * 依欄位規則陣列或結構描述收集錯誤
+   */
+  private static collectObject(data: any, validationRules: ValidationRule[] | ObjectFieldSchema, sink: ErrorSink): void {
+    if (!Array.isArray(validationRules)) {
+      this.validateNode(data, validationRules, '', sink, data, undefined);
+      return;
+    }
 
     for (const rule of validationRules) {
       const fieldValue = data[rule.field];
-      const fieldErrors = this.validateField(fieldValue, rule.rules);
-      
-      fieldErrors.forEach(error => {
-        errors.push({
-          field: rule.field,
-          message: error.message,
-        });
-      });
+      this.checkRules(fieldValue, rule.rules, { data, parent: data, field: rule.field }, sink);
+    }
+  }
+
+  /**
+   * 等待所有非同步規則，依收集順序展開錯誤
+   */
+  private static async settle(sink: ErrorSink): Promise<ValidationError[]> {
+    const results = await Promise.all(sink.entries.map((entry) => (entry instanceof Promise ? entry : [entry])));
+    return results.flat();
+  }
+
+  /**
+   * 依結構描述驗證資料，錯誤的 field 為完整路徑（例如 waypoints[3].lat）
+   */
+  static validateSchema(data: any, schema: FieldSchema, path: string = '', options: ValidationOptions = {}): ValidationError[] {
+    const sink: ErrorSink = { entries: [], locale: options.locale };
+    this.validateNode(data, schema, path, sink, data, undefined);
+    return sink.entries as ValidationError[];
+  }
+
+  /**
+   * 依結構描述驗證並轉換資料
+   *
+   * 成功時回傳具型別的資料：日期字串轉為 Date，物件只保留結構描述中宣告的欄位
+   *
+   * @example
+   * ```typescript
+   * const result = Validator.parse(missionSchema, req.body);
+   * if (!result.success) {
+   *   return res.status(400).json(ResResult.badRequest('Validation failed', Validator.formatValidationErrors(result.errors)));
+   * }
+   * const mission = result.data; // InferSchema<typeof missionSchema>
+   * ```
+   */
+  static parse<S extends FieldSchema>(schema: S, input: unknown, options: ValidationOptions = {}): ParseResult<InferSchema<S>> {
+    const sink: ErrorSink = { entries: [], locale: options.locale };
+    const data = this.validateNode(input, schema, '', sink, input, undefined);
+    const errors = sink.entries as ValidationError[];
+
+    return errors.length > 0
+      ? { success: false, errors }
+      : { success: true, data: data as InferSchema<S> };
+  }
+
+  /**
+   * 依結構描述驗證並轉換資料，支援非同步與跨欄位規則
+   */
+  static async parseAsync<S extends FieldSchema>(
+    schema: S,
+    input: unknown,
+    options: ValidationOptions = {}
+  ): Promise<ParseResult<InferSchema<S>>> {
+    const sink: ErrorSink = { entries: [], timeoutMs: options.timeoutMs ?? DEFAULT_ASYNC_TIMEOUT_MS, locale: options.locale };
+    const data = this.validateNode(input, schema, '', sink, input, undefined);
+    const errors = await this.settle(sink);
+
+    return errors.length > 0
+      ? { success: false, errors }
+      : { success: true, data: data as InferSchema<S> };
+  }
+
+  /**
+   * 驗證單一節點並遞迴驗證子節點
+   *
+   * @returns 轉換後的值
+   */
+  private static validateNode(value: any, schema: FieldSchema, path: string, sink: ErrorSink, root: any, parent: any): any {
+    const fail = (code: MessageCode, params?: MessageParams) => sink.entries.push(this.createError(path, code, params, sink));
+    let output = value;
+
+    if (value === undefined) {
+      if (!schema.optional) {
+        fail('validation.required');
+      }
+      return undefined;
+    }
+
+    if (value === null) {
+      if (!schema.nullable) {
+        fail('validation.notNull');
+      }
+      return null;
+    }
+
+    switch (schema.type) {
+      case 'string':
+        if (typeof value !== 'string') {
+          fail('validation.string');
+          return undefined;
+        }
+        break;
+
+      case 'number':
+      case 'integer':
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          fail('validation.number');
+          return undefined;
+        }
+        if (schema.type === 'integer' && !Number.isInteger(value)) {
+          fail('validation.integer');
+          return undefined;
+        }
+        if (schema.min !== undefined && value < schema.min) {
+          fail('validation.min', { min: schema.min });
+        }
+        if (schema.max !== undefined && value > schema.max) {
+          fail('validation.max', { max: schema.max });
+        }
+        break;
+
+      case 'boolean':
+        if (typeof value !== 'boolean') {
+          fail('validation.boolean');
+          return undefined;
+        }
+        break;
+
+      case 'date':
+        if (!(value instanceof Date ? !isNaN(value.getTime()) : typeof value === 'string' && !isNaN(Date.parse(value)))) {
+          fail('validation.date');
+          return undefined;
+        }
+        output = value instanceof Date ? value : new Date(value);
+        break;
+
+      case 'uuid':
+        if (typeof value !== 'string' || !UUID_REGEX.test(value)) {
+          fail('validation.uuid');
+          return undefined;
+        }
+        break;
+
+      case 'enum':
+        if (!schema.values.includes(value)) {
+          fail('validation.enum', { values: [...schema.values] });
+          return undefined;
+        }
+        break;
+
+      case 'object':
+        if (typeof value !== 'object' || Array.isArray(value)) {
+          fail('validation.object');
+          return undefined;
+        }
+        output = {};
+        for (const [key, propertySchema] of Object.entries(schema.properties)) {
+          const property = this.validateNode(value[key], propertySchema, path ? `${path}.${key}` : key, sink, root, value);
+          if (property !== undefined) {
+            output[key] = property;
+          }
+        }
+        break;
+
+      case 'array':
+        if (!Array.isArray(value)) {
+          fail('validation.array');
+          return undefined;
+        }
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+          fail('validation.minItems', { min: schema.minItems });
+        }
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+          fail('validation.maxItems', { max: schema.maxItems });
+        }
+        output = value.map((item, index) => this.validateNode(item, schema.items, `${path}[${index}]`, sink, root, value));
+        break;
+    }
+
+    if (schema.rules) {
+      this.checkRules(value, schema.rules, { data: root, parent, field: path }, sink);
     }
 
-    return errors;
+    return output;
   }
 
   /**
@@ -118,47 +548,144 @@ export class Validator {
 
     return formatted;
   }
+
+  /**
+   * 格式化驗證錯誤，保留錯誤代碼與參數供前端自行翻譯
+   *
+   * @example
+   * ```typescript
+   * Validator.formatValidationErrorDetails(errors);
+   * // { password: [{ code: 'validation.minLength', message: 'Must be at least 8 characters long', params: { length: 8 } }] }
+   * ```
+   */
+  static formatValidationErrorDetails(errors: ValidationError[]): Record<string, Array<Omit<ValidationError, 'field'>>> {
+    const formatted: Record<string, Array<Omit<ValidationError, 'field'>>> = {};
+
+    for (const { field, ...detail } of errors) {
+      if (!formatted[field]) {
+        formatted[field] = [];
+      }
+      formatted[field].push(detail);
+    }
+
+    return formatted;
+  }
 }
 
 /**
  * 常用驗證規則預設
+ *
+ * 未指定 message 時，錯誤訊息於驗證時依語系從 MessageCatalog 的 validationRules.<type> 取得，
+ * 英文預設訊息與直接宣告的規則不同（例如 'This field is required' 與 'Field is required'）；
+ * 錯誤代碼兩者皆為 validation.<type>
  */
 export const ValidationRules = {
   required: (message?: string) => ({
     type: 'required' as const,
-    message: message || 'This field is required',
+    message,
+    messageCode: 'validationRules.required',
   }),
 
   email: (message?: string) => ({
     type: 'email' as const,
-    message: message || 'Please enter a valid email address',
+    message,
+    messageCode: 'validationRules.email',
   }),
 
   minLength: (length: number, message?: string) => ({
     type: 'minLength' as const,
     value: length,
-    message: message || `Must be at least ${length} characters long`,
+    message,
+    messageCode: 'validationRules.minLength',
   }),
 
   maxLength: (length: number, message?: string) => ({
     type: 'maxLength' as const,
     value: length,
-    message: message || `Must not exceed ${length} characters`,
+    message,
+    messageCode: 'validationRules.maxLength',
   }),
 
   pattern: (regex: string, message?: string) => ({
     type: 'pattern' as const,
     value: regex,
-    message: message || 'Invalid format',
+    message,
+    messageCode: 'validationRules.pattern',
   }),
 
-  custom: (validator: (value: any) => boolean, message?: string) => ({
+  custom: (
+    validator: (value: any, context: ValidationContext) => boolean | Promise<boolean>,
+    message?: string,
+    timeoutMs?: number
+  ) => ({
     type: 'custom' as const,
     validator,
-    message: message || 'Validation failed',
+    message,
+    messageCode: 'validationRules.custom',
+    timeoutMs,
   }),
 };
 
+/**
+ * 結構描述建立工具
+ *
+ * @example
+ * ```typescript
+ * const missionSchema = Schemas.object({
+ *   name: Schemas.string([ValidationRules.required(), ValidationRules.maxLength(100)]),
+ *   droneId: Schemas.uuid(),
+ *   priority: Schemas.enum(['low', 'normal', 'high']),
+ *   scheduledAt: Schemas.optional(Schemas.date()),
+ *   waypoints: Schemas.array(Schemas.object({
+ *     lat: Schemas.number({ min: -90, max: 90 }),
+ *     lng: Schemas.number({ min: -180, max: 180 }),
+ *     altitude: Schemas.nullable(Schemas.integer({ min: 0 })),
+ *   }), { minItems: 1 }),
+ * });
+ *
+ * const errors = Validator.validateObject(req.body, missionSchema);
+ * // [{ field: 'waypoints[3].lat', message: 'Must be at most 90', code: 'validation.max', params: { max: 90 } }]
+ *
+ * type Mission = InferSchema<typeof missionSchema>;
+ * // { name: string; droneId: string; priority: 'low' | 'normal' | 'high'; scheduledAt?: Date; waypoints: {...}[] }
+ * ```
+ */
+export const Schemas = {
+  string: (rules?: ValidationRule['rules']): StringFieldSchema => ({ type: 'string', rules }),
+
+  number: (options: { min?: number; max?: number; rules?: ValidationRule['rules'] } = {}): NumberFieldSchema => ({
+    type: 'number',
+    ...options,
+  }),
+
+  integer: (options: { min?: number; max?: number; rules?: ValidationRule['rules'] } = {}): NumberFieldSchema => ({
+    type: 'integer',
+    ...options,
+  }),
+
+  boolean: (): BooleanFieldSchema => ({ type: 'boolean' }),
+
+  date: (): DateFieldSchema => ({ type: 'date' }),
+
+  uuid: (): UuidFieldSchema => ({ type: 'uuid' }),
+
+  enum: <const V extends string | number>(values: readonly V[]): EnumFieldSchema<V> => ({ type: 'enum', values }),
+
+  object: <P extends Record<string, FieldSchema>>(properties: P): ObjectFieldSchema<P> => ({ type: 'object', properties }),
+
+  array: <I extends FieldSchema>(items: I, options: { minItems?: number; maxItems?: number } = {}): ArrayFieldSchema<I> => ({
+    type: 'array',
+    items,
+    ...options,
+  }),
+
+  /** 允許欄位不存在 */
+  optional: <S extends FieldSchema>(schema: S): S & { optional: true } => ({ ...schema, optional: true }),
+
+  /** 允許欄位為 null */
+  nullable: <S extends FieldSchema>(schema: S): S & { nullable: true } => ({ ...schema, nullable: true }),
+};
+
 /**
  * 資料清理工具
  */
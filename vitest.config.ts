@@ -0,0 +1,29 @@
+import { existsSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { defineConfig, type Plugin } from 'vitest/config';
+
+/**
+ * 原始碼旁保留了發佈用的編譯產物（*.js），測試時一律載入對應的 .ts 原始碼
+ */
+function preferTypeScriptSources(): Plugin {
+  return {
+    name: 'prefer-typescript-sources',
+    enforce: 'pre',
+    resolveId(source, importer) {
+      if (!importer || !source.startsWith('.') || !source.endsWith('.js')) {
+        return null;
+      }
+      const candidate = resolve(dirname(importer), source.replace(/\.js$/, '.ts'));
+      return existsSync(candidate) ? candidate : null;
+    },
+  };
+}
+
+export default defineConfig({
+  plugins: [preferTypeScriptSources()],
+  test: {
+    include: ['test/**/*.test.ts'],
+    testTimeout: 15000,
+    hookTimeout: 15000,
+  },
+});